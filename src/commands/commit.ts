@@ -1,11 +1,25 @@
 import { Command, Flags } from '@oclif/core';
-import { GitService } from '../core/git.js';
+import { CommitInfo, GitService } from '../core/git.js';
 import { ContextBuilder } from '../core/context.js';
+import { IgnoreRules } from '../core/ignore.js';
 import { PromptBuilder } from '../core/prompt.js';
+import { StyleLearner } from '../core/style.js';
 import { ConfigService } from '../core/config.js';
 import { ModelFactory } from '../core/model-factory.js';
+import { completeWithProgress, generateCandidates, Message, ModelProvider } from '../core/model.js';
+import { CommitLinter } from '../core/lint.js';
+import { LintRules } from '../core/lint-rules.js';
+import { CommitParser } from '../core/commit-parser.js';
+import { CommitTypeRegistry } from '../core/commit-types.js';
+import { CommitRenderer, CommitRenderOptions } from '../core/render.js';
+import { loadTemplate } from '../core/template.js';
 import { IssueLinker } from '../core/issue-linker.js';
+import { RevertDetector } from '../core/revert.js';
 import { logger } from '../utils/logger.js';
+import { ask, choose, Choice, editText, isInteractive } from '../utils/interactive.js';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+
+type ReviewAction = 'accept' | 'edit' | 'regenerate' | 'hint' | 'abort';
 
 export default class Commit extends Command {
     static description = 'Generate a Conventional Commit message from staged changes or diff range';
@@ -14,19 +28,39 @@ export default class Commit extends Command {
         stage: Flags.boolean({ description: 'Use staged changes' }),
         range: Flags.string({ description: 'Use specific diff range (e.g., origin/main...HEAD)' }),
         type: Flags.string({
-            description: 'Override commit type',
-            options: ['feat', 'fix', 'docs', 'style', 'refactor', 'perf', 'test', 'chore']
+            description: 'Override commit type (a Conventional Commits type or one configured in .aicmt.yaml)',
         }),
         scope: Flags.string({ description: 'Override scope' }),
+        candidates: Flags.integer({
+            description: 'Generate N alternative messages and pick one',
+            default: 1,
+            min: 1,
+            max: 10,
+        }),
         breaking: Flags.boolean({ description: 'Mark as breaking change' }),
+        revert: Flags.string({ description: 'Write a revert message for this commit (sha or ref)' }),
+        reason: Flags.string({ description: 'Why the change is reverted; added to the revert message body' }),
         issue: Flags.string({ description: 'Link issue (id|auto|off)', default: 'off' }),
         emoji: Flags.boolean({ description: 'Prepend type-based emoji' }),
         width: Flags.integer({ description: 'Wrap body to n columns', default: 72 }),
         'dry-run': Flags.boolean({ description: 'Show output without committing' }),
+        'message-file': Flags.string({
+            description: 'With --dry-run, write the message above the contents of this file (used by the git hook)',
+            dependsOn: ['dry-run'],
+        }),
         open: Flags.boolean({ description: 'Open editor for final review' }),
+        yes: Flags.boolean({
+            char: 'y',
+            description: 'Commit without confirmation (required when not running in a terminal)',
+        }),
         'no-verify': Flags.boolean({ description: 'Skip git hooks' }),
         model: Flags.string({ description: 'Override model (e.g., openai/gpt-4o-mini)' }),
         'include-diff': Flags.boolean({ description: 'Include diff in AI prompt', default: false }),
+        stream: Flags.boolean({
+            description: 'Stream the response, counting tokens as they arrive',
+            default: true,
+            allowNo: true,
+        }),
     };
 
     async run(): Promise<void> {
@@ -35,9 +69,10 @@ export default class Commit extends Command {
         try {
             // Initialize services
             const config = new ConfigService();
+            const types = new CommitTypeRegistry(config.getValue('types'));
             const git = new GitService();
-            const contextBuilder = new ContextBuilder(git);
-            const promptBuilder = new PromptBuilder();
+            const contextBuilder = new ContextBuilder(git, types);
+            const promptBuilder = new PromptBuilder(types);
             const issueLinker = new IssueLinker(git);
 
             // Validate inputs
@@ -45,6 +80,11 @@ export default class Commit extends Command {
                 this.error('Must specify either --stage or --range');
             }
 
+            // Types are configurable, so --type is checked against the registry rather than fixed flag options
+            if (flags.type && !types.has(flags.type)) {
+                this.error(`Unknown commit type: ${flags.type}. Expected one of: ${types.names().join(', ')}`);
+            }
+
             // Get diff
             this.log('🔍 Analyzing changes...');
             const diff = flags.stage
@@ -55,11 +95,43 @@ export default class Commit extends Command {
                 this.error('No changes detected');
             }
 
+            // The message itself comes from the template, whether the model or a revert describes the commit
+            const parser = new CommitParser(types);
+            const renderer = new CommitRenderer(
+                loadTemplate('commit', {
+                    root: this.config?.root,
+                    path: config.getValue('templates')?.commit,
+                }),
+                types
+            );
+
+            // Reverts get git's own message shape instead of a generated one
+            const reverted = this.findRevert(git, diff, flags);
+            if (reverted) {
+                const text = renderer.render(RevertDetector.message(reverted, flags.reason), {
+                    width: flags.width,
+                    emoji: flags.emoji,
+                    scope: flags.scope,
+                    issue: flags.issue && !['auto', 'off'].includes(flags.issue) ? flags.issue : undefined,
+                });
+
+                this.log('\n' + '='.repeat(80));
+                this.log(text);
+                this.log('='.repeat(80) + '\n');
+
+                await this.confirmAndCommit(git, renderer, text, flags);
+                return;
+            }
+
             // Build context
             this.log('📊 Building context...');
+            const style = new StyleLearner(git, config.getValue('style')?.history).learn();
+            const ignore = IgnoreRules.load(git.getRepositoryRoot(), config.getValue('context')?.ignore);
             const context = await contextBuilder.buildContext({
                 staged: flags.stage,
                 range: flags.range,
+                style,
+                ignore,
             });
 
             // Handle issue linking
@@ -78,7 +150,7 @@ export default class Commit extends Command {
             // Create model provider
             this.log('🤖 Generating commit message...');
             const provider = flags.model
-                ? ModelFactory.createFromString(flags.model)
+                ? ModelFactory.createFromString(flags.model, undefined, config)
                 : ModelFactory.createFromConfig(config);
 
             // Build prompt
@@ -92,47 +164,64 @@ export default class Commit extends Command {
                     emoji: flags.emoji,
                     width: flags.width,
                     includeDiff: flags['include-diff'],
+                    tokens: provider.tokenEstimator?.(),
+                    style,
                 },
-                flags['include-diff'] ? diff : undefined
+                flags['include-diff'] ? ignore.filterDiff(diff) : undefined
             );
 
-            // Generate commit message
-            const commitMessage = await provider.complete(messages);
+            const renderOptions: CommitRenderOptions = {
+                width: flags.width,
+                emoji: flags.emoji,
+                type: flags.type,
+                scope: flags.scope,
+                breaking: flags.breaking,
+                breakingChanges: context.breakingChanges,
+                issue: issueReference && issueReference !== 'off' ? issueReference : undefined,
+            };
+            const render = (output: string): string => this.renderOutput(output, parser, renderer, renderOptions);
 
-            // Display result
-            this.log('\n' + '='.repeat(80));
-            this.log(commitMessage);
-            this.log('='.repeat(80) + '\n');
+            // Generate commit message, counting tokens as they arrive when possible
+            const live = flags.stream !== false && process.stdout.isTTY === true && !!provider.stream;
 
-            // Handle dry-run
-            if (flags['dry-run']) {
-                this.log('✅ Dry-run mode - no commit created');
-                return;
-            }
+            const generate = async (prompt: Message[]): Promise<string> => {
+                const output = await completeWithProgress(
+                    provider,
+                    prompt,
+                    live ? 'Generating commit message' : undefined
+                );
 
-            // Open in editor if requested
-            if (flags.open) {
-                this.log('📝 Opening editor for review...');
-                // Editor integration would go here
-                this.log('ℹ️  Editor integration not yet implemented');
-                return;
-            }
+                // Display result
+                const text = render(output);
+                this.log('\n' + '='.repeat(80));
+                this.log(text);
+                this.log('='.repeat(80) + '\n');
 
-            // Confirm before committing
-            const shouldCommit = await this.confirm('Create commit with this message?');
-            if (!shouldCommit) {
-                this.log('❌ Commit cancelled');
-                return;
-            }
+                return text;
+            };
 
-            // Create commit
-            this.log('💾 Creating commit...');
-            git.createCommit({
-                message: commitMessage,
-                noVerify: flags['no-verify'],
-            });
+            const candidateCount = flags.candidates ?? 1;
+            const generated =
+                candidateCount > 1
+                    ? await this.pickCandidate(provider, messages, candidateCount, {
+                        interactive: isInteractive() && !flags.yes && !flags['dry-run'],
+                        render,
+                        types,
+                        rules: LintRules.fromConfig(config.getValue('lint')),
+                    })
+                    : await generate(messages);
 
-            this.log('✅ Commit created successfully!');
+            await this.confirmAndCommit(git, renderer, generated, flags, (previous, hint) =>
+                generate(
+                    hint
+                        ? [
+                            ...messages,
+                            { role: 'assistant', content: previous },
+                            { role: 'user', content: `Revise the commit message: ${hint}` },
+                        ]
+                        : messages
+                )
+            );
         } catch (error) {
             logger.error('Commit command failed', { error });
             if (error instanceof Error) {
@@ -143,12 +232,250 @@ export default class Commit extends Command {
         }
     }
 
-    private async confirm(message: string): Promise<boolean> {
-        // Simple confirmation - in production, use proper prompt library
-        this.log(`\n${message} (y/N)`);
+    /**
+     * The commit being reverted: the one named by --revert, or a recent commit
+     * that the staged changes exactly undo
+     */
+    private findRevert(
+        git: GitService,
+        diff: string,
+        flags: { stage?: boolean; revert?: string }
+    ): CommitInfo | undefined {
+        const detector = new RevertDetector(git);
+
+        if (flags.revert) {
+            const commit = git.getCommit(flags.revert);
+            if (!detector.isInverse(diff, git.getCommitDiff(commit.sha))) {
+                this.log(`⚠️  The changes do not exactly undo ${commit.sha.substring(0, 7)}; describing them as a revert anyway`);
+            }
+            return commit;
+        }
+
+        // A range is already part of history, so only staged changes can undo a recent commit
+        const commit = flags.stage ? detector.detect(diff) : undefined;
+        if (commit) {
+            this.log(`⏪ Staged changes revert ${commit.sha.substring(0, 7)} (${commit.subject})`);
+        }
+        return commit;
+    }
+
+    /**
+     * Confirm the message with the user (unless --yes or --dry-run) and create the commit
+     */
+    private async confirmAndCommit(
+        git: GitService,
+        renderer: CommitRenderer,
+        message: string,
+        flags: { 'dry-run'?: boolean; 'message-file'?: string; yes?: boolean; open?: boolean; 'no-verify'?: boolean },
+        regenerate?: (previous: string, hint?: string) => Promise<string>
+    ): Promise<void> {
+        // Handle dry-run
+        if (flags['dry-run']) {
+            if (flags['message-file']) {
+                // Keep what git already put in the buffer, such as its comment lines
+                const file = flags['message-file'];
+                const existing = existsSync(file) ? readFileSync(file, 'utf-8') : '';
+                writeFileSync(file, `${message}\n${existing}`);
+                this.log(`✅ Wrote the message to ${file}`);
+                return;
+            }
+
+            this.log('✅ Dry-run mode - no commit created');
+            return;
+        }
+
+        // Committing needs either someone at the terminal or an explicit --yes
+        const interactive = isInteractive();
+        if (!flags.yes && !interactive) {
+            this.error('Not running in an interactive terminal. Re-run with --yes to commit without confirmation.');
+        }
+
+        const commitMessage = await this.review(message, renderer, {
+            yes: flags.yes ?? false,
+            open: flags.open ?? false,
+            regenerate,
+        });
+
+        if (commitMessage === null) {
+            this.log('❌ Commit cancelled');
+            return;
+        }
+
+        // Create commit
+        this.log('💾 Creating commit...');
+        git.createCommit({
+            message: commitMessage,
+            noVerify: flags['no-verify'],
+        });
+
+        this.log('✅ Commit created successfully!');
+    }
+
+    /**
+     * Generate several candidates, rank them by lint results and let the user
+     * pick one (or take the best-scoring one when nobody can be asked).
+     */
+    private async pickCandidate(
+        provider: ModelProvider,
+        messages: Message[],
+        count: number,
+        options: { interactive: boolean; render: (output: string) => string; types: CommitTypeRegistry; rules: LintRules }
+    ): Promise<string> {
+        const linter = new CommitLinter(options.types, options.rules);
+        const candidates = (await generateCandidates(provider, messages, count)).map(options.render);
+
+        // Array.prototype.sort is stable, so equal scores keep generation order
+        const ranked = candidates
+            .map((text) => {
+                const result = linter.lint(text);
+                return { text, result, score: linter.score(result) };
+            })
+            .sort((a, b) => a.score - b.score);
+
+        ranked.forEach(({ text, result }, i) => {
+            const status =
+                result.errors.length > 0
+                    ? `❌ ${result.errors.length} error(s)`
+                    : result.warnings.length > 0
+                        ? `⚠️  ${result.warnings.length} warning(s)`
+                        : '✅ clean';
+
+            this.log(`\n[${i + 1}] ${status}`);
+            this.log('='.repeat(80));
+            this.log(text);
+            this.log('='.repeat(80));
+        });
+        this.log('');
+
+        if (!options.interactive || ranked.length === 1) {
+            this.log('✨ Selected candidate 1 (best lint score)');
+            return ranked[0].text;
+        }
+
+        const picked = await choose(
+            'Pick a candidate',
+            ranked.map((_, i) => ({ key: String(i + 1), label: `[${i + 1}]`, value: String(i) }))
+        );
+
+        return ranked[Number(picked)].text;
+    }
+
+    /**
+     * Parse model output and assemble the final message, falling back to the
+     * cleaned-up output when it has no recognisable structure
+     */
+    private renderOutput(
+        output: string,
+        parser: CommitParser,
+        renderer: CommitRenderer,
+        options: CommitRenderOptions
+    ): string {
+        const parsed = parser.parse(output);
+
+        parsed.warnings.forEach((warning) => this.log(`⚠️  ${warning}`));
+
+        return parsed.commit ? renderer.render(parsed.commit, options) : parsed.raw;
+    }
+
+    /**
+     * Let the user accept, edit, regenerate or abort the message.
+     * Returns the message to commit, or null when aborted.
+     */
+    private async review(
+        message: string,
+        renderer: CommitRenderer,
+        options: {
+            yes: boolean;
+            open: boolean;
+            regenerate?: (previous: string, hint?: string) => Promise<string>; // Omitted when there is nothing to regenerate
+        }
+    ): Promise<string | null> {
+        let current = message;
+        let edited = false;
+
+        if (options.open) {
+            this.log('📝 Opening editor for review...');
+            current = this.edit(current);
+            edited = true;
+        }
+
+        for (;;) {
+            // Edited text is the user's responsibility, so check it before committing
+            const errors = edited ? renderer.validate(current).errors : [];
+
+            if (errors.length > 0) {
+                this.log('❌ Edited message is not a valid Conventional Commit:');
+                errors.forEach((error) => this.log(`  - ${error}`));
+                this.log('');
+            }
+
+            if (options.yes) {
+                if (errors.length > 0) {
+                    this.error('Refusing to commit an invalid message');
+                }
+                return current;
+            }
+
+            const choices: Choice<ReviewAction>[] = [
+                { key: 'e', label: '[e]dit', value: 'edit' },
+                ...(options.regenerate
+                    ? [
+                        { key: 'r', label: '[r]egenerate', value: 'regenerate' as const },
+                        { key: 'h', label: 'regenerate with [h]int', value: 'hint' as const },
+                    ]
+                    : []),
+                { key: 'q', label: '[q]uit', value: 'abort' },
+            ];
+            if (errors.length === 0) {
+                choices.unshift({ key: 'y', label: '[y]es', value: 'accept' });
+            }
+
+            const action = await choose('Create commit with this message?', choices);
+
+            switch (action) {
+                case 'accept':
+                    return current;
+
+                case 'edit':
+                    current = this.edit(current);
+                    edited = true;
+                    this.log('\n' + '='.repeat(80));
+                    this.log(current);
+                    this.log('='.repeat(80) + '\n');
+                    break;
+
+                case 'regenerate':
+                    this.log('🤖 Regenerating commit message...');
+                    current = await options.regenerate!(current);
+                    edited = false;
+                    break;
+
+                case 'hint': {
+                    const hint = await ask('Hint for the model: ');
+                    this.log('🤖 Regenerating commit message...');
+                    current = await options.regenerate!(current, hint || undefined);
+                    edited = false;
+                    break;
+                }
+
+                case 'abort':
+                    return null;
+            }
+        }
+    }
+
+    private edit(message: string): string {
+        const edited = editText(message, {
+            comment:
+                'Edit the commit message above. Lines starting with # are ignored.\n' +
+                'An empty message aborts the edit.',
+        });
+
+        if (!edited) {
+            this.log('ℹ️  Empty message, keeping the previous one');
+            return message;
+        }
 
-        // For now, auto-confirm in non-interactive mode
-        // In production, integrate with inquirer or similar
-        return true;
+        return edited;
     }
 }
@@ -1,10 +1,18 @@
 import { Command, Flags } from '@oclif/core';
 import { GitService } from '../core/git.js';
 import { ContextBuilder } from '../core/context.js';
+import { IgnoreRules } from '../core/ignore.js';
 import { PromptBuilder } from '../core/prompt.js';
+import { StyleLearner } from '../core/style.js';
 import { ConfigService } from '../core/config.js';
 import { ModelFactory } from '../core/model-factory.js';
+import { completeWithProgress } from '../core/model.js';
 import { IssueLinker } from '../core/issue-linker.js';
+import { CommitParser } from '../core/commit-parser.js';
+import { CommitTypeRegistry } from '../core/commit-types.js';
+import { PRParser } from '../core/pr-parser.js';
+import { CommitRenderer, PRRenderer } from '../core/render.js';
+import { loadTemplate } from '../core/template.js';
 import { logger } from '../utils/logger.js';
 import { writeFileSync } from 'fs';
 
@@ -16,8 +24,7 @@ export default class Compose extends Command {
         stage: Flags.boolean({ description: 'Use staged changes' }),
         range: Flags.string({ description: 'Use specific diff range (e.g., origin/main...HEAD)' }),
         type: Flags.string({
-            description: 'Override commit type',
-            options: ['feat', 'fix', 'docs', 'style', 'refactor', 'perf', 'test', 'chore']
+            description: 'Override commit type (a Conventional Commits type or one configured in .aicmt.yaml)',
         }),
         scope: Flags.string({ description: 'Override scope' }),
         breaking: Flags.boolean({ description: 'Mark as breaking change' }),
@@ -34,6 +41,11 @@ export default class Compose extends Command {
         issue: Flags.string({ description: 'Link issue (id|auto|off)', default: 'off' }),
         model: Flags.string({ description: 'Override model (e.g., openai/gpt-4o-mini)' }),
         'dry-run': Flags.boolean({ description: 'Show output without creating commit/files' }),
+        stream: Flags.boolean({
+            description: 'Stream the response, counting tokens as they arrive',
+            default: true,
+            allowNo: true,
+        }),
     };
 
     async run(): Promise<void> {
@@ -42,9 +54,10 @@ export default class Compose extends Command {
         try {
             // Initialize services
             const config = new ConfigService();
+            const types = new CommitTypeRegistry(config.getValue('types'));
             const git = new GitService();
-            const contextBuilder = new ContextBuilder(git);
-            const promptBuilder = new PromptBuilder();
+            const contextBuilder = new ContextBuilder(git, types);
+            const promptBuilder = new PromptBuilder(types);
             const issueLinker = new IssueLinker(git);
 
             // Validate inputs
@@ -52,6 +65,11 @@ export default class Compose extends Command {
                 this.error('Must specify either --stage or --range');
             }
 
+            // Types are configurable, so --type is checked against the registry rather than fixed flag options
+            if (flags.type && !types.has(flags.type)) {
+                this.error(`Unknown commit type: ${flags.type}. Expected one of: ${types.names().join(', ')}`);
+            }
+
             if (flags.pr && !flags.base) {
                 this.error('Must specify --base when using --pr');
             }
@@ -68,9 +86,13 @@ export default class Compose extends Command {
 
             // Build context
             this.log('📊 Building context...');
+            const style = new StyleLearner(git, config.getValue('style')?.history).learn();
+            const ignore = IgnoreRules.load(git.getRepositoryRoot(), config.getValue('context')?.ignore);
             const context = await contextBuilder.buildContext({
                 staged: flags.stage,
                 range: flags.range,
+                style,
+                ignore,
             });
 
             // Handle issue linking
@@ -87,9 +109,12 @@ export default class Compose extends Command {
 
             // Create model provider
             const provider = flags.model
-                ? ModelFactory.createFromString(flags.model)
+                ? ModelFactory.createFromString(flags.model, undefined, config)
                 : ModelFactory.createFromConfig(config);
 
+            // Count tokens as they arrive when the terminal and provider allow it
+            const live = flags.stream !== false && process.stdout.isTTY === true && !!provider.stream;
+
             // Generate commit message
             this.log('🤖 Generating commit message...');
             const commitMessages = promptBuilder.buildCommitPrompt(
@@ -101,9 +126,39 @@ export default class Compose extends Command {
                     issue: issueReference,
                     emoji: flags.emoji,
                     width: flags.width,
+                    tokens: provider.tokenEstimator?.(),
+                    style,
                 }
             );
-            const commitMessage = await provider.complete(commitMessages);
+
+            const commitOutput = await completeWithProgress(
+                provider,
+                commitMessages,
+                live ? 'Generating commit message' : undefined
+            );
+
+            // Assemble the message from the structured output via the commit template
+            const parsed = new CommitParser(types).parse(commitOutput);
+            parsed.warnings.forEach((warning) => this.log(`⚠️  ${warning}`));
+
+            const commitRenderer = new CommitRenderer(
+                loadTemplate('commit', {
+                    root: this.config?.root,
+                    path: config.getValue('templates')?.commit,
+                }),
+                types
+            );
+            const commitMessage = parsed.commit
+                ? commitRenderer.render(parsed.commit, {
+                    width: flags.width,
+                    emoji: flags.emoji,
+                    type: flags.type,
+                    scope: flags.scope,
+                    breaking: flags.breaking,
+                    breakingChanges: context.breakingChanges,
+                    issue: issueReference && issueReference !== 'off' ? issueReference : undefined,
+                })
+                : parsed.raw;
 
             this.log('\n📝 Commit Message:');
             this.log('='.repeat(80));
@@ -118,14 +173,39 @@ export default class Compose extends Command {
                     context,
                     flags.base,
                     'HEAD',
-                    diff
+                    ignore.filterDiff(diff),
+                    { tokens: provider.tokenEstimator?.() }
                 );
-                prDescription = await provider.complete(prMessages);
 
-                if (issueReference && issueReference !== 'off') {
-                    prDescription += `\n\n---\nRelated: #${issueReference}\n`;
+                const prOutput = await completeWithProgress(
+                    provider,
+                    prMessages,
+                    live ? 'Generating PR description' : undefined
+                );
+
+                // Parse the response into sections and lay them out with the PR template
+                const prParser = new PRParser();
+                const parsedPR = prParser.parse(prOutput);
+                parsedPR.warnings.forEach((warning) => this.log(`⚠️  ${warning}`));
+
+                const missing = prParser.validate(parsedPR.sections);
+                if (missing.length > 0) {
+                    this.error(
+                        `Generated PR description is missing required sections: ${missing.join(', ')}. ` +
+                            'Try again or use a different model.'
+                    );
                 }
 
+                const prRenderer = new PRRenderer(
+                    loadTemplate('pr', {
+                        root: this.config?.root,
+                        path: config.getValue('templates')?.pr,
+                    })
+                );
+                prDescription = prRenderer.render(parsedPR.sections, {
+                    issue: issueReference && issueReference !== 'off' ? issueReference : undefined,
+                });
+
                 this.log('\n📋 PR Description:');
                 this.log('='.repeat(80));
                 this.log(prDescription);
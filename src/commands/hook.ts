@@ -0,0 +1,76 @@
+import { Args, Command } from '@oclif/core';
+import { GitService } from '../core/git.js';
+import { HOOK_NAMES, HookInstaller, HookName, HookStatus } from '../core/hooks.js';
+import { logger } from '../utils/logger.js';
+
+// What each hook does once installed
+const PURPOSE: Record<HookName, string> = {
+    'prepare-commit-msg': 'Plain `git commit` now opens the editor with a generated message',
+    'commit-msg': 'Commit messages are now checked with `aicmt lint-commit --hook`',
+};
+
+export default class Hook extends Command {
+    static description = 'Install, remove or inspect the git hooks that write and check messages for plain `git commit`';
+
+    static args = {
+        action: Args.string({
+            description: 'What to do with the hook',
+            options: ['install', 'uninstall', 'status'],
+            required: true,
+        }),
+        name: Args.string({
+            description: 'Which hook: prepare-commit-msg writes messages, commit-msg lints them',
+            options: HOOK_NAMES,
+            default: 'prepare-commit-msg',
+        }),
+    };
+
+    async run(): Promise<void> {
+        const { args } = await this.parse(Hook);
+        const hook = args.name as HookName;
+
+        try {
+            const installer = new HookInstaller(new GitService());
+
+            switch (args.action) {
+                case 'install': {
+                    const status = installer.install(hook);
+                    this.log(`✅ Installed ${hook} hook at ${status.path}`);
+                    if (status.chained) {
+                        this.log(`🔗 The hook that was there before still runs first`);
+                    }
+                    this.log(`ℹ️  ${PURPOSE[hook]}`);
+                    break;
+                }
+
+                case 'uninstall':
+                    if (installer.uninstall(hook)) {
+                        this.log(`✅ Removed ${hook} hook`);
+                    } else {
+                        this.log(`ℹ️  The ${hook} hook is not installed`);
+                    }
+                    break;
+
+                default:
+                    this.log(this.describe(installer.status(hook)));
+            }
+        } catch (error) {
+            logger.error('Hook command failed', { error });
+            if (error instanceof Error) {
+                this.error(error.message);
+            } else {
+                this.error('An unknown error occurred');
+            }
+        }
+    }
+
+    private describe(status: HookStatus): string {
+        if (status.installed) {
+            return `✅ ${status.hook}: installed at ${status.path}${status.chained ? ' (runs the previous hook first)' : ''}`;
+        }
+        if (status.foreign) {
+            return `ℹ️  ${status.hook}: not installed; another hook is at ${status.path} and would be chained`;
+        }
+        return `ℹ️  ${status.hook}: not installed`;
+    }
+}
@@ -1,36 +1,106 @@
 import { Command, Args, Flags } from '@oclif/core';
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync, existsSync, writeFileSync } from 'fs';
+import { CommitTypeRegistry } from '../core/commit-types.js';
+import { ConfigService } from '../core/config.js';
+import { GitService } from '../core/git.js';
+import { CommitLinter, LintOptions, LintResult } from '../core/lint.js';
+import { CommitFixer } from '../core/lint-fix.js';
+import { LintReport, LintedMessage, REPORT_FORMATS, ReportFormat } from '../core/lint-report.js';
+import { LintRules } from '../core/lint-rules.js';
+import { ModelFactory } from '../core/model-factory.js';
+import { PromptBuilder } from '../core/prompt.js';
 import { logger } from '../utils/logger.js';
 
-interface LintResult {
-    valid: boolean;
-    errors: string[];
-    warnings: string[];
+interface LintFlags {
+    strict: boolean;
+    'max-length'?: number;
+    'allow-emoji': boolean;
+    hook: boolean;
+    format: string;
+    'ai-fix': boolean;
+    model?: string;
 }
 
 export default class LintCommit extends Command {
-    static description = 'Lint a commit message file according to Conventional Commit standards';
+    static description = 'Lint a commit message file, or every commit in a range, according to Conventional Commit standards';
 
     static args = {
-        file: Args.string({ description: 'Path to commit message file', required: true }),
+        file: Args.string({ description: 'Path to commit message file' }),
     };
 
     static flags = {
         strict: Flags.boolean({ description: 'Enable strict mode (warnings become errors)', default: false }),
-        'max-length': Flags.integer({ description: 'Maximum subject line length', default: 72 }),
+        'max-length': Flags.integer({ description: 'Maximum subject line length (default: lint rule header-max-length, 72)' }),
         'allow-emoji': Flags.boolean({ description: 'Allow emojis in commit message', default: true }),
+        hook: Flags.boolean({
+            description: 'Read the file as a commit-msg hook does: skip comments and git-generated subjects',
+            default: false,
+        }),
+        range: Flags.string({
+            description: 'Lint every commit in a range instead of a file (e.g., origin/main..HEAD)',
+            exclusive: ['from', 'hook'],
+        }),
+        from: Flags.string({ description: 'Lint the commits after this one (same as --range <from>..<to>)', exclusive: ['hook'] }),
+        to: Flags.string({ description: 'Last commit to lint with --from', default: 'HEAD' }),
+        fix: Flags.boolean({
+            description: 'Rewrite the file in place, fixing what can be fixed mechanically',
+            default: false,
+            exclusive: ['range', 'from'],
+        }),
+        'ai-fix': Flags.boolean({
+            description: 'With --fix, ask the model to rewrite a message that cannot be fixed mechanically',
+            default: false,
+            dependsOn: ['fix'],
+        }),
+        model: Flags.string({ description: 'Override model for --ai-fix (e.g., openai/gpt-4o-mini)' }),
+        format: Flags.string({
+            description: 'Report format: text, or json, junit and github (Actions annotations) for CI',
+            options: REPORT_FORMATS,
+            default: 'text',
+        }),
     };
 
     async run(): Promise<void> {
         const { args, flags } = await this.parse(LintCommit);
+        const range = flags.range ?? (flags.from ? `${flags.from}..${flags.to}` : undefined);
 
         try {
+            if (range && args.file) {
+                this.error('Pass either a message file or a commit range, not both');
+            }
+
+            if (range) {
+                this.lintRange(range, flags);
+                return;
+            }
+
+            if (!args.file) {
+                this.error('Pass a commit message file, or --range/--from to lint commits');
+            }
+
             if (!existsSync(args.file)) {
                 this.error(`File not found: ${args.file}`);
             }
 
-            const message = readFileSync(args.file, 'utf-8');
-            const result = this.lintMessage(message, flags);
+            let message = readFileSync(args.file, 'utf-8');
+
+            // A hook gets git's raw buffer, comments and `--verbose` diff included
+            if (flags.hook) {
+                message = CommitLinter.stripComments(message, this.commentChar());
+
+                // git aborts on an empty message itself, with a clearer error
+                if (!message) {
+                    return;
+                }
+            }
+
+            const result = flags.fix ? await this.fix(args.file, message, flags) : this.lint(message, flags);
+
+            if (flags.format !== 'text') {
+                const subject = message.trim().split('\n')[0];
+                this.report([{ name: args.file, file: args.file, subject, result }], flags);
+                return;
+            }
 
             // Display warnings
             if (result.warnings.length > 0) {
@@ -62,111 +132,121 @@ export default class LintCommit extends Command {
         }
     }
 
-    private lintMessage(message: string, flags: any): LintResult {
-        const errors: string[] = [];
-        const warnings: string[] = [];
-
-        // Parse message
-        const lines = message.trim().split('\n');
-        const subject = lines[0];
-        const body = lines.slice(2).join('\n'); // Skip blank line after subject
-
-        // === Subject Line Validation ===
-
-        // Length check
-        if (subject.length === 0) {
-            errors.push('Subject line is empty');
-            return { valid: false, errors, warnings };
-        }
+    /**
+     * Lint every commit in the range the way the commit-msg hook would have
+     */
+    private lintRange(range: string, flags: LintFlags): void {
+        const commits = new GitService().getCommitsInRange(range);
+        const { linter, options } = this.setup(flags);
+
+        const messages: LintedMessage[] = commits.map((commit) => ({
+            name: commit.sha.slice(0, 7),
+            sha: commit.sha,
+            subject: commit.subject,
+            // Merges, reverts and fixups are written by git, as in the hook
+            result: linter.lint(commit.message ?? commit.subject, { ...options, allowGenerated: true }),
+        }));
+
+        this.report(messages, flags);
+    }
 
-        if (subject.length > flags['max-length']) {
-            errors.push(`Subject line too long (${subject.length} > ${flags['max-length']} characters)`);
-        }
+    /**
+     * Print the report and fail when any message has errors
+     */
+    private report(messages: LintedMessage[], flags: LintFlags): void {
+        const report = new LintReport(messages, flags.strict);
+        const output = report.render(flags.format as ReportFormat);
 
-        // Period check
-        if (subject.endsWith('.')) {
-            errors.push('Subject line should not end with a period');
+        if (output) {
+            this.log(output);
         }
 
-        // Conventional Commit format
-        const conventionalRegex = /^(feat|fix|docs|style|refactor|perf|test|chore|build|ci|revert)(\([a-z0-9\-\/]+\))?(!)?:\s+.+/;
-        const emojiRegex = /^(🚀|🐛|📝|♻️|✅|⚡|🧹|🔧|🔨|⏪)\s+/;
-
-        let subjectToCheck = subject;
-
-        // Handle emoji prefix if allowed
-        if (flags['allow-emoji'] && emojiRegex.test(subject)) {
-            subjectToCheck = subject.replace(emojiRegex, '');
+        const failed = report.failed().length;
+        if (failed > 0) {
+            this.error(`${failed} of ${messages.length} commit message(s) failed linting`);
         }
+    }
 
-        if (!conventionalRegex.test(subjectToCheck)) {
-            errors.push(
-                'Subject does not follow Conventional Commit format: ' +
-                '<type>(<scope>): <description> or <type>: <description>'
-            );
-        } else {
-            // Extract type and validate
-            const match = subjectToCheck.match(conventionalRegex);
-            if (match) {
-                const scope = match[2];
-                const breaking = match[3];
-                const description = subjectToCheck.split(': ')[1];
-
-                // Check description starts with lowercase
-                if (description && /^[A-Z]/.test(description)) {
-                    warnings.push('Subject description should start with lowercase letter');
-                }
-
-                // Check for imperative mood (common violations)
-                if (description) {
-                    const badStarts = ['added', 'adding', 'adds', 'fixed', 'fixing', 'fixes', 'updated', 'updating', 'updates'];
-                    const firstWord = description.split(' ')[0].toLowerCase();
-                    if (badStarts.includes(firstWord)) {
-                        warnings.push(`Use imperative mood: "${firstWord}" should be "${firstWord.replace(/e?d$/, '').replace(/ing$/, '').replace(/es$/, '').replace(/s$/, '')}"`);
-                    }
-                }
-
-                // Check scope format
-                if (scope && !/^\([a-z0-9\-\/]+\)$/.test(scope)) {
-                    warnings.push('Scope should be lowercase with hyphens');
-                }
+    private lint(message: string, flags: LintFlags): LintResult {
+        const { linter, options } = this.setup(flags);
+        return linter.lint(message, options);
+    }
 
-                // Warn if breaking change marker but no BREAKING CHANGE footer
-                if (breaking && !body.includes('BREAKING CHANGE:')) {
-                    warnings.push('Breaking change marker (!) present but no BREAKING CHANGE: footer found');
-                }
+    /**
+     * Fix what the deterministic fixer can, then, with --ai-fix, have the
+     * model rewrite a message that still fails. The file is only written
+     * when the message changed.
+     */
+    private async fix(file: string, message: string, flags: LintFlags): Promise<LintResult> {
+        const { config, types, rules, linter, options } = this.setup(flags);
+        const width = config.getValue('style')?.width ?? 72;
+        const fixer = new CommitFixer(types, rules, width);
+
+        const mechanical = fixer.fix(message, options);
+        mechanical.fixed.forEach((problem) => this.log(`🔧 Fixed: ${problem.message}`));
+
+        let { message: fixed, result } = mechanical;
+
+        const failing = result.errors.length > 0 || (flags.strict && result.warnings.length > 0);
+        if (flags['ai-fix'] && failing) {
+            this.log('🤖 Asking the model to rewrite the message...');
+            const provider = flags.model
+                ? ModelFactory.createFromString(flags.model, undefined, config)
+                : ModelFactory.createFromConfig(config);
+            const prompt = new PromptBuilder(types).buildFixPrompt(fixed, result.problems.map((problem) => problem.message), width);
+
+            // Models sometimes fence the message anyway
+            const output = (await provider.complete(prompt)).trim().replace(/^```\w*\n([\s\S]*?)\n```$/, '$1');
+            const rewrite = fixer.fix(output, options);
+
+            if (linter.score(rewrite.result) < linter.score(result)) {
+                ({ message: fixed, result } = rewrite);
+                this.log('🤖 Rewrote the message');
+            } else {
+                this.log('⚠️  The rewrite was no better; keeping the message');
             }
         }
 
-        // === Body Validation ===
-
-        if (body.length > 0) {
-            // Check blank line after subject
-            if (lines.length > 1 && lines[1].trim() !== '') {
-                errors.push('Body must be separated from subject by a blank line');
-            }
+        if (fixed !== message.trim()) {
+            writeFileSync(file, `${fixed}\n`);
+            this.log(`✏️  Updated ${file}`);
+        }
 
-            // Check line length in body
-            const bodyLines = lines.slice(2);
-            bodyLines.forEach((line, idx) => {
-                if (line.length > 100 && !line.startsWith('http')) {
-                    warnings.push(`Body line ${idx + 3} is too long (${line.length} > 100 characters)`);
-                }
-            });
+        return result;
+    }
 
-            // Check for BREAKING CHANGE footer format
-            if (body.includes('BREAKING CHANGE:')) {
-                const breakingMatch = body.match(/BREAKING CHANGE:\s*(.+)/);
-                if (breakingMatch && breakingMatch[1].trim().length === 0) {
-                    errors.push('BREAKING CHANGE: footer must have a description');
-                }
-            }
-        }
+    private setup(flags: LintFlags): {
+        config: ConfigService;
+        types: CommitTypeRegistry;
+        rules: LintRules;
+        linter: CommitLinter;
+        options: LintOptions;
+    } {
+        const config = new ConfigService();
+        const types = new CommitTypeRegistry(config.getValue('types'));
+        const rules = LintRules.fromConfig(config.getValue('lint'));
 
         return {
-            valid: errors.length === 0,
-            errors,
-            warnings,
+            config,
+            types,
+            rules,
+            linter: new CommitLinter(types, rules),
+            options: {
+                maxLength: flags['max-length'],
+                allowEmoji: flags['allow-emoji'],
+                allowGenerated: flags.hook,
+            },
         };
     }
+
+    /**
+     * The repository's core.commentChar, or git's default outside a repository
+     */
+    private commentChar(): string {
+        try {
+            return new GitService().getConfig('core.commentChar') || '#';
+        } catch {
+            return '#';
+        }
+    }
 }
@@ -1,10 +1,17 @@
 import { Command, Flags } from '@oclif/core';
 import { GitService } from '../core/git.js';
 import { ContextBuilder } from '../core/context.js';
+import { IgnoreRules } from '../core/ignore.js';
 import { PromptBuilder } from '../core/prompt.js';
 import { ConfigService } from '../core/config.js';
+import { CommitTypeRegistry } from '../core/commit-types.js';
 import { ModelFactory } from '../core/model-factory.js';
+import { completeWithProgress } from '../core/model.js';
 import { IssueLinker } from '../core/issue-linker.js';
+import { PRParser } from '../core/pr-parser.js';
+import { PRRenderer } from '../core/render.js';
+import { ChunkSummary, PRSummarizer } from '../core/summarize.js';
+import { loadTemplate } from '../core/template.js';
 import { logger } from '../utils/logger.js';
 import { writeFileSync } from 'fs';
 
@@ -20,6 +27,21 @@ export default class PR extends Command {
         'dry-run': Flags.boolean({ description: 'Preview without writing' }),
         model: Flags.string({ description: 'Override model' }),
         'include-diff': Flags.boolean({ description: 'Include diff preview in AI prompt', default: true }),
+        chunked: Flags.boolean({
+            description: 'Summarize the diff in parts before writing the description (default: when it is too large for one prompt)',
+            allowNo: true,
+        }),
+        concurrency: Flags.integer({
+            description: 'Parts of a chunked diff summarized at once',
+            default: 4,
+            min: 1,
+            max: 16,
+        }),
+        stream: Flags.boolean({
+            description: 'Stream the response, counting tokens as they arrive',
+            default: true,
+            allowNo: true,
+        }),
     };
 
     async run(): Promise<void> {
@@ -28,9 +50,10 @@ export default class PR extends Command {
         try {
             // Initialize services
             const config = new ConfigService();
+            const types = new CommitTypeRegistry(config.getValue('types'));
             const git = new GitService();
-            const contextBuilder = new ContextBuilder(git);
-            const promptBuilder = new PromptBuilder();
+            const contextBuilder = new ContextBuilder(git, types);
+            const promptBuilder = new PromptBuilder(types);
             const issueLinker = new IssueLinker(git);
 
             // Determine range
@@ -47,7 +70,9 @@ export default class PR extends Command {
 
             // Build context
             this.log('📊 Building context...');
-            const context = await contextBuilder.buildContext({ range });
+            const ignore = IgnoreRules.load(git.getRepositoryRoot(), config.getValue('context')?.ignore);
+            const context = await contextBuilder.buildContext({ range, ignore });
+            const promptDiff = ignore.filterDiff(diff);
 
             // Handle issue linking
             let issueReference: string | undefined;
@@ -64,29 +89,70 @@ export default class PR extends Command {
             // Create model provider
             this.log('🤖 Generating PR description...');
             const provider = flags.model
-                ? ModelFactory.createFromString(flags.model)
+                ? ModelFactory.createFromString(flags.model, undefined, config)
                 : ModelFactory.createFromConfig(config);
 
+            // Diffs too large for one prompt are summarized in parts first
+            const tokens = provider.tokenEstimator?.();
+            let summaries: ChunkSummary[] | undefined;
+
+            if (flags['include-diff']) {
+                const summarizer = new PRSummarizer(provider, promptBuilder, {
+                    tokens,
+                    concurrency: flags.concurrency,
+                });
+
+                if (flags.chunked ?? summarizer.needsChunking(promptDiff)) {
+                    // Lock and generated files are left out, which can leave nothing to summarize
+                    const chunks = summarizer.plan(promptDiff);
+                    if (chunks.length > 0) {
+                        this.log(`🧩 Summarizing the diff in ${chunks.length} parts...`);
+                        summaries = await summarizer.summarize(chunks);
+                    }
+                }
+            }
+
             // Build prompt
             const messages = promptBuilder.buildPRPrompt(
                 context,
                 flags.base,
                 flags.head,
-                flags['include-diff'] ? diff : undefined
+                flags['include-diff'] ? promptDiff : undefined,
+                { tokens, summaries }
             );
 
-            // Generate PR description
-            let prDescription = await provider.complete(messages);
+            // Generate PR description, counting tokens as they arrive when possible
+            const live = flags.stream !== false && process.stdout.isTTY === true && !!provider.stream;
 
-            // Add issue reference if available
-            if (issueReference) {
-                prDescription += `\n\n---\nRelated: #${issueReference}\n`;
+            const output = await completeWithProgress(
+                provider,
+                messages,
+                live ? 'Generating PR description' : undefined
+            );
+
+            // Parse the response into sections and lay them out with the PR template
+            const parser = new PRParser();
+            const parsed = parser.parse(output);
+            parsed.warnings.forEach((warning) => this.log(`⚠️  ${warning}`));
+
+            const missing = parser.validate(parsed.sections);
+            if (missing.length > 0) {
+                this.error(
+                    `Generated PR description is missing required sections: ${missing.join(', ')}. ` +
+                        'Try again or use a different model.'
+                );
             }
 
-            // Apply template if provided
-            if (flags.template) {
-                // Template application would go here
-                this.log(`ℹ️  Template support not yet implemented`);
+            const templatePath = flags.template || config.getValue('templates')?.pr;
+            const renderer = new PRRenderer(
+                loadTemplate('pr', { root: this.config?.root, path: templatePath })
+            );
+            const prDescription = renderer.render(parsed.sections, {
+                issue: issueReference,
+            });
+
+            if (templatePath) {
+                this.log(`📄 Applied template: ${templatePath}`);
             }
 
             // Display result
@@ -0,0 +1,178 @@
+import { Command, Flags } from '@oclif/core';
+import { GitService } from '../core/git.js';
+import { ContextBuilder } from '../core/context.js';
+import { PromptBuilder } from '../core/prompt.js';
+import { StyleLearner } from '../core/style.js';
+import { ConfigService } from '../core/config.js';
+import { ModelFactory } from '../core/model-factory.js';
+import { completeStreaming } from '../core/model.js';
+import { CommitParser } from '../core/commit-parser.js';
+import { CommitTypeRegistry } from '../core/commit-types.js';
+import { CommitRenderer } from '../core/render.js';
+import { CommitSplitter } from '../core/split.js';
+import { IgnoreRules } from '../core/ignore.js';
+import { loadTemplate } from '../core/template.js';
+import { logger } from '../utils/logger.js';
+import { choose, isInteractive } from '../utils/interactive.js';
+
+export default class Split extends Command {
+    static description = 'Split staged changes into several atomic commits, each with its own message';
+
+    static flags = {
+        issue: Flags.string({ description: 'Link issue id in every commit' }),
+        emoji: Flags.boolean({ description: 'Prepend type-based emoji' }),
+        width: Flags.integer({ description: 'Wrap body to n columns', default: 72 }),
+        model: Flags.string({ description: 'Override model (e.g., openai/gpt-4o-mini)' }),
+        'dry-run': Flags.boolean({ description: 'Show the plan and messages without committing' }),
+        yes: Flags.boolean({
+            char: 'y',
+            description: 'Commit without confirmation (required when not running in a terminal)',
+        }),
+        'no-verify': Flags.boolean({ description: 'Skip git hooks' }),
+    };
+
+    async run(): Promise<void> {
+        const { flags } = await this.parse(Split);
+
+        try {
+            // Initialize services
+            const config = new ConfigService();
+            const types = new CommitTypeRegistry(config.getValue('types'));
+            const git = new GitService();
+            const contextBuilder = new ContextBuilder(git, types);
+            const promptBuilder = new PromptBuilder(types);
+            const splitter = new CommitSplitter(contextBuilder);
+
+            // The full patch is kept so each group can be staged on its own later
+            this.log('🔍 Analyzing changes...');
+            const diff = git.getDiff({ staged: true, contextLines: 3, binary: true });
+
+            this.log('📊 Building context...');
+            const style = new StyleLearner(git, config.getValue('style')?.history).learn();
+            const ignore = IgnoreRules.load(git.getRepositoryRoot(), config.getValue('context')?.ignore);
+            // Ignored files still need a commit, so the plan covers every staged file
+            const context = await contextBuilder.buildContext({ staged: true, style });
+            const groups = splitter.plan(context.files);
+
+            if (groups.length < 2) {
+                this.log('ℹ️  Staged changes already form one logical commit. Use `aicmt commit --stage` instead.');
+                return;
+            }
+
+            const patches = splitter.patches(diff, groups);
+
+            // Generate a message per group from a context limited to its files
+            const provider = flags.model
+                ? ModelFactory.createFromString(flags.model, undefined, config)
+                : ModelFactory.createFromConfig(config);
+            const parser = new CommitParser(types);
+            const renderer = new CommitRenderer(
+                loadTemplate('commit', {
+                    root: this.config?.root,
+                    path: config.getValue('templates')?.commit,
+                }),
+                types
+            );
+
+            const messages: string[] = [];
+            for (const [i, group] of groups.entries()) {
+                this.log(`🤖 Generating commit message ${i + 1}/${groups.length} (${group.name})...`);
+
+                const groupContext = await contextBuilder.buildContext({
+                    staged: true,
+                    paths: group.files,
+                    style,
+                    ignore,
+                });
+                const prompt = promptBuilder.buildCommitPrompt(groupContext, {
+                    issue: flags.issue,
+                    emoji: flags.emoji,
+                    width: flags.width,
+                    style,
+                });
+                const parsed = parser.parse(await completeStreaming(provider, prompt));
+                parsed.warnings.forEach((warning) => this.log(`⚠️  ${warning}`));
+
+                messages.push(
+                    parsed.commit
+                        ? renderer.render(parsed.commit, {
+                            width: flags.width,
+                            emoji: flags.emoji,
+                            breakingChanges: groupContext.breakingChanges,
+                            issue: flags.issue,
+                        })
+                        : parsed.raw
+                );
+            }
+
+            // Show the plan
+            this.log(`\n📋 Proposed ${groups.length} commits:`);
+            groups.forEach((group, i) => {
+                this.log(`\n[${i + 1}] ${group.reason}`);
+                group.files.forEach((path) => this.log(`    ${path}`));
+                this.log('='.repeat(80));
+                this.log(messages[i]);
+                this.log('='.repeat(80));
+            });
+            this.log('');
+
+            // Handle dry-run
+            if (flags['dry-run']) {
+                this.log('✅ Dry-run mode - no commits created');
+                return;
+            }
+
+            // Committing needs either someone at the terminal or an explicit --yes
+            if (!flags.yes) {
+                if (!isInteractive()) {
+                    this.error('Not running in an interactive terminal. Re-run with --yes to commit without confirmation.');
+                }
+
+                const action = await choose(`Create these ${groups.length} commits?`, [
+                    { key: 'y', label: '[y]es', value: 'accept' },
+                    { key: 'q', label: '[q]uit', value: 'abort' },
+                ]);
+                if (action === 'abort') {
+                    this.log('❌ Split cancelled');
+                    return;
+                }
+            }
+
+            this.commitGroups(git, patches, messages, flags['no-verify']);
+
+            this.log(`✅ Created ${groups.length} commits`);
+        } catch (error) {
+            logger.error('Split command failed', { error });
+            if (error instanceof Error) {
+                this.error(error.message);
+            } else {
+                this.error('An unknown error occurred');
+            }
+        }
+    }
+
+    /**
+     * Stage and commit each group in turn. If a commit fails (e.g. a hook
+     * rejects it), the index is restored so the groups not yet committed are
+     * staged again.
+     */
+    private commitGroups(git: GitService, patches: string[], messages: string[], noVerify?: boolean): void {
+        const snapshot = git.writeTree();
+        git.unstageAll();
+
+        for (const [i, patch] of patches.entries()) {
+            try {
+                git.applyToIndex(patch);
+                git.createCommit({ message: messages[i], noVerify });
+                this.log(`💾 [${i + 1}/${patches.length}] ${messages[i].split('\n')[0]}`);
+            } catch (error) {
+                git.readTree(snapshot);
+
+                const reason = error instanceof Error ? error.message : String(error);
+                throw new Error(
+                    `Stopped after ${i} of ${patches.length} commits: ${reason}. The remaining changes are staged again.`
+                );
+            }
+        }
+    }
+}
@@ -0,0 +1,205 @@
+import { FileAnalysis } from './context.js';
+import { SymbolChange, SymbolExtractor } from './symbols.js';
+
+// Option declarations: oclif Flags, commander/yargs, argparse, Go flag/cobra
+const FLAG_PATTERNS = [
+    /^\s*['"]?([\w-]+)['"]?\s*:\s*Flags\.\w+\(/,
+    /\.option\(\s*['"](?:-\w,?\s*)?--([\w-]+)/,
+    /add_argument\(\s*['"](?:-\w['"]\s*,\s*['"])?--([\w-]+)['"]/,
+    /\b(?:flag|Flags\(\)|PersistentFlags\(\))\.\w+\([^"]*"([\w-]+)"/,
+];
+
+// Route declarations: express-style routers, Python decorators, Spring, Go net/http
+const ROUTE_PATTERNS: Array<[RegExp, (match: RegExpExecArray) => string]> = [
+    [
+        /\b\w+\.(get|post|put|patch|delete|options|head|all)\(\s*['"`](\/[^'"`]*)/i,
+        (match) => `${match[1].toUpperCase()} ${match[2]}`,
+    ],
+    [/@\w+\.route\(\s*['"](\/[^'"]*)/, (match) => match[1]],
+    [
+        /@(Get|Post|Put|Patch|Delete|Request)Mapping\(\s*(?:(?:value|path)\s*=\s*)?"(\/[^"]*)"/,
+        (match) => (match[1] === 'Request' ? match[2] : `${match[1].toUpperCase()} ${match[2]}`),
+    ],
+    [/\bHandle(?:Func)?\(\s*"(?:([A-Z]+)\s+)?(\/[^"]*)"/, (match) => (match[1] ? `${match[1]} ${match[2]}` : match[2])],
+];
+
+// Config data files only; key-like lines in source are usually object literals
+const CONFIG_PATH = /config|settings|schema/i;
+const CONFIG_EXTENSIONS = /\.(json|ya?ml)$/i;
+const CONFIG_KEY = /^\s*['"]?([A-Za-z_][\w-]*)['"]?\??\s*:(?!:)/;
+const COMMENT = /^\s*(?:\/\/|\/?\*|#)/;
+
+/**
+ * Finds changes in a diff that may break existing users: removed or
+ * incompatibly changed exported declarations, removed CLI flags and config
+ * keys, and removed or changed HTTP routes. Each item is a short sentence
+ * naming what may have broken; they are hints for the model, which decides
+ * whether the change is actually breaking.
+ */
+export class BreakingChangeDetector {
+    detect(files: FileAnalysis[], diffs: Map<string, string>): string[] {
+        const items: string[] = [];
+        const lines = new Map(
+            files.map((file) => [file.path, SymbolExtractor.changedLines(diffs.get(file.path) || '')])
+        );
+        const publicFiles = files.filter((file) => !file.keywords.includes('test'));
+
+        // A declaration removed here but added elsewhere was moved, not removed
+        const added = files.flatMap((file) =>
+            (file.symbols || [])
+                .filter((symbol) => symbol.change === 'added')
+                .map((symbol) => ({ path: file.path, name: symbol.name }))
+        );
+        const movedTo = (name: string, from: string): boolean =>
+            added.some((symbol) => symbol.name === name && symbol.path !== from);
+
+        for (const file of publicFiles) {
+            for (const symbol of file.symbols || []) {
+                if (!symbol.exported) {
+                    continue;
+                }
+
+                if (symbol.change === 'removed' && !movedTo(symbol.name, file.path)) {
+                    items.push(`Removed exported ${this.kindLabel(symbol)} \`${symbol.name}\` from \`${file.path}\``);
+                } else if (
+                    symbol.change === 'modified' &&
+                    symbol.kind === 'function' &&
+                    symbol.before &&
+                    symbol.after &&
+                    !this.isCompatibleSignature(symbol.before, symbol.after)
+                ) {
+                    items.push(`Changed signature of exported function \`${symbol.name}\` in \`${file.path}\``);
+                }
+            }
+
+            const changed = lines.get(file.path)!;
+
+            for (const flag of this.difference(changed.removed, changed.added, (line) => this.flagName(line))) {
+                items.push(`Removed CLI flag \`--${flag}\` from \`${file.path}\``);
+            }
+
+            if (this.isConfigFile(file.path)) {
+                for (const key of this.difference(changed.removed, changed.added, (line) => this.configKey(line))) {
+                    items.push(`Removed config key \`${key}\` from \`${file.path}\``);
+                }
+            }
+        }
+
+        // Routes can move between files, so compare across the whole diff
+        const allAdded = publicFiles.flatMap((file) => lines.get(file.path)!.added);
+        for (const file of publicFiles) {
+            const removed = lines.get(file.path)!.removed;
+            for (const route of this.difference(removed, allAdded, (line) => this.route(line))) {
+                items.push(`Removed or changed HTTP route \`${route}\` in \`${file.path}\``);
+            }
+        }
+
+        return [...new Set(items)];
+    }
+
+    /**
+     * Names found on removed lines that no added line declares again
+     */
+    private difference(removed: string[], added: string[], name: (line: string) => string | undefined): string[] {
+        const kept = new Set(added.map(name).filter(Boolean));
+        const gone = removed.map(name).filter((value): value is string => !!value && !kept.has(value));
+
+        return [...new Set(gone)];
+    }
+
+    private flagName(line: string): string | undefined {
+        if (COMMENT.test(line)) {
+            return undefined;
+        }
+        for (const pattern of FLAG_PATTERNS) {
+            const match = pattern.exec(line);
+            if (match) {
+                return match[1];
+            }
+        }
+        return undefined;
+    }
+
+    private route(line: string): string | undefined {
+        if (COMMENT.test(line)) {
+            return undefined;
+        }
+        for (const [pattern, format] of ROUTE_PATTERNS) {
+            const match = pattern.exec(line);
+            if (match) {
+                return format(match);
+            }
+        }
+        return undefined;
+    }
+
+    private configKey(line: string): string | undefined {
+        if (COMMENT.test(line)) {
+            return undefined;
+        }
+        const key = CONFIG_KEY.exec(line)?.[1];
+        return key === 'default' ? undefined : key;
+    }
+
+    private isConfigFile(filePath: string): boolean {
+        return CONFIG_PATH.test(filePath) && CONFIG_EXTENSIONS.test(filePath);
+    }
+
+    /**
+     * A new signature is compatible when it only appends optional parameters
+     * and leaves everything after the parameter list alone
+     */
+    private isCompatibleSignature(before: string, after: string): boolean {
+        const split = (signature: string) => {
+            const match = /^(.*?)\((.*)\)(.*)$/.exec(signature);
+            return match ? { head: match[1], params: match[2].trim(), tail: match[3].trim() } : undefined;
+        };
+        const old = split(before);
+        const current = split(after);
+
+        if (
+            !old ||
+            !current ||
+            old.head !== current.head ||
+            old.tail !== current.tail ||
+            !current.params.startsWith(old.params)
+        ) {
+            return false;
+        }
+
+        const extra = current.params.slice(old.params.length).replace(/^\s*,/, '').trim();
+
+        // Optional (`x?`), defaulted (`x = 1`) and rest (`...x`, `*args`) parameters
+        return this.splitParams(extra).every(
+            (param) => /^\s*[\w$]+\s*\?/.test(param) || /=(?!>)/.test(param) || /^\s*(?:\.\.\.|\*)/.test(param)
+        );
+    }
+
+    /**
+     * Split a parameter list on top-level commas
+     */
+    private splitParams(params: string): string[] {
+        const parts: string[] = [];
+        let depth = 0;
+        let current = '';
+
+        for (const [i, char] of [...params].entries()) {
+            if ('([{<'.includes(char)) depth++;
+            // The `>` of an arrow is not a closing bracket
+            if (')]}'.includes(char) || (char === '>' && params[i - 1] !== '=')) depth--;
+
+            if (char === ',' && depth === 0) {
+                parts.push(current);
+                current = '';
+            } else {
+                current += char;
+            }
+        }
+
+        return [...parts, current].filter((part) => part.trim());
+    }
+
+    private kindLabel(symbol: SymbolChange): string {
+        return symbol.kind === 'variable' ? 'name' : symbol.kind;
+    }
+}
@@ -0,0 +1,189 @@
+import { IgnoreRules } from './ignore.js';
+import { SymbolExtractor } from './symbols.js';
+import { TokenEstimator } from './tokens.js';
+
+export interface OmittedFile {
+    path: string;
+    reason: string; // e.g. "lockfile" or "over budget, +120/-4"
+}
+
+export interface BudgetedDiff {
+    diff: string;
+    omitted: OmittedFile[];
+    truncated: boolean; // Whether anything was cut, omitted or shortened
+}
+
+interface DiffEntry {
+    path: string;
+    chunk: string;
+    cost: number;
+    weight: number;
+}
+
+/**
+ * DiffBudgeter fits a diff into a token budget. Lock, minified, vendored and
+ * generated files go first; the rest of the budget is shared across files by
+ * relevance so one large file cannot crowd out the others. Shortened files
+ * keep every hunk header, and files that do not fit are listed instead.
+ */
+export class DiffBudgeter {
+    constructor(private tokens: TokenEstimator = new TokenEstimator()) { }
+
+    fit(diff: string, budget: number): BudgetedDiff {
+        if (this.tokens.estimate(diff) <= budget) {
+            return { diff, omitted: [], truncated: false };
+        }
+
+        const chunks = SymbolExtractor.splitDiff(diff);
+        const entries: DiffEntry[] =
+            chunks.size > 0
+                ? Array.from(chunks, ([path, chunk]) => ({ path, chunk, cost: this.tokens.estimate(chunk), weight: 0 }))
+                : [{ path: '', chunk: diff, cost: this.tokens.estimate(diff), weight: 0 }];
+
+        const omitted: OmittedFile[] = [];
+        const kept: DiffEntry[] = [];
+
+        for (const entry of entries) {
+            const lowValue = DiffBudgeter.lowValueReason(entry.path, entry.chunk);
+            if (lowValue) {
+                omitted.push({ path: entry.path, reason: lowValue });
+            } else {
+                kept.push({ ...entry, weight: DiffBudgeter.relevance(entry.path) });
+            }
+        }
+
+        // The list of omitted files costs tokens too, so set aside room for every file
+        const listing = entries.reduce((sum, entry) => sum + this.tokens.estimate(`- ${entry.path} (over budget, +0/-0)\n`), 0);
+        const allocations = this.allocate(kept, Math.max(0, budget - listing));
+
+        const parts: string[] = [];
+        for (const entry of kept) {
+            const allowed = allocations.get(entry) ?? 0;
+
+            if (allowed >= entry.cost) {
+                parts.push(entry.chunk);
+                continue;
+            }
+
+            const shortened = this.shorten(entry.chunk, allowed);
+            if (shortened) {
+                parts.push(shortened);
+            } else {
+                omitted.push({ path: entry.path, reason: `over budget, ${DiffBudgeter.lineCounts(entry.chunk)}` });
+            }
+        }
+
+        return { diff: parts.join('').replace(/\n*$/, ''), omitted, truncated: true };
+    }
+
+    /**
+     * Why a file is not worth prompt space, or undefined when it is
+     */
+    static lowValueReason(filePath: string, chunk = ''): string | undefined {
+        const kind = IgnoreRules.kindOf(filePath);
+        if (kind) {
+            return kind;
+        }
+
+        // Tools mark their output with @generated near the top
+        if (/^[+ ].*@generated\b/m.test(chunk.split('\n').slice(0, 12).join('\n'))) {
+            return 'generated file';
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Relative share of the budget: source over tests over docs and config
+     */
+    private static relevance(filePath: string): number {
+        const lower = filePath.toLowerCase();
+
+        if (/\.(md|mdx|txt|rst)$/.test(lower) || lower.startsWith('docs/')) return 1;
+        if (/\.(json|ya?ml|toml|ini)$/.test(lower)) return 1;
+        if (/(^|\/)(tests?|__tests__|spec)\/|\.(test|spec)\.\w+$/.test(lower)) return 2;
+        return 3;
+    }
+
+    /**
+     * Share the budget by weight. Files are visited cheapest first relative to
+     * their weight, so small files are kept whole and whatever they leave
+     * unused flows on to the larger ones.
+     */
+    private allocate(entries: DiffEntry[], budget: number): Map<DiffEntry, number> {
+        const allocations = new Map<DiffEntry, number>();
+        let remaining = budget;
+        let weight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+
+        for (const entry of [...entries].sort((a, b) => a.cost / a.weight - b.cost / b.weight)) {
+            const share = Math.floor((remaining * entry.weight) / weight);
+            const allowed = Math.min(entry.cost, share);
+
+            allocations.set(entry, allowed);
+            remaining -= allowed;
+            weight -= entry.weight;
+        }
+
+        return allocations;
+    }
+
+    /**
+     * Cut a file's diff down to `allowed` tokens, keeping the file header and
+     * every hunk header. Returns undefined when not even those fit.
+     */
+    private shorten(chunk: string, allowed: number): string | undefined {
+        const lines = chunk.replace(/\n$/, '').split('\n');
+        const isDiff = chunk.startsWith('diff --git ');
+        const firstHunk = isDiff ? lines.findIndex((line) => line.startsWith('@@')) : 0;
+        const header = firstHunk === -1 ? lines : lines.slice(0, firstHunk);
+
+        const hunks: Array<{ header?: string; body: string[] }> = [];
+        for (const line of firstHunk === -1 ? [] : lines.slice(firstHunk)) {
+            if (isDiff && line.startsWith('@@')) {
+                hunks.push({ header: line, body: [] });
+            } else if (hunks.length === 0) {
+                hunks.push({ body: [line] });
+            } else {
+                hunks[hunks.length - 1].body.push(line);
+            }
+        }
+
+        const fixed = [...header, ...hunks.map((hunk) => hunk.header ?? '')].join('\n');
+        let left = allowed - this.tokens.estimate(fixed);
+        if (left < 0 || (hunks.length > 0 && left < this.tokens.estimate(hunks[0].body[0] ?? ''))) {
+            return undefined;
+        }
+
+        const output = [...header];
+        let full = true;
+
+        for (const hunk of hunks) {
+            if (hunk.header) {
+                output.push(hunk.header);
+            }
+
+            let taken = 0;
+            for (const line of full ? hunk.body : []) {
+                const cost = this.tokens.estimate(`${line}\n`);
+                if (cost > left) {
+                    full = false;
+                    break;
+                }
+                output.push(line);
+                left -= cost;
+                taken++;
+            }
+
+            if (taken < hunk.body.length) {
+                output.push(`... (${hunk.body.length - taken} more lines omitted)`);
+            }
+        }
+
+        return output.join('\n') + '\n';
+    }
+
+    private static lineCounts(chunk: string): string {
+        const { added, removed } = SymbolExtractor.changedLines(chunk);
+        return `+${added.length}/-${removed.length}`;
+    }
+}
@@ -0,0 +1,212 @@
+import { FileAnalysis, TypeDetection } from './context.js';
+import { ChangedLines, SymbolExtractor } from './symbols.js';
+
+/**
+ * A hint from the diff content towards one commit type
+ */
+export interface TypeEvidence {
+    type: TypeDetection['type'];
+    weight: number;
+    reason: string;
+}
+
+const NULL_GUARD =
+    /\bif\b.*(?:!\s*[\w$.]+\s*\)|[!=]==?\s*(?:null|undefined|nil)\b|\bis (?:not )?None\b)|\?\?|\?\.|requireNonNull/;
+const ERROR_HANDLING = /\btry\s*[{:]|\bcatch\b|\bexcept\b|\.catch\(|\bif err != nil\b|\brecover\(\)/;
+const CACHING = /\b(?:cache[ds]?|memo|memoi[sz]e[ds]?|useMemo|useCallback|lru|debounce|throttle)\b/i;
+const LOOP = /\bfor\s*\(|\bfor\s+\w+\s+in\b|\.forEach\(|\bwhile\s*\(|\.(?:find|filter|indexOf|includes)\(/;
+const LOOKUP = /\bnew (?:Map|Set)\b|\.has\(|\bdict\(|\bset\(|\bmap\[/;
+const TOKEN = /[A-Za-z_$][\w$]*|\d+|\S/g;
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// Small fixes are usually a handful of lines; bigger diffs with guards are more likely features
+const SMALL_CHANGE = 30;
+
+/**
+ * Reads diffs for hints about the kind of change: formatting-only edits,
+ * renames and moved code, added guards and error handling, and caching or
+ * lookup changes. Path-based scoring lives in ContextBuilder; this adds
+ * evidence from the content.
+ */
+export class TypeClassifier {
+    classify(files: FileAnalysis[], diffs: Map<string, string>): TypeEvidence[] {
+        const changed = new Map(
+            files.map((file) => [file.path, SymbolExtractor.changedLines(diffs.get(file.path) || '')])
+        );
+
+        // When the whole diff only moves lines around, per-file hints would be misleading
+        const moved = this.detectMovedCode(files, changed);
+        if (moved) {
+            return [moved];
+        }
+
+        const evidence: TypeEvidence[] = [];
+
+        for (const file of files) {
+            const lines = changed.get(file.path)!;
+
+            if (file.status === 'renamed' && file.additions + file.deletions === 0) {
+                evidence.push({ type: 'refactor', weight: 3, reason: `Renamed without changes: ${file.path}` });
+                continue;
+            }
+
+            if (lines.added.length + lines.removed.length === 0) {
+                continue;
+            }
+
+            const formatting = this.detectFormatting(lines);
+            if (formatting) {
+                evidence.push({ type: 'style', weight: 3, reason: `${formatting}: ${file.path}` });
+                continue;
+            }
+
+            if (!SymbolExtractor.languageFor(file.path) || file.keywords.includes('test')) {
+                continue;
+            }
+
+            const rename = this.detectRename(lines);
+            if (rename) {
+                evidence.push({
+                    type: 'refactor',
+                    weight: 3,
+                    reason: `Renamed \`${rename[0]}\` to \`${rename[1]}\`: ${file.path}`,
+                });
+                continue;
+            }
+
+            evidence.push(...this.detectFixes(file, lines), ...this.detectPerformance(file, lines));
+        }
+
+        return evidence;
+    }
+
+    /**
+     * Whitespace-only changes, or changes a formatter would make
+     */
+    private detectFormatting(lines: ChangedLines): string | undefined {
+        const squash = (text: string[]) => text.join('').replace(/\s+/g, '');
+        const before = squash(lines.removed);
+        const after = squash(lines.added);
+
+        if (before === after) {
+            return 'Whitespace-only changes';
+        }
+
+        // Quote style, semicolons and trailing commas
+        const normalize = (text: string) => text.replace(/["`]/g, "'").replace(/[;,]/g, '');
+        if (before && normalize(before) === normalize(after)) {
+            return 'Formatting-only changes';
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Removed lines that reappear elsewhere, in another file or another order,
+     * with nothing else changed
+     */
+    private detectMovedCode(files: FileAnalysis[], changed: Map<string, ChangedLines>): TypeEvidence | undefined {
+        const removed: string[] = [];
+        const added: string[] = [];
+        const from = new Set<string>();
+        const to = new Set<string>();
+
+        for (const file of files) {
+            const lines = changed.get(file.path)!;
+            const clean = (text: string[]) => text.map((line) => line.trim()).filter(Boolean);
+
+            removed.push(...clean(lines.removed));
+            added.push(...clean(lines.added));
+            if (clean(lines.removed).length > 0) from.add(file.path);
+            if (clean(lines.added).length > 0) to.add(file.path);
+        }
+
+        const sameLines = removed.length >= 3 && [...removed].sort().join('\n') === [...added].sort().join('\n');
+        const relocated = [...from].join() !== [...to].join() || removed.join('\n') !== added.join('\n');
+
+        if (!sameLines || !relocated) {
+            return undefined;
+        }
+
+        const paths = [...new Set([...from, ...to])];
+        return { type: 'refactor', weight: 3, reason: `Moved code without changing it: ${paths.join(', ')}` };
+    }
+
+    /**
+     * Lines that differ only by identifiers renamed consistently, e.g. every
+     * `getUser` replaced with `findUser`. Returns the first renamed pair.
+     */
+    private detectRename(lines: ChangedLines): [string, string] | undefined {
+        if (lines.removed.length === 0 || lines.removed.length !== lines.added.length) {
+            return undefined;
+        }
+
+        const mapping = new Map<string, string>();
+
+        for (const [i, removedLine] of lines.removed.entries()) {
+            const before = removedLine.match(TOKEN) || [];
+            const after = lines.added[i].match(TOKEN) || [];
+
+            if (before.length !== after.length) {
+                return undefined;
+            }
+
+            for (const [j, token] of before.entries()) {
+                if (token === after[j]) {
+                    continue;
+                }
+                if (!IDENTIFIER.test(token) || !IDENTIFIER.test(after[j])) {
+                    return undefined;
+                }
+                if ((mapping.get(token) ?? after[j]) !== after[j]) {
+                    return undefined;
+                }
+                mapping.set(token, after[j]);
+            }
+        }
+
+        // More than a few distinct renames is more than a rename
+        if (mapping.size === 0 || mapping.size > 3) {
+            return undefined;
+        }
+
+        return [...mapping.entries()][0];
+    }
+
+    private detectFixes(file: FileAnalysis, lines: ChangedLines): TypeEvidence[] {
+        const evidence: TypeEvidence[] = [];
+
+        // Guards in a brand-new file are just part of the new code
+        if (file.status === 'added') {
+            return evidence;
+        }
+
+        const existing = new Set(lines.removed.map((line) => line.trim()));
+        const introduced = lines.added.filter((line) => !existing.has(line.trim()));
+        const weight = introduced.length <= SMALL_CHANGE ? 2 : 1;
+
+        if (introduced.some((line) => NULL_GUARD.test(line))) {
+            evidence.push({ type: 'fix', weight, reason: `Added null/undefined guard: ${file.path}` });
+        }
+
+        if (introduced.some((line) => ERROR_HANDLING.test(line))) {
+            evidence.push({ type: 'fix', weight, reason: `Added error handling: ${file.path}` });
+        }
+
+        return evidence;
+    }
+
+    private detectPerformance(file: FileAnalysis, lines: ChangedLines): TypeEvidence[] {
+        const evidence: TypeEvidence[] = [];
+
+        if (lines.added.some((line) => CACHING.test(line)) && !lines.removed.some((line) => CACHING.test(line))) {
+            evidence.push({ type: 'perf', weight: 2, reason: `Added caching/memoization: ${file.path}` });
+        }
+
+        if (lines.removed.some((line) => LOOP.test(line)) && lines.added.some((line) => LOOKUP.test(line))) {
+            evidence.push({ type: 'perf', weight: 2, reason: `Replaced a loop or search with a lookup: ${file.path}` });
+        }
+
+        return evidence;
+    }
+}
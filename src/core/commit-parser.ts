@@ -0,0 +1,236 @@
+import { CommitTypeRegistry } from './commit-types.js';
+import { logger } from '../utils/logger.js';
+
+export interface StructuredCommit {
+    type: string;
+    scope?: string;
+    subject: string;
+    body?: string;
+    breaking?: boolean;
+    breaking_description?: string;
+    footers: string[];
+}
+
+export interface ParsedCommit {
+    commit?: StructuredCommit; // Missing when nothing structured could be recovered
+    raw: string; // Model output with code fences stripped
+    source: 'json' | 'text' | 'raw';
+    warnings: string[];
+}
+
+const HEADER = /^(?:[^\w\s]+\s+)?([a-z][a-z0-9-]*)(?:\(([^)]+)\))?(!)?:\s+(.+)$/;
+const FOOTER = /^(BREAKING[ -]CHANGE|[A-Za-z][\w-]*)(?::\s|\s#)(.*)$/;
+
+/**
+ * Turns model output into a structured commit.
+ *
+ * The prompt asks for JSON, but models do not always comply, so this falls
+ * back to reading a plain Conventional Commit and finally to the raw text.
+ * Given a registry, a type that is not registered is mapped to the closest
+ * one, or the structured reading is rejected. Without one (as when reading
+ * history) any type is taken as written.
+ */
+export class CommitParser {
+    constructor(private types?: CommitTypeRegistry) { }
+
+    parse(output: string): ParsedCommit {
+        const raw = this.stripFences(output);
+        const warnings: string[] = [];
+
+        const json = this.parseJSON(raw, warnings);
+        if (json) {
+            return { commit: json, raw, source: 'json', warnings };
+        }
+
+        const text = this.parseText(raw, warnings);
+        if (text) {
+            return { commit: text, raw, source: 'text', warnings };
+        }
+
+        warnings.push('Model output is not a Conventional Commit; using it as-is');
+        logger.debug('Falling back to raw model output', { output });
+
+        return { raw, source: 'raw', warnings };
+    }
+
+    private parseJSON(text: string, warnings: string[]): StructuredCommit | undefined {
+        // Only look for an object that opens a line, so braces in prose are left alone
+        const start = text.search(/^\s*\{/m);
+        const end = text.lastIndexOf('}');
+
+        if (start === -1) {
+            return undefined;
+        }
+
+        let data: unknown;
+        try {
+            // A missing closing brace usually means the output was cut off
+            data = JSON.parse(end > start ? text.slice(start, end + 1) : text.slice(start));
+        } catch {
+            warnings.push('Model returned malformed JSON');
+            return undefined;
+        }
+
+        if (!data || typeof data !== 'object' || Array.isArray(data)) {
+            warnings.push('Model returned JSON that is not an object');
+            return undefined;
+        }
+
+        const fields = data as Record<string, unknown>;
+        const errors = this.validateFields(fields);
+
+        if (errors.length > 0) {
+            warnings.push(`Model returned invalid JSON: ${errors.join(', ')}`);
+            return undefined;
+        }
+
+        const written = (fields.type as string).trim().toLowerCase();
+        const type = this.resolveType(written, warnings);
+        if (!type) {
+            return undefined;
+        }
+
+        const scope = this.optionalString(fields.scope);
+        const breakingDescription = this.optionalString(fields.breaking_description);
+        const footers = Array.isArray(fields.footers)
+            ? fields.footers
+            : typeof fields.footers === 'string'
+                ? fields.footers.split('\n')
+                : [];
+
+        return {
+            type,
+            scope,
+            subject: this.cleanSubject(fields.subject as string, written, scope),
+            body: this.optionalString(fields.body),
+            breaking: !!breakingDescription,
+            breaking_description: breakingDescription,
+            footers: footers.map((footer) => String(footer).trim()).filter(Boolean),
+        };
+    }
+
+    private validateFields(fields: Record<string, unknown>): string[] {
+        const errors: string[] = [];
+
+        if (typeof fields.type !== 'string' || !/^[a-z][a-z0-9-]*$/i.test(fields.type.trim())) {
+            errors.push('type must be a single word');
+        }
+
+        if (typeof fields.subject !== 'string' || !fields.subject.trim()) {
+            errors.push('subject is required');
+        }
+
+        for (const key of ['scope', 'body', 'breaking_description']) {
+            if (fields[key] !== undefined && fields[key] !== null && typeof fields[key] !== 'string') {
+                errors.push(`${key} must be a string`);
+            }
+        }
+
+        if (
+            fields.footers !== undefined &&
+            fields.footers !== null &&
+            typeof fields.footers !== 'string' &&
+            !Array.isArray(fields.footers)
+        ) {
+            errors.push('footers must be a list');
+        }
+
+        return errors;
+    }
+
+    private parseText(text: string, warnings: string[]): StructuredCommit | undefined {
+        const lines = text.split('\n').map((line) => line.trimEnd());
+        const headerIndex = lines.findIndex((line) => HEADER.test(line.trim()));
+
+        if (headerIndex === -1) {
+            return undefined;
+        }
+
+        if (lines.slice(0, headerIndex).some((line) => line.trim())) {
+            warnings.push('Ignored text before the commit header');
+        }
+
+        const [, written, scope, bang, subject] = HEADER.exec(lines[headerIndex].trim())!;
+        const type = this.resolveType(written, warnings);
+        if (!type) {
+            return undefined;
+        }
+
+        const rest = lines.slice(headerIndex + 1);
+
+        // Footers are the trailing paragraph when every line in it looks like a
+        // trailer. A lone paragraph is only taken as footers when unambiguous.
+        const paragraphs = rest.join('\n').trim().split(/\n\s*\n/);
+        const last = paragraphs[paragraphs.length - 1].split('\n');
+        const hasFooters =
+            last[0] !== '' &&
+            last.every((line) => FOOTER.test(line)) &&
+            (paragraphs.length > 1 || last.every((line) => /^BREAKING[ -]CHANGE:|^\S+ #/.test(line)));
+
+        const footers: string[] = [];
+        let breakingDescription: string | undefined;
+
+        if (hasFooters) {
+            paragraphs.pop();
+            for (const line of last) {
+                const [, token, value] = FOOTER.exec(line)!;
+                if (/^BREAKING[ -]CHANGE$/.test(token)) {
+                    breakingDescription = value.trim();
+                } else {
+                    footers.push(line);
+                }
+            }
+        }
+
+        const body = paragraphs.join('\n\n').trim();
+
+        return {
+            type,
+            scope: scope?.trim() || undefined,
+            subject: this.cleanSubject(subject, written, scope),
+            body: body || undefined,
+            breaking: !!bang || !!breakingDescription,
+            breaking_description: breakingDescription,
+            footers,
+        };
+    }
+
+    private resolveType(written: string, warnings: string[]): string | undefined {
+        if (!this.types) {
+            return written.toLowerCase();
+        }
+
+        const type = this.types.resolve(written);
+
+        if (!type) {
+            warnings.push(`Model used unknown commit type "${written}"`);
+        } else if (type !== written.toLowerCase()) {
+            warnings.push(`Model used unknown commit type "${written}"; using "${type}"`);
+        }
+
+        return type;
+    }
+
+    /**
+     * Models sometimes repeat the header prefix or end the subject with a period
+     */
+    private cleanSubject(subject: string, type: string, scope?: string): string {
+        const prefix = scope ? `${type}(${scope})` : type;
+        let cleaned = subject.trim();
+
+        if (cleaned.toLowerCase().startsWith(`${prefix.toLowerCase()}:`)) {
+            cleaned = cleaned.slice(prefix.length + 1).trim();
+        }
+
+        return cleaned.replace(/\.+$/, '');
+    }
+
+    private optionalString(value: unknown): string | undefined {
+        return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+    }
+
+    private stripFences(output: string): string {
+        const fenced = /```[\w-]*\n([\s\S]*?)\n?```/.exec(output);
+        return (fenced ? fenced[1] : output).trim();
+    }
+}
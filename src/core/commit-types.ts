@@ -0,0 +1,146 @@
+import { TypeConfig } from './config.js';
+
+export interface CommitTypeDefinition {
+    name: string;
+    description: string;
+    emoji?: string;
+    paths: string[]; // Path fragments that suggest this type, e.g. "locales/"
+}
+
+// The Conventional Commits types (as used by commitlint's config-conventional)
+export const DEFAULT_COMMIT_TYPES: CommitTypeDefinition[] = [
+    { name: 'feat', description: 'A new feature', emoji: '🚀', paths: [] },
+    { name: 'fix', description: 'A bug fix', emoji: '🐛', paths: [] },
+    { name: 'docs', description: 'Documentation only changes', emoji: '📝', paths: [] },
+    { name: 'style', description: 'Formatting and whitespace; no change in meaning', emoji: '🎨', paths: [] },
+    { name: 'refactor', description: 'A code change that neither fixes a bug nor adds a feature', emoji: '♻️', paths: [] },
+    { name: 'perf', description: 'A code change that improves performance', emoji: '⚡', paths: [] },
+    { name: 'test', description: 'Adding missing tests or correcting existing tests', emoji: '✅', paths: [] },
+    { name: 'build', description: 'Changes to the build system or external dependencies', emoji: '🔧', paths: [] },
+    { name: 'ci', description: 'Changes to CI configuration files and scripts', emoji: '🔨', paths: [] },
+    { name: 'chore', description: "Other changes that don't modify source or test files", emoji: '🧹', paths: [] },
+    { name: 'revert', description: 'Reverts a previous commit', emoji: '⏪', paths: [] },
+];
+
+// Words models use in place of a Conventional Commits type
+const TYPE_ALIASES: Record<string, string> = {
+    feature: 'feat',
+    bugfix: 'fix',
+    hotfix: 'fix',
+    doc: 'docs',
+    documentation: 'docs',
+    performance: 'perf',
+    tests: 'test',
+    testing: 'test',
+    deps: 'build',
+    dependencies: 'build',
+};
+
+/**
+ * The commit types every module agrees on: the Conventional Commits set
+ * plus any types configured under `types:` in .aicmt.yaml. Configured
+ * entries add new types or override the description, emoji or paths of a
+ * built-in one.
+ */
+export class CommitTypeRegistry {
+    private types = new Map<string, CommitTypeDefinition>();
+
+    constructor(custom: Record<string, TypeConfig | null> = {}) {
+        for (const type of DEFAULT_COMMIT_TYPES) {
+            this.types.set(type.name, { ...type });
+        }
+
+        for (const [name, config] of Object.entries(custom)) {
+            const existing = this.types.get(name);
+            this.types.set(name, {
+                name,
+                description: config?.description ?? existing?.description ?? name,
+                emoji: config?.emoji ?? existing?.emoji,
+                paths: config?.paths ?? existing?.paths ?? [],
+            });
+        }
+    }
+
+    /**
+     * All type names, built-in types first
+     */
+    names(): string[] {
+        return [...this.types.keys()];
+    }
+
+    all(): CommitTypeDefinition[] {
+        return [...this.types.values()];
+    }
+
+    has(name: string): boolean {
+        return this.types.has(name);
+    }
+
+    /**
+     * The registered type a name stands for: the name itself, a known alias
+     * ("feature" for feat) or the longest registered type it starts with
+     * ("refactoring" for refactor). Undefined when nothing is close.
+     */
+    resolve(name: string): string | undefined {
+        const lower = name.toLowerCase();
+        if (this.types.has(lower)) {
+            return lower;
+        }
+
+        const alias = TYPE_ALIASES[lower];
+        if (alias && this.types.has(alias)) {
+            return alias;
+        }
+
+        return this.names()
+            .filter((type) => lower.startsWith(type))
+            .sort((a, b) => b.length - a.length)[0];
+    }
+
+    get(name: string): CommitTypeDefinition | undefined {
+        return this.types.get(name);
+    }
+
+    emoji(name: string): string | undefined {
+        return this.types.get(name)?.emoji;
+    }
+
+    /**
+     * Regex source matching any registered type name
+     */
+    pattern(): string {
+        // Longest first so a type is never matched by a shorter prefix
+        return this.names()
+            .sort((a, b) => b.length - a.length)
+            .map(escapeRegExp)
+            .join('|');
+    }
+
+    /**
+     * Remove a leading registered emoji (and the space after it) from a subject line
+     */
+    stripEmoji(subject: string): string {
+        const emojis = this.all()
+            .map((type) => type.emoji)
+            .filter((emoji): emoji is string => !!emoji)
+            // Editors often drop the variation selector, so match with or without it
+            .map((emoji) => `${escapeRegExp(emoji.replace(/\uFE0F/g, ''))}\uFE0F?`);
+
+        if (emojis.length === 0) {
+            return subject;
+        }
+
+        return subject.replace(new RegExp(`^(?:${emojis.join('|')})\\s+`, 'u'), '');
+    }
+
+    /**
+     * Types whose configured paths match a file
+     */
+    matchPath(filePath: string): CommitTypeDefinition[] {
+        return this.all().filter((type) => type.paths.some((fragment) => filePath.includes(fragment)));
+    }
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
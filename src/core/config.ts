@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
+import { LintRules, RuleConfig } from './lint-rules.js';
 import { ConfigError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
 
@@ -10,6 +11,7 @@ export interface StyleConfig {
     emoji?: boolean;
     tense?: 'present' | 'past';
     bullet?: string;
+    history?: number; // Recent commits to learn the repository's style from; 0 disables
 }
 
 export interface ScopeConfig {
@@ -17,6 +19,10 @@ export interface ScopeConfig {
     map?: Record<string, string>;
 }
 
+export interface ContextConfig {
+    ignore?: string[]; // gitignore-style patterns kept out of prompts, on top of .aicmtignore
+}
+
 export interface IssuesConfig {
     mode?: 'auto' | 'off';
     patterns?: string[];
@@ -27,14 +33,38 @@ export interface ModelConfig {
     provider?: string;
     name?: string;
     max_tokens?: number;
+    context_window?: number; // Tokens the model accepts; set for models aicmt does not know
     temperature?: number;
+    base_url?: string;
+    api_version?: string;
+    deployment?: string;
+}
+
+export interface TemplatesConfig {
+    commit?: string;
+    pr?: string;
+}
+
+export interface LintConfig {
+    extends?: string; // A commitlint config (JSON, YAML or package.json) whose rules apply first
+    rules?: Record<string, RuleConfig>; // e.g. scope-enum: [error, always, [api, web]]
+}
+
+export interface TypeConfig {
+    description?: string;
+    emoji?: string;
+    paths?: string[]; // Path fragments that suggest this type
 }
 
 export interface Config {
     style?: StyleConfig;
     scope?: ScopeConfig;
+    context?: ContextConfig;
     issues?: IssuesConfig;
     model?: ModelConfig;
+    templates?: TemplatesConfig;
+    types?: Record<string, TypeConfig | null>;
+    lint?: LintConfig;
 }
 
 export interface ConfigOptions {
@@ -150,6 +180,18 @@ export class ConfigService {
             }
         }
 
+        if (process.env.AICMT_BASE_URL) {
+            envConfig.model = { ...envConfig.model, base_url: process.env.AICMT_BASE_URL };
+        }
+
+        if (process.env.AICMT_API_VERSION) {
+            envConfig.model = { ...envConfig.model, api_version: process.env.AICMT_API_VERSION };
+        }
+
+        if (process.env.AICMT_DEPLOYMENT) {
+            envConfig.model = { ...envConfig.model, deployment: process.env.AICMT_DEPLOYMENT };
+        }
+
         // Style configuration from env
         if (process.env.AICMT_EMOJI) {
             envConfig.style = { emoji: process.env.AICMT_EMOJI === 'true' };
@@ -187,6 +229,12 @@ export class ConfigService {
             if (config.style.tense && !['present', 'past'].includes(config.style.tense)) {
                 errors.push('style.tense must be either "present" or "past"');
             }
+
+            if (config.style.history !== undefined) {
+                if (!Number.isInteger(config.style.history) || config.style.history < 0 || config.style.history > 500) {
+                    errors.push('style.history must be a whole number between 0 and 500');
+                }
+            }
         }
 
         // Validate model config
@@ -202,6 +250,16 @@ export class ConfigService {
                     errors.push('model.max_tokens must be between 1 and 4096');
                 }
             }
+
+            if (config.model.context_window !== undefined) {
+                if (!Number.isInteger(config.model.context_window) || config.model.context_window < 1024) {
+                    errors.push('model.context_window must be a whole number of at least 1024');
+                }
+            }
+
+            if (config.model.base_url !== undefined && !/^https?:\/\//.test(config.model.base_url)) {
+                errors.push('model.base_url must be an http(s) URL');
+            }
         }
 
         // Validate issues config
@@ -221,6 +279,66 @@ export class ConfigService {
             }
         }
 
+        // Validate ignore patterns
+        const ignore = config.context?.ignore as unknown;
+        if (ignore !== undefined && (!Array.isArray(ignore) || ignore.some((p) => typeof p !== 'string'))) {
+            errors.push('context.ignore must be a list of gitignore-style patterns');
+        }
+
+        // Validate lint rules
+        if (config.lint) {
+            if (config.lint.extends !== undefined && (typeof config.lint.extends !== 'string' || !config.lint.extends)) {
+                errors.push('lint.extends must be the path of a commitlint config file');
+            }
+
+            for (const [name, rule] of Object.entries(config.lint.rules ?? {})) {
+                const problem = LintRules.problem(name, rule);
+                if (problem) {
+                    errors.push(`lint.rules.${problem}`);
+                }
+            }
+        }
+
+        // Validate template overrides
+        if (config.templates) {
+            for (const [name, file] of Object.entries(config.templates)) {
+                if (!['commit', 'pr'].includes(name)) {
+                    errors.push(`templates.${name} is not a known template (commit, pr)`);
+                } else if (typeof file !== 'string' || !file) {
+                    errors.push(`templates.${name} must be a file path`);
+                }
+            }
+        }
+
+        // Validate commit types
+        if (config.types) {
+            for (const [name, type] of Object.entries(config.types)) {
+                if (!/^[a-z][a-z0-9-]*$/.test(name)) {
+                    errors.push(`types.${name} must be a lowercase word (letters, digits and dashes)`);
+                }
+
+                if (type === null || type === undefined) {
+                    continue;
+                }
+
+                if (typeof type !== 'object' || Array.isArray(type)) {
+                    errors.push(`types.${name} must be a mapping with description, emoji or paths`);
+                    continue;
+                }
+
+                for (const key of ['description', 'emoji'] as const) {
+                    if (type[key] !== undefined && typeof type[key] !== 'string') {
+                        errors.push(`types.${name}.${key} must be a string`);
+                    }
+                }
+
+                const paths = type.paths as unknown;
+                if (paths !== undefined && (!Array.isArray(paths) || paths.some((p) => typeof p !== 'string'))) {
+                    errors.push(`types.${name}.paths must be a list of path fragments`);
+                }
+            }
+        }
+
         if (errors.length > 0) {
             throw new ConfigError(
                 'Configuration validation failed:\n' + errors.map((e) => `  - ${e}`).join('\n'),
@@ -239,8 +357,7 @@ export class ConfigService {
             if (fs.existsSync(configPath)) {
                 logger.debug(`Loading project config from ${configPath}`);
                 const content = fs.readFileSync(configPath, 'utf-8');
-                const config = yaml.load(content) as Config;
-                return config || {};
+                return this.resolvePaths((yaml.load(content) as Config) || {}, configPath);
             }
         } catch (error: any) {
             throw new ConfigError(`Failed to load project config: ${error.message}`, {
@@ -260,8 +377,7 @@ export class ConfigService {
             if (fs.existsSync(configPath)) {
                 logger.debug(`Loading user config from ${configPath}`);
                 const content = fs.readFileSync(configPath, 'utf-8');
-                const config = yaml.load(content) as Config;
-                return config || {};
+                return this.resolvePaths((yaml.load(content) as Config) || {}, configPath);
             }
         } catch (error: any) {
             logger.warn(`Failed to load user config: ${error.message}`);
@@ -271,6 +387,26 @@ export class ConfigService {
         return {};
     }
 
+    /**
+     * Make lint.extends and template paths relative to the config file that
+     * names them, so they are found whichever directory aicmt runs in
+     */
+    private resolvePaths(config: Config, configPath: string): Config {
+        const dir = path.dirname(configPath);
+
+        if (typeof config.lint?.extends === 'string' && config.lint.extends) {
+            config.lint.extends = path.resolve(dir, config.lint.extends);
+        }
+
+        for (const [name, file] of Object.entries(config.templates ?? {})) {
+            if (typeof file === 'string' && file) {
+                config.templates![name as keyof TemplatesConfig] = path.resolve(dir, file);
+            }
+        }
+
+        return config;
+    }
+
     private getDefaults(): Config {
         return {
             style: {
@@ -279,6 +415,7 @@ export class ConfigService {
                 emoji: false,
                 tense: 'present',
                 bullet: '- ',
+                history: 50,
             },
             scope: {
                 infer: true,
@@ -304,8 +441,13 @@ export class ConfigService {
                 ...config,
                 style: { ...acc.style, ...config.style },
                 scope: { ...acc.scope, ...config.scope },
+                context: { ...acc.context, ...config.context },
                 issues: { ...acc.issues, ...config.issues },
                 model: { ...acc.model, ...config.model },
+                templates: { ...acc.templates, ...config.templates },
+                types: { ...acc.types, ...config.types },
+                // Rules set in one file add to those set in another
+                lint: { ...acc.lint, ...config.lint, rules: { ...acc.lint?.rules, ...config.lint?.rules } },
             };
         }, {});
     }
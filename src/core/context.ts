@@ -1,4 +1,10 @@
-import { GitService, FileChange } from './git.js';
+import { GitService, FileChange, SubmoduleChange } from './git.js';
+import { BreakingChangeDetector } from './breaking.js';
+import { TypeClassifier } from './classifier.js';
+import { CommitTypeRegistry } from './commit-types.js';
+import { IgnoreRules } from './ignore.js';
+import { StyleLearner, StyleProfile } from './style.js';
+import { SymbolChange, SymbolExtractor } from './symbols.js';
 import { logger } from '../utils/logger.js';
 
 /**
@@ -13,14 +19,21 @@ export interface FileAnalysis {
     keywords: string[];
     functions: string[];
     classes: string[];
+    interfaces: string[];
+    exports: string[]; // Exported names among the changed symbols
+    symbols: SymbolChange[];
     summary: string;
+    binary?: boolean;
+    lfs?: boolean;
+    submodule?: SubmoduleChange;
+    mode?: { old: string; new: string };
 }
 
 /**
  * Represents detected commit type and confidence
  */
 export interface TypeDetection {
-    type: 'feat' | 'fix' | 'docs' | 'style' | 'refactor' | 'perf' | 'test' | 'chore';
+    type: string; // A name from the CommitTypeRegistry
     confidence: number; // 0-1
     reasons: string[];
 }
@@ -34,6 +47,16 @@ export interface ScopeDetection {
     reasons: string[];
 }
 
+/**
+ * A changed file kept out of the analysis by the ignore rules
+ */
+export interface IgnoredFile {
+    path: string;
+    kind: string; // e.g. "lockfile", "snapshot" or "ignored file"
+    additions: number;
+    deletions: number;
+}
+
 /**
  * Complete context analysis result
  */
@@ -42,9 +65,11 @@ export interface ContextAnalysis {
     type: TypeDetection;
     scope: ScopeDetection;
     breaking: boolean;
+    breakingChanges: string[]; // What breaks, e.g. "Removed CLI flag `--model` from `src/commands/pr.ts`"
     summary: string;
     totalAdditions: number;
     totalDeletions: number;
+    ignored?: IgnoredFile[]; // Changed but not analyzed, e.g. lockfiles
 }
 
 /**
@@ -54,6 +79,9 @@ export interface ContextOptions {
     staged?: boolean;
     range?: string;
     scopeMap?: Record<string, string>;
+    paths?: string[]; // Only analyze these files, e.g. one group of a split commit
+    style?: StyleProfile; // Learned history; its scopes win over ones guessed from paths
+    ignore?: IgnoreRules; // Files left out of type and scope scoring
 }
 
 /**
@@ -61,7 +89,14 @@ export interface ContextOptions {
  * for AI-powered commit message generation
  */
 export class ContextBuilder {
-    constructor(private git: GitService) { }
+    private symbols = new SymbolExtractor();
+    private breakingDetector = new BreakingChangeDetector();
+    private typeClassifier = new TypeClassifier();
+
+    constructor(
+        private git: GitService,
+        private types: CommitTypeRegistry = new CommitTypeRegistry()
+    ) { }
 
     /**
      * Build comprehensive context from current changes
@@ -70,18 +105,35 @@ export class ContextBuilder {
         logger.debug('Building context from git changes', options);
 
         // Get changed files
-        const changes = this.git.getChangedFiles({
-            staged: options.staged,
-            range: options.range,
-        });
+        const changes = this.git
+            .getChangedFiles({
+                staged: options.staged,
+                range: options.range,
+            })
+            .filter((change) => !options.paths || options.paths.includes(change.path));
 
         if (changes.length === 0) {
             throw new Error('No changes found to analyze');
         }
 
+        // Ignored files are only mentioned, unless they are all there is
+        const ignoredChanges = options.ignore ? changes.filter((change) => options.ignore!.ignores(change.path)) : [];
+        const analyzed =
+            ignoredChanges.length < changes.length
+                ? changes.filter((change) => !ignoredChanges.includes(change))
+                : changes;
+        const ignored: IgnoredFile[] = (analyzed === changes ? [] : ignoredChanges).map((change) => ({
+            path: change.path,
+            kind: IgnoreRules.kindOf(change.path) || 'ignored file',
+            additions: change.additions,
+            deletions: change.deletions,
+        }));
+
+        const diffs = this.getFileDiffs(options);
+
         // Analyze each file
         const files = await Promise.all(
-            changes.map((change) => this.analyzeFile(change))
+            analyzed.map((change) => this.analyzeFile(change, diffs.get(change.path)))
         );
 
         // Calculate totals
@@ -89,22 +141,24 @@ export class ContextBuilder {
         const totalDeletions = files.reduce((sum, f) => sum + f.deletions, 0);
 
         // Detect type
-        const type = this.detectType(files);
+        const type = this.detectType(files, diffs);
 
         // Detect scope
-        const scope = this.detectScope(files, options.scopeMap);
+        const scope = this.detectScope(files, options.scopeMap, options.style);
 
         // Check for breaking changes
-        const breaking = this.detectBreakingChanges(files);
+        const breakingChanges = this.detectBreakingChanges(files, diffs);
+        const breaking = breakingChanges.length > 0;
 
         // Generate summary
-        const summary = this.generateSummary(files, type, scope);
+        const summary = this.generateSummary(files, type, scope, ignored);
 
         logger.debug('Context built successfully', {
             fileCount: files.length,
             type: type.type,
             scope: scope.scopes,
             breaking,
+            ignored: ignored.length,
         });
 
         return {
@@ -112,23 +166,48 @@ export class ContextBuilder {
             type,
             scope,
             breaking,
+            breakingChanges,
             summary,
             totalAdditions,
             totalDeletions,
+            ignored,
         };
     }
 
+    /**
+     * Get the diff for each changed file, keyed by path. Symbol analysis is
+     * best-effort, so a failing diff leaves it empty rather than failing.
+     */
+    private getFileDiffs(options: ContextOptions): Map<string, string> {
+        try {
+            const diff = this.git.getDiff({
+                staged: options.staged,
+                range: options.range,
+                contextLines: 3, // Context lines help place changes inside declarations
+            });
+            return SymbolExtractor.splitDiff(diff);
+        } catch (error) {
+            logger.debug('Could not read diff for symbol analysis', error);
+            return new Map();
+        }
+    }
+
     /**
      * Analyze a single file change
      */
-    private async analyzeFile(change: FileChange): Promise<FileAnalysis> {
+    private async analyzeFile(change: FileChange, diff = ''): Promise<FileAnalysis> {
         const keywords = this.extractKeywords(change.path);
         const magnitude = this.calculateMagnitude(change.additions, change.deletions);
 
-        // Extract function and class names from diff
-        // For now, returning empty arrays - will enhance in next iteration
-        const functions: string[] = [];
-        const classes: string[] = [];
+        // Extract changed declarations from the diff; binaries, LFS pointers and submodules have none
+        const opaque = change.binary || change.lfs || change.submodule;
+        const symbols = diff && !opaque ? this.symbols.extract(change.path, diff) : [];
+        const namesOf = (kind: SymbolChange['kind']) =>
+            symbols.filter((symbol) => symbol.kind === kind).map((symbol) => symbol.name);
+        const functions = namesOf('function');
+        const classes = namesOf('class');
+        const interfaces = namesOf('interface');
+        const exports = symbols.filter((symbol) => symbol.exported).map((symbol) => symbol.name);
 
         const summary = this.summarizeFileChange(change);
 
@@ -141,7 +220,14 @@ export class ContextBuilder {
             keywords,
             functions,
             classes,
+            interfaces,
+            exports,
+            symbols,
             summary,
+            binary: change.binary,
+            lfs: change.lfs,
+            submodule: change.submodule,
+            mode: change.mode,
         };
     }
 
@@ -182,6 +268,9 @@ export class ContextBuilder {
         if (path === 'yarn.lock' || path === 'pnpm-lock.yaml') {
             keywords.push('dependencies');
         }
+        if (/(?:^|\/)(?:package-lock\.json|yarn\.lock|pnpm-lock\.yaml|[\w.-]+\.lock|go\.sum)$/.test(path)) {
+            keywords.push('lockfile');
+        }
 
         // Build/CI
         if (path.includes('.github/') || path.includes('.gitlab/')) {
@@ -216,11 +305,32 @@ export class ContextBuilder {
     private summarizeFileChange(change: FileChange): string {
         const { path, status, additions, deletions } = change;
 
+        if (change.submodule) {
+            return this.summarizeSubmodule(path, change.submodule);
+        }
+
+        const mode = change.mode ? this.describeMode(change.mode) : '';
+        if (mode && status === 'modified' && additions + deletions === 0 && !change.binary) {
+            return `Made ${path} ${mode}`;
+        }
+
+        const summary = this.summarizeContentChange(change);
+        return mode ? `${summary}, now ${mode}` : summary;
+    }
+
+    private summarizeContentChange(change: FileChange): string {
+        const { path, status, additions, deletions } = change;
+        const kind = change.lfs ? 'LFS object ' : change.binary ? 'binary file ' : '';
+
+        if (kind && status === 'modified') {
+            return `Replaced ${kind}${path}`;
+        }
+
         switch (status) {
             case 'added':
-                return `Added ${path}`;
+                return `Added ${kind}${path}`;
             case 'deleted':
-                return `Deleted ${path}`;
+                return `Deleted ${kind}${path}`;
             case 'renamed':
                 return `Renamed ${change.oldPath} to ${path}`;
             case 'modified':
@@ -237,19 +347,46 @@ export class ContextBuilder {
     }
 
     /**
-     * Detect commit type from file analysis
+     * e.g. "Bump submodule libfoo from abc1234 to def5678: 4 commits"
      */
-    private detectType(files: FileAnalysis[]): TypeDetection {
-        const scores = {
-            feat: 0,
-            fix: 0,
-            docs: 0,
-            style: 0,
-            refactor: 0,
-            perf: 0,
-            test: 0,
-            chore: 0,
-        };
+    private summarizeSubmodule(path: string, submodule: SubmoduleChange): string {
+        const name = path.split('/').pop();
+        const short = (sha?: string) => (sha || '').slice(0, 7);
+
+        if (!submodule.oldSha) {
+            return `Add submodule ${name} at ${short(submodule.newSha)}`;
+        }
+        if (!submodule.newSha) {
+            return `Remove submodule ${name}`;
+        }
+
+        const range = `from ${short(submodule.oldSha)} to ${short(submodule.newSha)}`;
+        if (!submodule.commits) {
+            return `Bump submodule ${name} ${range}`;
+        }
+        if (submodule.commits.length === 0) {
+            // Nothing new on the way, so the pointer went back or sideways
+            return `Move submodule ${name} ${range}`;
+        }
+
+        const count = submodule.commits.length;
+        return `Bump submodule ${name} ${range}: ${count} commit${count === 1 ? '' : 's'}`;
+    }
+
+    private describeMode(mode: { old: string; new: string }): string {
+        const executable = (value: string) => value === '100755';
+
+        if (executable(mode.new) !== executable(mode.old)) {
+            return executable(mode.new) ? 'executable' : 'non-executable';
+        }
+        return `mode ${mode.new}`;
+    }
+
+    /**
+     * Detect commit type from file paths and diff content
+     */
+    private detectType(files: FileAnalysis[], diffs: Map<string, string>): TypeDetection {
+        const scores: Record<string, number> = Object.fromEntries(this.types.names().map((name) => [name, 0]));
 
         const reasons: string[] = [];
 
@@ -272,16 +409,37 @@ export class ContextBuilder {
                 reasons.push(`Style file: ${file.path}`);
             }
 
-            // Config/dependencies
-            if (file.keywords.includes('config') || file.keywords.includes('dependencies')) {
+            // Lockfiles are build changes; other config/dependency edits are chores
+            if (file.keywords.includes('lockfile')) {
+                scores.build += 3;
+                reasons.push(`Lockfile: ${file.path}`);
+            } else if (file.keywords.includes('config') || file.keywords.includes('dependencies')) {
                 scores.chore += 2;
                 reasons.push(`Configuration/dependencies: ${file.path}`);
             }
 
-            // CI/build
-            if (file.keywords.includes('ci') || file.keywords.includes('build')) {
-                scores.chore += 2;
-                reasons.push(`CI/build: ${file.path}`);
+            // Submodule pointers pin dependencies, much like lockfiles
+            if (file.submodule) {
+                scores.build += 3;
+                reasons.push(`Submodule: ${file.path}`);
+            }
+
+            // CI
+            if (file.keywords.includes('ci')) {
+                scores.ci += 3;
+                reasons.push(`CI configuration: ${file.path}`);
+            }
+
+            // Build tooling
+            if (file.keywords.includes('build')) {
+                scores.build += 2;
+                reasons.push(`Build configuration: ${file.path}`);
+            }
+
+            // Custom types configured with paths
+            for (const type of this.types.matchPath(file.path)) {
+                scores[type.name] += 3;
+                reasons.push(`Matches ${type.name} paths: ${file.path}`);
             }
 
             // New files suggest features
@@ -296,14 +454,20 @@ export class ContextBuilder {
             }
         }
 
+        // Hints from the diff content
+        const evidence = this.typeClassifier.classify(files, diffs);
+        for (const hint of evidence) {
+            scores[hint.type] += hint.weight;
+        }
+
         // Find highest scoring type
         let maxScore = 0;
-        let detectedType: TypeDetection['type'] = 'chore';
+        let detectedType = 'chore';
 
         for (const [type, score] of Object.entries(scores)) {
             if (score > maxScore) {
                 maxScore = score;
-                detectedType = type as TypeDetection['type'];
+                detectedType = type;
             }
         }
 
@@ -320,10 +484,14 @@ export class ContextBuilder {
             );
         }
 
+        // Lead with the content evidence for the chosen type
+        const supporting = evidence.filter((hint) => hint.type === detectedType).map((hint) => hint.reason);
+        const other = evidence.filter((hint) => hint.type !== detectedType).map((hint) => hint.reason);
+
         return {
             type: detectedType,
             confidence,
-            reasons: reasons.slice(0, 5), // Limit to top 5 reasons
+            reasons: [...supporting, ...reasons, ...other].slice(0, 5), // Limit to top 5 reasons
         };
     }
 
@@ -332,18 +500,24 @@ export class ContextBuilder {
      */
     private detectScope(
         files: FileAnalysis[],
-        scopeMap?: Record<string, string>
+        scopeMap?: Record<string, string>,
+        style?: StyleProfile
     ): ScopeDetection {
         const scopeCounts = new Map<string, number>();
         const reasons: string[] = [];
 
         for (const file of files) {
-            const scopes = this.inferScopeFromPath(file.path, scopeMap);
+            const scopes = this.inferScopeFromPath(file.path, scopeMap, style);
+            const learned = style ? StyleLearner.scopesForPath(style, file.path) : [];
 
             for (const scope of scopes) {
                 scopeCounts.set(scope, (scopeCounts.get(scope) || 0) + 1);
                 if (scopeCounts.get(scope) === 1) {
-                    reasons.push(`Scope '${scope}' from ${file.path}`);
+                    reasons.push(
+                        learned.includes(scope)
+                            ? `Scope '${scope}' used in past commits touching ${file.path}`
+                            : `Scope '${scope}' from ${file.path}`
+                    );
                 }
             }
         }
@@ -366,9 +540,10 @@ export class ContextBuilder {
     }
 
     /**
-     * Infer scope from file path
+     * Infer scope from file path. Scopes the repository's history has used for
+     * the path replace the structural guesses; the configured map always applies.
      */
-    private inferScopeFromPath(path: string, scopeMap?: Record<string, string>): string[] {
+    inferScopeFromPath(path: string, scopeMap?: Record<string, string>, style?: StyleProfile): string[] {
         const scopes: string[] = [];
 
         // Check custom scope map first
@@ -380,6 +555,11 @@ export class ContextBuilder {
             }
         }
 
+        const [learned] = style ? StyleLearner.scopesForPath(style, path) : [];
+        if (learned) {
+            return [...new Set([...scopes, learned])];
+        }
+
         // Extract from path structure
         const parts = path.split('/');
 
@@ -410,26 +590,10 @@ export class ContextBuilder {
     }
 
     /**
-     * Detect breaking changes
+     * Detect breaking changes from the diff content
      */
-    private detectBreakingChanges(files: FileAnalysis[]): boolean {
-        // Check for API changes (simplified - real implementation would parse diffs)
-        for (const file of files) {
-            if (file.path.includes('api/') && file.deletions > file.additions) {
-                return true;
-            }
-
-            // Large deletions in core files might be breaking
-            if (
-                file.keywords.includes('core') &&
-                file.deletions > 50 &&
-                file.deletions > file.additions * 2
-            ) {
-                return true;
-            }
-        }
-
-        return false;
+    private detectBreakingChanges(files: FileAnalysis[], diffs: Map<string, string>): string[] {
+        return this.breakingDetector.detect(files, diffs);
     }
 
     /**
@@ -438,17 +602,31 @@ export class ContextBuilder {
     private generateSummary(
         files: FileAnalysis[],
         type: TypeDetection,
-        scope: ScopeDetection
+        scope: ScopeDetection,
+        ignored: IgnoredFile[] = []
     ): string {
         const fileCount = files.length;
         const scopeStr = scope.scopes.length > 0 ? scope.scopes.join(', ') : 'multiple areas';
+        const also = ignored.length > 0 ? ` (also updated ${this.describeIgnored(ignored)})` : '';
 
         if (fileCount === 1) {
-            return files[0].summary;
+            return files[0].summary + also;
         }
 
         const verb = type.type === 'feat' ? 'Add' : type.type === 'fix' ? 'Fix' : 'Update';
 
-        return `${verb} changes across ${fileCount} files in ${scopeStr}`;
+        return `${verb} changes across ${fileCount} files in ${scopeStr}${also}`;
+    }
+
+    /**
+     * Count ignored files by kind, e.g. "lockfile, 2 snapshots"
+     */
+    private describeIgnored(ignored: IgnoredFile[]): string {
+        const counts = new Map<string, number>();
+        for (const file of ignored) {
+            counts.set(file.kind, (counts.get(file.kind) || 0) + 1);
+        }
+
+        return Array.from(counts, ([kind, count]) => (count === 1 ? kind : `${count} ${kind}s`)).join(', ');
     }
 }
@@ -1,10 +1,12 @@
 import { execSync } from 'child_process';
+import * as path from 'path';
 import { logger } from '../utils/logger.js';
 
 export interface DiffOptions {
     staged?: boolean;
     range?: string;
     contextLines?: number;
+    binary?: boolean; // Include binary changes so the diff can be applied with `git apply`
 }
 
 export interface FileChange {
@@ -13,6 +15,19 @@ export interface FileChange {
     deletions: number;
     status: 'added' | 'modified' | 'deleted' | 'renamed';
     oldPath?: string; // For renamed files
+    binary?: boolean; // Line counts are unknown, so additions and deletions are 0
+    lfs?: boolean; // Stored with Git LFS; the diff is of the pointer file
+    submodule?: SubmoduleChange;
+    mode?: { old: string; new: string }; // File mode change, e.g. 100644 to 100755
+}
+
+/**
+ * A submodule whose recorded commit changed
+ */
+export interface SubmoduleChange {
+    oldSha?: string; // Missing when the submodule was added
+    newSha?: string; // Missing when the submodule was removed
+    commits?: CommitInfo[]; // oldSha..newSha in the submodule, when it is checked out
 }
 
 export interface CommitOptions {
@@ -22,6 +37,23 @@ export interface CommitOptions {
     allowEmpty?: boolean;
 }
 
+export interface CommitInfo {
+    sha: string;
+    subject: string;
+    body: string;
+    files?: string[]; // Paths the commit touched, when requested
+    message?: string; // The message exactly as committed, when requested
+}
+
+interface RawStatus {
+    status: FileChange['status'];
+    oldPath?: string;
+    oldMode: string;
+    newMode: string;
+    oldSha: string;
+    newSha: string;
+}
+
 export class GitError extends Error {
     constructor(
         message: string,
@@ -34,6 +66,19 @@ export class GitError extends Error {
     }
 }
 
+// sha, subject and body separated by unit separators; records end with a record separator
+const COMMIT_FORMAT = '%H%x1f%s%x1f%b%x1e';
+
+// The same fields with the record separator first, so the --name-only file list ends each record
+const COMMIT_FILES_FORMAT = '%x1e%H%x1f%s%x1f%b%x1f';
+
+// sha and the raw message (%s would join a subject that wraps onto a second line)
+const RAW_COMMIT_FORMAT = '%H%x1f%B%x1e';
+
+const SUBMODULE_MODE = '160000';
+const NULL_SHA = /^0+$/;
+const SUBMODULE_LOG_LIMIT = 50;
+
 export class GitService {
     private cwd: string;
 
@@ -89,6 +134,10 @@ export class GitService {
         const contextLines = options.contextLines ?? 0;
         args.push(`-U${contextLines}`);
 
+        if (options.binary) {
+            args.push('--binary');
+        }
+
         if (options.staged) {
             args.push('--staged');
         } else if (options.range) {
@@ -122,8 +171,8 @@ export class GitService {
      * Get list of changed files with detailed status
      */
     getChangedFiles(options: DiffOptions = {}): FileChange[] {
-        // Use --name-status for status and --numstat for line counts
-        const statusArgs = ['diff', '--name-status'];
+        // Use --raw for status, modes and object ids and --numstat for line counts
+        const statusArgs = ['diff', '--raw', '--no-abbrev'];
         const numstatArgs = ['diff', '--numstat'];
 
         if (options.staged) {
@@ -141,25 +190,109 @@ export class GitService {
             return [];
         }
 
-        const statusMap = this.parseNameStatus(statusOutput);
+        const statusMap = this.parseRaw(statusOutput);
         const numstatMap = this.parseNumstat(numstatOutput);
+        const lfsPaths = this.getLfsPaths(Object.keys(statusMap));
 
         // Merge the two maps
         const files: FileChange[] = [];
         for (const [filePath, status] of Object.entries(statusMap)) {
-            const stats = numstatMap.get(filePath) || { additions: 0, deletions: 0 };
-            files.push({
+            const stats = numstatMap.get(filePath) || { additions: 0, deletions: 0, binary: false };
+            const file: FileChange = {
                 path: filePath,
                 status: status.status,
                 oldPath: status.oldPath,
                 additions: stats.additions,
                 deletions: stats.deletions,
-            });
+            };
+
+            if (stats.binary) {
+                file.binary = true;
+            }
+            if (lfsPaths.has(filePath)) {
+                file.lfs = true;
+            }
+
+            if (status.oldMode === SUBMODULE_MODE || status.newMode === SUBMODULE_MODE) {
+                file.submodule = this.getSubmoduleChange(
+                    filePath,
+                    status.oldMode === SUBMODULE_MODE ? status.oldSha : undefined,
+                    status.newMode === SUBMODULE_MODE ? status.newSha : undefined
+                );
+            } else if (status.oldMode !== status.newMode && !NULL_SHA.test(status.oldMode) && !NULL_SHA.test(status.newMode)) {
+                file.mode = { old: status.oldMode, new: status.newMode };
+            }
+
+            files.push(file);
         }
 
         return files;
     }
 
+    /**
+     * Which of the paths are stored with Git LFS, going by their filter attribute
+     */
+    private getLfsPaths(paths: string[]): Set<string> {
+        if (paths.length === 0) {
+            return new Set();
+        }
+
+        try {
+            // -z output is path, attribute, value triples separated by NULs
+            const fields = this.exec(['check-attr', '-z', '--stdin', 'filter'], {
+                input: paths.join('\0'),
+                silent: true,
+            }).split('\0');
+
+            const lfs = new Set<string>();
+            for (let i = 0; i + 2 < fields.length; i += 3) {
+                if (fields[i + 2] === 'lfs') {
+                    lfs.add(fields[i]);
+                }
+            }
+            return lfs;
+        } catch (error) {
+            logger.debug('Could not read LFS attributes', error);
+            return new Set();
+        }
+    }
+
+    /**
+     * Describe a submodule pointer change, with the submodule's own log
+     * between the two commits when it is checked out
+     */
+    private getSubmoduleChange(submodulePath: string, oldSha?: string, newSha?: string): SubmoduleChange {
+        const change: SubmoduleChange = {
+            oldSha: oldSha && !NULL_SHA.test(oldSha) ? oldSha : undefined,
+            newSha: newSha && !NULL_SHA.test(newSha) ? newSha : undefined,
+        };
+
+        if (!change.oldSha || !change.newSha) {
+            return change;
+        }
+
+        try {
+            const output = this.exec(
+                [
+                    '-C',
+                    path.join(this.getRepositoryRoot(), submodulePath),
+                    'log',
+                    '-n',
+                    String(SUBMODULE_LOG_LIMIT),
+                    `--pretty=format:${COMMIT_FORMAT}`,
+                    `${change.oldSha}..${change.newSha}`,
+                ],
+                { allowEmpty: true, silent: true }
+            );
+            change.commits = this.parseCommits(output);
+        } catch (error) {
+            // Not checked out, or the commits were never fetched
+            logger.debug(`Could not read the log of submodule ${submodulePath}`, error);
+        }
+
+        return change;
+    }
+
     /**
      * Get recent commit messages for a file
      */
@@ -183,6 +316,146 @@ export class GitService {
         }
     }
 
+    /**
+     * Get the most recent non-merge commits on the current branch, newest first
+     */
+    getRecentCommits(limit: number = 20): CommitInfo[] {
+        try {
+            const output = this.exec(
+                ['log', '-n', String(limit), '--no-merges', `--pretty=format:${COMMIT_FORMAT}`],
+                { allowEmpty: true }
+            );
+            return this.parseCommits(output);
+        } catch {
+            // No commits yet
+            return [];
+        }
+    }
+
+    /**
+     * Get the most recent non-merge commits along with the files each one touched
+     */
+    getRecentCommitsWithFiles(limit: number = 50): CommitInfo[] {
+        try {
+            const output = this.exec(
+                ['log', '-n', String(limit), '--no-merges', '--name-only', `--pretty=format:${COMMIT_FILES_FORMAT}`],
+                { allowEmpty: true }
+            );
+
+            return output
+                .split('\x1e')
+                .filter((record) => record.trim())
+                .map((record) => {
+                    const [sha, subject, body = '', files = ''] = record.split('\x1f');
+                    return {
+                        sha: sha.trim(),
+                        subject,
+                        body: body.trim(),
+                        files: files.split('\n').filter(Boolean),
+                    };
+                });
+        } catch {
+            // No commits yet
+            return [];
+        }
+    }
+
+    /**
+     * Get the sha HEAD points at, or null before the first commit
+     */
+    getHeadSha(): string | null {
+        try {
+            return this.exec(['rev-parse', '--verify', '-q', 'HEAD'], { silent: true }).trim() || null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Get the absolute path of the .git directory (worktrees have their own)
+     */
+    getGitDir(): string {
+        return this.exec(['rev-parse', '--absolute-git-dir']).trim();
+    }
+
+    /**
+     * Get a config value, or undefined when it is not set
+     */
+    getConfig(key: string): string | undefined {
+        try {
+            return this.exec(['config', '--get', key], { silent: true }).replace(/\n$/, '') || undefined;
+        } catch {
+            // git config exits with 1 for unset keys
+            return undefined;
+        }
+    }
+
+    /**
+     * Get the absolute path of the directory git runs hooks from, honoring core.hooksPath
+     */
+    getHooksDir(): string {
+        return path.resolve(this.cwd, this.exec(['rev-parse', '--git-path', 'hooks']).trim());
+    }
+
+    /**
+     * Resolve a commit reference (sha, tag, HEAD~2, ...) to its details
+     */
+    getCommit(ref: string): CommitInfo {
+        let output: string;
+        try {
+            output = this.exec(['log', '-1', `--pretty=format:${COMMIT_FORMAT}`, ref, '--']);
+        } catch (error) {
+            throw new GitError(
+                `Unknown commit: ${ref}`,
+                `git log -1 ${ref}`,
+                error instanceof GitError ? error.exitCode : 128,
+                error instanceof GitError ? error.stderr : ''
+            );
+        }
+
+        const [commit] = this.parseCommits(output);
+        if (!commit) {
+            throw new GitError(`Unknown commit: ${ref}`, `git log -1 ${ref}`, 128, '');
+        }
+        return commit;
+    }
+
+    /**
+     * Get the commits in a range such as origin/main..HEAD, oldest first,
+     * with their raw messages
+     */
+    getCommitsInRange(range: string): CommitInfo[] {
+        let output: string;
+        try {
+            output = this.exec(['log', '--reverse', `--pretty=format:${RAW_COMMIT_FORMAT}`, range, '--'], { allowEmpty: true });
+        } catch (error) {
+            throw new GitError(
+                `Unknown commit range: ${range}`,
+                `git log ${range}`,
+                error instanceof GitError ? error.exitCode : 128,
+                error instanceof GitError ? error.stderr : ''
+            );
+        }
+
+        return output
+            .split('\x1e')
+            .map((record) => record.replace(/^\n/, ''))
+            .filter((record) => record.trim())
+            .map((record) => {
+                const [sha, raw = ''] = record.split('\x1f');
+                const message = raw.replace(/\s+$/, '');
+                const [subject = '', ...body] = message.split('\n');
+                return { sha: sha.trim(), subject, body: body.join('\n').trim(), message };
+            });
+    }
+
+    /**
+     * Get the changes a single commit introduced, without its message
+     */
+    getCommitDiff(sha: string, contextLines: number = 0): string {
+        return this.exec(['show', '--no-color', '--format=', `-U${contextLines}`, sha], { allowEmpty: true });
+    }
+
     /**
      * Get current branch name
      */
@@ -272,6 +545,34 @@ export class GitService {
         }
     }
 
+    /**
+     * Unstage everything, leaving the working tree untouched
+     */
+    unstageAll(): void {
+        this.exec(['reset', '-q'], { allowEmpty: true });
+    }
+
+    /**
+     * Stage a patch (as produced by `getDiff({ binary: true })`) without touching the working tree
+     */
+    applyToIndex(patch: string): void {
+        this.exec(['apply', '--cached', '-'], { input: patch });
+    }
+
+    /**
+     * Write the index to a tree object and return its id
+     */
+    writeTree(): string {
+        return this.exec(['write-tree']).trim();
+    }
+
+    /**
+     * Replace the index with a tree written by `writeTree`, leaving the working tree untouched
+     */
+    readTree(tree: string): void {
+        this.exec(['read-tree', tree]);
+    }
+
     /**
      * Get repository root directory
      */
@@ -359,22 +660,24 @@ export class GitService {
     }
 
     /**
-     * Parse git name-status output
+     * Parse git diff --raw output:
+     * `:<old mode> <new mode> <old sha> <new sha> <status>\t<path>[\t<new path>]`
      */
-    private parseNameStatus(output: string): Record<string, { status: FileChange['status']; oldPath?: string }> {
+    private parseRaw(output: string): Record<string, RawStatus> {
         const lines = output.split('\n').filter(Boolean);
-        const result: Record<string, { status: FileChange['status']; oldPath?: string }> = {};
+        const result: Record<string, RawStatus> = {};
 
         for (const line of lines) {
             const parts = line.split('\t');
+            const meta = parts[0].replace(/^:/, '').split(' ');
 
             // Validate we have at least status and path
-            if (parts.length < 2) {
-                logger.warn('Malformed git name-status line (insufficient parts):', line);
+            if (parts.length < 2 || meta.length < 5) {
+                logger.warn('Malformed git raw diff line (insufficient parts):', line);
                 continue;
             }
 
-            const statusCode = parts[0];
+            const [oldMode, newMode, oldSha, newSha, statusCode] = meta;
 
             let status: FileChange['status'];
             let filePath: string;
@@ -383,7 +686,7 @@ export class GitService {
             if (statusCode.startsWith('R')) {
                 // Renamed file: R100  old-path  new-path
                 if (parts.length < 3) {
-                    logger.warn('Malformed git name-status line (renamed file missing paths):', line);
+                    logger.warn('Malformed git raw diff line (renamed file missing paths):', line);
                     continue;
                 }
                 status = 'renamed';
@@ -400,18 +703,32 @@ export class GitService {
                 filePath = parts[1];
             }
 
-            result[filePath] = { status, oldPath };
+            result[filePath] = { status, oldPath, oldMode, newMode, oldSha, newSha };
         }
 
         return result;
     }
 
+    /**
+     * Parse git log output written with COMMIT_FORMAT
+     */
+    private parseCommits(output: string): CommitInfo[] {
+        return output
+            .split('\x1e')
+            .map((record) => record.replace(/^\n/, ''))
+            .filter((record) => record.trim())
+            .map((record) => {
+                const [sha, subject, body = ''] = record.split('\x1f');
+                return { sha: sha.trim(), subject, body: body.trim() };
+            });
+    }
+
     /**
      * Parse git numstat output
      */
-    private parseNumstat(output: string): Map<string, { additions: number; deletions: number }> {
+    private parseNumstat(output: string): Map<string, { additions: number; deletions: number; binary: boolean }> {
         const lines = output.split('\n').filter(Boolean);
-        const result = new Map<string, { additions: number; deletions: number }>();
+        const result = new Map<string, { additions: number; deletions: number; binary: boolean }>();
 
         for (const line of lines) {
             const parts = line.split('\t');
@@ -423,6 +740,7 @@ export class GitService {
             result.set(filePath, {
                 additions: additions === '-' ? 0 : parseInt(additions, 10),
                 deletions: deletions === '-' ? 0 : parseInt(deletions, 10),
+                binary: additions === '-' && deletions === '-',
             });
         }
 
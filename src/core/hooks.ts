@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GitService } from './git.js';
+import { ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+export type HookName = 'prepare-commit-msg' | 'commit-msg';
+
+export const HOOK_NAMES: HookName[] = ['prepare-commit-msg', 'commit-msg'];
+
+export interface HookStatus {
+    hook: HookName;
+    path: string;
+    installed: boolean; // Whether the aicmt hook is in place
+    chained: boolean; // Whether a hook that was there before is kept and run first
+    foreign: boolean; // Another tool's hook is in place instead
+}
+
+// First lines of every hook aicmt writes, used to recognise them later
+const MARKER = '# Installed by aicmt';
+const CHAINED_SUFFIX = '.aicmt-chained';
+
+// How to run aicmt from a hook: from PATH, or the project's own install
+const RUN_AICMT = `run_aicmt() {
+    if command -v aicmt >/dev/null 2>&1; then
+        aicmt "$@"
+    elif command -v npx >/dev/null 2>&1; then
+        npx --no-install aicmt "$@"
+    fi
+}`;
+
+const SCRIPTS: Record<HookName, string> = {
+    'prepare-commit-msg': `# $2 says where the message came from: message (-m, -F), template, merge,
+# squash or commit (-c, -C, --amend). Only blank messages are generated.
+case "$2" in
+    message|merge|squash|commit) exit 0 ;;
+esac
+
+# AICMT_SKIP=1 git commit to write the message yourself
+[ -n "$AICMT_SKIP" ] && exit 0
+
+# Never block the commit; git opens the editor with whatever is in the buffer
+run_aicmt commit --stage --dry-run --no-stream --message-file "$1" || true
+exit 0`,
+
+    'commit-msg': `# A failing lint aborts the commit; git keeps the message in .git/COMMIT_EDITMSG
+run_aicmt lint-commit --hook "$1"`,
+};
+
+/**
+ * HookInstaller manages the git hooks aicmt provides. Hooks are written to
+ * the directory git runs them from, so core.hooksPath is respected, and a
+ * hook that is already there is kept and run before aicmt's own.
+ */
+export class HookInstaller {
+    constructor(private git: GitService) { }
+
+    status(hook: HookName): HookStatus {
+        const file = path.join(this.git.getHooksDir(), hook);
+        const installed = HookInstaller.isOurs(file);
+
+        return {
+            hook,
+            path: file,
+            installed,
+            chained: fs.existsSync(file + CHAINED_SUFFIX),
+            foreign: !installed && fs.existsSync(file),
+        };
+    }
+
+    /**
+     * Write the hook, moving any other hook aside to be chained. Installing
+     * again rewrites the script and keeps the chained hook.
+     */
+    install(hook: HookName): HookStatus {
+        const directory = this.git.getHooksDir();
+        const file = path.join(directory, hook);
+
+        if (fs.existsSync(directory) && !fs.statSync(directory).isDirectory()) {
+            throw new ValidationError(`Git hooks are disabled: core.hooksPath points at ${directory}`, {
+                suggestion: 'Unset core.hooksPath or point it at a directory, then install again',
+            });
+        }
+
+        fs.mkdirSync(directory, { recursive: true });
+
+        if (fs.existsSync(file) && !HookInstaller.isOurs(file)) {
+            if (fs.existsSync(file + CHAINED_SUFFIX)) {
+                throw new ValidationError(`Cannot install ${hook}: ${file + CHAINED_SUFFIX} already exists`, {
+                    suggestion: 'Remove or merge the old hooks by hand, then install again',
+                });
+            }
+
+            fs.renameSync(file, file + CHAINED_SUFFIX);
+            logger.debug(`Moved existing ${hook} hook to ${file + CHAINED_SUFFIX}`);
+        }
+
+        fs.writeFileSync(file, HookInstaller.script(hook), { mode: 0o755 });
+        fs.chmodSync(file, 0o755);
+
+        return this.status(hook);
+    }
+
+    /**
+     * Remove the hook and put back the one it replaced. Returns false when
+     * the aicmt hook was not installed.
+     */
+    uninstall(hook: HookName): boolean {
+        const file = path.join(this.git.getHooksDir(), hook);
+
+        if (!HookInstaller.isOurs(file)) {
+            return false;
+        }
+
+        fs.unlinkSync(file);
+        if (fs.existsSync(file + CHAINED_SUFFIX)) {
+            fs.renameSync(file + CHAINED_SUFFIX, file);
+        }
+
+        return true;
+    }
+
+    /**
+     * The shell script for a hook; it runs the chained hook, if any, first
+     */
+    static script(hook: HookName): string {
+        return `#!/bin/sh
+${MARKER} (${hook}). Remove with: aicmt hook uninstall ${hook}
+
+# Run the hook this one replaced first
+chained="$0${CHAINED_SUFFIX}"
+if [ -x "$chained" ]; then
+    "$chained" "$@" || exit $?
+fi
+
+${RUN_AICMT}
+
+${SCRIPTS[hook]}
+`;
+    }
+
+    private static isOurs(file: string): boolean {
+        try {
+            return fs.readFileSync(file, 'utf-8').split('\n', 2)[1]?.startsWith(MARKER) ?? false;
+        } catch {
+            return false;
+        }
+    }
+}
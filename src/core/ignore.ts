@@ -0,0 +1,181 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SymbolExtractor } from './symbols.js';
+import { logger } from '../utils/logger.js';
+
+interface IgnoreRule {
+    regex: RegExp;
+    negate: boolean;
+}
+
+export const IGNORE_FILE = '.aicmtignore';
+
+// Files that rarely say anything about intent; `!pattern` in .aicmtignore brings one back
+export const DEFAULT_IGNORE_PATTERNS = [
+    'package-lock.json',
+    'npm-shrinkwrap.json',
+    'yarn.lock',
+    'pnpm-lock.yaml',
+    '*.lock',
+    'go.sum',
+    '*.min.js',
+    '*.min.css',
+    '*.map',
+    '*.snap',
+    'dist/',
+    'build/',
+    'vendor/',
+    'node_modules/',
+    '__generated__/',
+];
+
+// What to call an ignored file in summaries, first match wins
+const KINDS: Array<[RegExp, string]> = [
+    [/(?:^|\/)(?:package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|[\w.-]+\.lock|go\.sum)$/, 'lockfile'],
+    [/\.snap$/, 'snapshot'],
+    [/\.min\.(?:js|css)$|\.map$/, 'minified file'],
+    [/(?:^|\/)(?:vendor|node_modules)\//, 'vendored file'],
+    [/(?:^|\/)(?:dist|build|out)\//, 'build artifact'],
+    [/(?:^|\/)__generated__\/|\.generated\.\w+$|\.pb\.go$/, 'generated file'],
+];
+
+/**
+ * Paths to keep out of the model's view, written in gitignore syntax. Rules
+ * come from the defaults, then `context.ignore` in .aicmt.yaml, then the
+ * repository's .aicmtignore; as in .gitignore, the last matching rule wins.
+ */
+export class IgnoreRules {
+    private rules: IgnoreRule[] = [];
+
+    constructor(patterns: string[] = DEFAULT_IGNORE_PATTERNS) {
+        for (const line of patterns) {
+            const rule = IgnoreRules.parse(line);
+            if (rule) {
+                this.rules.push(rule);
+            }
+        }
+    }
+
+    /**
+     * Rules for a repository: defaults, configured patterns and its .aicmtignore
+     */
+    static load(root: string, patterns: string[] = []): IgnoreRules {
+        const file = path.join(root, IGNORE_FILE);
+        let lines: string[] = [];
+
+        try {
+            if (fs.existsSync(file)) {
+                lines = fs.readFileSync(file, 'utf-8').split(/\r?\n/);
+                logger.debug(`Loaded ignore rules from ${file}`);
+            }
+        } catch (error) {
+            logger.warn(`Could not read ${file}`, error);
+        }
+
+        return new IgnoreRules([...DEFAULT_IGNORE_PATTERNS, ...patterns, ...lines]);
+    }
+
+    /**
+     * Whether the path is ignored
+     */
+    ignores(filePath: string): boolean {
+        let ignored = false;
+
+        for (const rule of this.rules) {
+            if (rule.regex.test(filePath)) {
+                ignored = !rule.negate;
+            }
+        }
+
+        return ignored;
+    }
+
+    /**
+     * Drop ignored files from a unified diff
+     */
+    filterDiff(diff: string): string {
+        const files = SymbolExtractor.splitDiff(diff);
+        if (files.size === 0) {
+            return diff;
+        }
+
+        return Array.from(files)
+            .filter(([filePath]) => !this.ignores(filePath))
+            .map(([, chunk]) => chunk)
+            .join('');
+    }
+
+    /**
+     * A short name for the kind of file, e.g. "lockfile" or "snapshot"
+     */
+    static kindOf(filePath: string): string | undefined {
+        return KINDS.find(([pattern]) => pattern.test(filePath))?.[1];
+    }
+
+    /**
+     * Turn one gitignore line into a rule; blank lines and comments give undefined
+     */
+    private static parse(line: string): IgnoreRule | undefined {
+        let pattern = line.replace(/(?<!\\)\s+$/, '');
+
+        if (!pattern || pattern.startsWith('#')) {
+            return undefined;
+        }
+
+        const negate = pattern.startsWith('!');
+        if (negate) {
+            pattern = pattern.slice(1);
+        }
+        pattern = pattern.replace(/^\\(?=[#!])/, '');
+
+        const directory = pattern.endsWith('/');
+        const body = pattern.replace(/\/+$/, '');
+        // A slash anywhere but the end anchors the pattern to the repository root
+        const anchored = body.includes('/');
+
+        const source = IgnoreRules.toRegExp(body.replace(/^\//, ''));
+        const prefix = anchored ? '^' : '^(?:.*/)?';
+        // Directory patterns match what is inside; others match the path or anything below it
+        const suffix = directory ? '/' : '(?:/|$)';
+
+        return { regex: new RegExp(prefix + source + suffix), negate };
+    }
+
+    private static toRegExp(glob: string): string {
+        let source = '';
+
+        for (let i = 0; i < glob.length; i++) {
+            const char = glob[i];
+
+            if (char === '*' && glob[i + 1] === '*') {
+                // "**/" matches any number of directories, a trailing "**" everything below
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else if (char === '*') {
+                source += '[^/]*';
+            } else if (char === '?') {
+                source += '[^/]';
+            } else if (char === '[') {
+                const end = glob.indexOf(']', i + 1);
+                if (end === -1) {
+                    source += '\\[';
+                } else {
+                    source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+                    i = end;
+                }
+            } else if (char === '\\' && i + 1 < glob.length) {
+                source += glob[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+                i += 1;
+            } else {
+                source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+            }
+        }
+
+        return source;
+    }
+}
@@ -0,0 +1,163 @@
+import { CommitTypeRegistry } from './commit-types.js';
+import { CommitLinter, LintOptions, LintResult } from './lint.js';
+import { IMPERATIVE_FORMS, LintProblem, LintRules, RuleContext, RuleSetting } from './lint-rules.js';
+import { wrapText } from '../utils/wrap.js';
+
+export interface FixResult {
+    message: string;
+    fixed: LintProblem[]; // Problems the fixer resolved
+    result: LintResult; // Lint result of the fixed message
+}
+
+type Fixer = (lines: string[], setting: RuleSetting, context: RuleContext, width: number) => string[];
+
+const MAX_PASSES = 3;
+
+const BULLET = /^(\s*)([-*+]|\d+[.)])\s+/;
+
+/**
+ * How to fix each rule that can be fixed without knowing what the commit
+ * is about, in the order they are applied
+ */
+const FIXERS: Record<string, Fixer> = {
+    'subject-full-stop': (lines, { when, value }) => {
+        if (when !== 'never') {
+            return lines;
+        }
+
+        let header = lines[0];
+        while (header.endsWith(value as string)) {
+            header = header.slice(0, -(value as string).length).trimEnd();
+        }
+        return [header, ...lines.slice(1)];
+    },
+
+    'subject-case': (lines, { when, value }, context) => {
+        const cases = Array.isArray(value) ? value : [value];
+        const wantsLower = when === 'never' ? cases.includes('sentence-case') : cases.includes('lower-case');
+
+        // "API" or "GraphQL" are names, not capitalised words
+        return wantsLower
+            ? replaceSubject(lines, context, (subject) => subject.replace(/^[A-Z](?=[a-z']*\b)/, (letter) => letter.toLowerCase()))
+            : lines;
+    },
+
+    'subject-imperative': (lines, _setting, context) =>
+        replaceSubject(lines, context, (subject) =>
+            subject.replace(/^\S+/, (word) => {
+                const imperative = IMPERATIVE_FORMS[word.toLowerCase()];
+                if (!imperative) {
+                    return word;
+                }
+                return /^[A-Z]/.test(word) ? imperative[0].toUpperCase() + imperative.slice(1) : imperative;
+            })
+        ),
+
+    'body-leading-blank': (lines) => [lines[0], '', ...lines.slice(1)],
+
+    'body-max-line-length': (lines, { value }, context, width) => {
+        const max = value as number;
+        const { footerStart } = LintRules.parseCommit(lines.join('\n'), context);
+        const end = footerStart === -1 ? lines.length : footerStart;
+        const output = lines.slice(0, 2);
+        let fenced = false;
+
+        for (const line of lines.slice(2, end)) {
+            if (line.startsWith('```')) {
+                fenced = !fenced;
+            }
+
+            // Code, indented blocks and links are left as written
+            if (fenced || line.length <= max || line.startsWith('http') || /^( {4}|\t)/.test(line)) {
+                output.push(line);
+                continue;
+            }
+
+            const bullet = line.match(BULLET);
+            const hanging = bullet ? ' '.repeat(bullet[0].length) : '';
+            const wrapped = wrapText(line.slice(hanging.length), Math.min(width, max) - hanging.length).split('\n');
+            output.push(...wrapped.map((part, index) => (index === 0 ? line.slice(0, hanging.length) : hanging) + part));
+        }
+
+        return [...output, ...lines.slice(end)];
+    },
+
+    'footer-leading-blank': (lines, _setting, context) => {
+        const { footerStart } = LintRules.parseCommit(lines.join('\n'), context);
+        return footerStart > 1 && lines[footerStart - 1].trim() !== ''
+            ? [...lines.slice(0, footerStart), '', ...lines.slice(footerStart)]
+            : lines;
+    },
+
+    'footer-order': (lines, _setting, context) => {
+        const { footers, footerStart } = LintRules.parseCommit(lines.join('\n'), context);
+        return footerStart === -1 ? lines : [...lines.slice(0, footerStart), ...LintRules.sortFooters(footers)];
+    },
+};
+
+export const FIXABLE_RULES = Object.keys(FIXERS);
+
+/**
+ * CommitFixer rewrites the parts of a message lint-commit can fix
+ * mechanically: trailing periods, a capitalised or non-imperative
+ * description, long body lines, missing blank lines and footer order.
+ * Only rules that reported a problem are touched.
+ */
+export class CommitFixer {
+    constructor(
+        private types: CommitTypeRegistry = new CommitTypeRegistry(),
+        private rules: LintRules = new LintRules(),
+        private width: number = 72
+    ) { }
+
+    fix(message: string, options: LintOptions = {}): FixResult {
+        const linter = new CommitLinter(this.types, this.rules);
+        const context: RuleContext = { types: this.types, allowEmoji: options.allowEmoji ?? true };
+
+        // One fix can bring another problem to light, e.g. body lines once a blank line sets them apart
+        let fixed = message.trim();
+        let result = linter.lint(message, options);
+        const seen = new Map<string, LintProblem>();
+
+        for (let pass = 0; pass < MAX_PASSES; pass++) {
+            result.problems.forEach((problem) => seen.set(`${problem.rule}: ${problem.message}`, problem));
+            const flagged = new Set(result.problems.map((problem) => problem.rule));
+            let lines = fixed.split('\n');
+
+            for (const [rule, fixer] of Object.entries(FIXERS)) {
+                const setting = this.rules.get(rule);
+                if (flagged.has(rule) && setting) {
+                    lines = fixer(lines, setting, context, this.width);
+                }
+            }
+
+            const previous = fixed;
+            fixed = lines.join('\n');
+            result = linter.lint(fixed, options);
+            if (fixed === previous) {
+                break;
+            }
+        }
+
+        const remaining = new Set(result.problems.map((problem) => `${problem.rule}: ${problem.message}`));
+
+        return {
+            message: fixed,
+            fixed: [...seen].filter(([key, problem]) => FIXABLE_RULES.includes(problem.rule) && !remaining.has(key)).map(([, problem]) => problem),
+            result,
+        };
+    }
+}
+
+/**
+ * Rewrite the description of a Conventional Commit header, leaving its type,
+ * scope and any emoji prefix alone
+ */
+function replaceSubject(lines: string[], context: RuleContext, change: (subject: string) => string): string[] {
+    const { header, subject } = LintRules.parseCommit(lines.join('\n'), context);
+    if (!subject) {
+        return lines;
+    }
+
+    return [header.slice(0, header.length - subject.length) + change(subject), ...lines.slice(1)];
+}
@@ -0,0 +1,172 @@
+import { LintResult } from './lint.js';
+import { LintProblem } from './lint-rules.js';
+
+export type ReportFormat = 'text' | 'json' | 'junit' | 'github';
+
+export const REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'junit', 'github'];
+
+export interface LintedMessage {
+    name: string; // Short sha, or the path of the message file
+    subject: string;
+    result: LintResult;
+    sha?: string;
+    file?: string;
+}
+
+/**
+ * LintReport renders the lint results of several messages, such as every
+ * commit in a range, for people (text) or for CI: JSON, JUnit XML, or
+ * GitHub Actions workflow commands that show up as annotations.
+ */
+export class LintReport {
+    /**
+     * @param strict Report warnings as errors, as `lint-commit --strict` treats them
+     */
+    constructor(private messages: LintedMessage[], private strict: boolean = false) { }
+
+    /**
+     * Messages with at least one error
+     */
+    failed(): LintedMessage[] {
+        return this.messages.filter((message) => this.problems(message).some((problem) => problem.level === 'error'));
+    }
+
+    count(level: LintProblem['level']): number {
+        return this.messages.reduce(
+            (sum, message) => sum + this.problems(message).filter((problem) => problem.level === level).length,
+            0
+        );
+    }
+
+    render(format: ReportFormat): string {
+        switch (format) {
+            case 'json':
+                return this.json();
+            case 'junit':
+                return this.junit();
+            case 'github':
+                return this.github();
+            default:
+                return this.text();
+        }
+    }
+
+    private text(): string {
+        const lines: string[] = [];
+
+        for (const message of this.messages) {
+            const problems = this.problems(message);
+            if (problems.length === 0) {
+                continue;
+            }
+
+            lines.push(`${message.name} ${message.subject}`);
+            for (const problem of problems) {
+                lines.push(`  ${problem.level === 'error' ? '❌' : '⚠️ '} ${problem.message} (${problem.rule})`);
+            }
+            lines.push('');
+        }
+
+        const total = `${this.messages.length} commit message${this.messages.length === 1 ? '' : 's'}`;
+        const counts = `${plural(this.count('error'), 'error')}, ${plural(this.count('warn'), 'warning')}`;
+        const failed = this.failed().length;
+
+        lines.push(failed > 0 ? `❌ ${failed} of ${total} failed: ${counts}` : `✅ ${total} checked: ${counts}`);
+        return lines.join('\n');
+    }
+
+    private json(): string {
+        return JSON.stringify(
+            {
+                valid: this.failed().length === 0,
+                errors: this.count('error'),
+                warnings: this.count('warn'),
+                messages: this.messages.map((message) => ({
+                    ...(message.sha ? { sha: message.sha } : {}),
+                    ...(message.file ? { file: message.file } : {}),
+                    subject: message.subject,
+                    valid: !this.problems(message).some((problem) => problem.level === 'error'),
+                    problems: this.problems(message),
+                })),
+            },
+            null,
+            2
+        );
+    }
+
+    private junit(): string {
+        const failures = this.failed().length;
+        const cases = this.messages.map((message) => {
+            const problems = this.problems(message);
+            const errors = problems.filter((problem) => problem.level === 'error');
+            const warnings = problems.filter((problem) => problem.level === 'warn');
+            const lines = [`    <testcase classname="commit messages" name="${xml(`${message.name} ${message.subject}`)}">`];
+
+            if (errors.length > 0) {
+                lines.push(
+                    `      <failure message="${xml(errors[0].message)}" type="${xml(errors[0].rule)}">` +
+                    xml(errors.map((problem) => `${problem.rule}: ${problem.message}`).join('\n')) +
+                    '</failure>'
+                );
+            }
+            if (warnings.length > 0) {
+                lines.push(`      <system-out>${xml(warnings.map((problem) => `warning ${problem.rule}: ${problem.message}`).join('\n'))}</system-out>`);
+            }
+
+            lines.push('    </testcase>');
+            return lines.join('\n');
+        });
+
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<testsuites name="aicmt lint-commit" tests="${this.messages.length}" failures="${failures}">`,
+            `  <testsuite name="commit messages" tests="${this.messages.length}" failures="${failures}" errors="0" skipped="0">`,
+            ...cases,
+            '  </testsuite>',
+            '</testsuites>',
+        ].join('\n');
+    }
+
+    private github(): string {
+        return this.messages
+            .flatMap((message) =>
+                this.problems(message).map((problem) => {
+                    const properties = [
+                        ...(message.file ? [`file=${property(message.file)}`] : []),
+                        `title=${property(`${message.name} ${problem.rule}`)}`,
+                    ];
+                    const command = problem.level === 'error' ? 'error' : 'warning';
+                    return `::${command} ${properties.join(',')}::${data(`${problem.message} in "${message.subject}"`)}`;
+                })
+            )
+            .join('\n');
+    }
+
+    private problems(message: LintedMessage): LintProblem[] {
+        return this.strict
+            ? message.result.problems.map((problem) => ({ ...problem, level: 'error' }))
+            : message.result.problems;
+    }
+}
+
+function plural(count: number, word: string): string {
+    return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function xml(text: string): string {
+    // XML 1.0 has no way to write control characters other than tab and newlines
+    const printable = Array.from(text)
+        .filter((char) => char >= ' ' || char === '\t' || char === '\n' || char === '\r')
+        .join('');
+
+    return printable.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Escaping for workflow command messages and properties, as @actions/core does it
+function data(text: string): string {
+    return text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function property(text: string): string {
+    return data(text).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
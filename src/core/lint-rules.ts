@@ -0,0 +1,560 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { CommitTypeRegistry } from './commit-types.js';
+import { LintConfig } from './config.js';
+import { ConfigError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+export type RuleLevel = 'off' | 'warn' | 'error';
+export type RuleCondition = 'always' | 'never';
+
+/**
+ * How a rule is written in .aicmt.yaml or a commitlint config: a level on
+ * its own, or a list of the level, an optional condition and a value.
+ * Levels may be words or commitlint's 0, 1 and 2.
+ */
+export type RuleConfig = RuleLevel | 0 | 1 | 2 | [RuleLevel | 0 | 1 | 2, ...unknown[]];
+
+export interface RuleSetting {
+    level: RuleLevel;
+    when: RuleCondition;
+    value?: unknown;
+}
+
+export interface LintProblem {
+    rule: string;
+    level: 'warn' | 'error';
+    message: string;
+}
+
+export interface RuleContext {
+    types: CommitTypeRegistry;
+    allowEmoji: boolean;
+}
+
+/**
+ * A commit message split into the parts rules look at
+ */
+export interface ParsedCommit {
+    header: string; // The subject line as written
+    type?: string; // Set when the header has the <type>(<scope>): <description> shape
+    scope?: string;
+    breaking: boolean;
+    subject?: string; // The description after the colon
+    lines: string[];
+    body: string; // Everything after the blank line, footers included
+    footers: string[]; // Trailer lines that end the message, e.g. "Refs: #12"
+    footerStart: number; // Index in lines of the first footer, or -1
+}
+
+interface RuleDefinition {
+    defaults: RuleSetting;
+    negatable?: boolean; // Whether "never" means something for this rule
+    expects?: string; // What the value must be, for validation messages
+    accepts?: (value: unknown) => boolean;
+    check(commit: ParsedCommit, setting: RuleSetting, context: RuleContext): string[];
+}
+
+const HEADER = /^(\w[\w-]*)(?:\(([^()\r\n]+)\))?(!)?:\s+(.+)/;
+const FOOTER = /^([A-Za-z][\w-]*|BREAKING CHANGE)(: | #)/;
+const REFERENCE = /(^|[\s(])([\w.-]+\/[\w.-]+)?#\d+\b|\b[A-Z][A-Z0-9]+-\d+\b/;
+const LEVELS: Record<string, RuleLevel> = { 0: 'off', 1: 'warn', 2: 'error', off: 'off', warn: 'warn', error: 'error' };
+
+const CASES: Record<string, (text: string) => boolean> = {
+    'lower-case': (text) => text === text.toLowerCase(),
+    'upper-case': (text) => text === text.toUpperCase(),
+    'camel-case': (text) => /^[a-z][a-zA-Z0-9]*$/.test(text),
+    'kebab-case': (text) => /^[a-z0-9]+(-[a-z0-9]+)*$/.test(text),
+    'pascal-case': (text) => /^[A-Z][a-zA-Z0-9]*$/.test(text),
+    'snake-case': (text) => /^[a-z0-9]+(_[a-z0-9]+)*$/.test(text),
+    'sentence-case': (text) => /^[A-Z]/.test(text),
+    'start-case': (text) => text.split(/\s+/).every((word) => /^[^a-z]/.test(word)),
+};
+
+// Cases that mean "starts with a capital letter"
+const CAPITALISED = ['sentence-case', 'start-case', 'pascal-case', 'upper-case'];
+
+// Common non-imperative first words and what they should be
+export const IMPERATIVE_FORMS: Record<string, string> = {
+    added: 'add',
+    adding: 'add',
+    adds: 'add',
+    fixed: 'fix',
+    fixing: 'fix',
+    fixes: 'fix',
+    updated: 'update',
+    updating: 'update',
+    updates: 'update',
+};
+
+// Where each footer goes: breaking changes, issue references, other trailers, co-authors, sign-offs
+const FOOTER_ORDER: RegExp[] = [
+    /^BREAKING[ -]CHANGE/,
+    /^(close[sd]?|fix(e[sd])?|resolve[sd]?|refs?|related|part-of|see-also)(: | #)/i,
+    /^(?!co-authored-by:|signed-off-by:)/i,
+    /^co-authored-by:/i,
+    /^signed-off-by:/i,
+];
+
+// commitlint rules that map onto one of ours, with the condition flipped
+const COMMITLINT_ALIASES: Record<string, { rule: string; when: RuleCondition }> = {
+    'references-empty': { rule: 'references-required', when: 'never' },
+    'type-empty': { rule: 'header-format', when: 'never' },
+    'subject-empty': { rule: 'header-format', when: 'never' },
+};
+
+const isCases = (value: unknown) =>
+    (typeof value === 'string' && value in CASES) ||
+    (Array.isArray(value) && value.length > 0 && value.every((item) => typeof item === 'string' && item in CASES));
+const isList = (value: unknown) => Array.isArray(value) && value.every((item) => typeof item === 'string');
+const isLength = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+/**
+ * Every rule, in the order problems are reported
+ */
+const RULES: Record<string, RuleDefinition> = {
+    'header-empty': {
+        defaults: { level: 'error', when: 'never' },
+        check: (commit) => (commit.header.length === 0 ? ['Subject line is empty'] : []),
+    },
+
+    'header-max-length': {
+        defaults: { level: 'error', when: 'always', value: 72 },
+        expects: 'a positive whole number',
+        accepts: isLength,
+        check: (commit, { value }) => {
+            const max = value as number;
+            return commit.header.length > max ? [`Subject line too long (${commit.header.length} > ${max} characters)`] : [];
+        },
+    },
+
+    'subject-full-stop': {
+        defaults: { level: 'error', when: 'never', value: '.' },
+        negatable: true,
+        expects: 'a string',
+        accepts: (value) => typeof value === 'string' && value.length > 0,
+        check: (commit, { when, value }) => {
+            const stop = value as string;
+            const ends = commit.header.endsWith(stop);
+
+            if (when === 'never' && ends) {
+                return [stop === '.' ? 'Subject line should not end with a period' : `Subject line should not end with "${stop}"`];
+            }
+            return when === 'always' && !ends ? [`Subject line should end with "${stop}"`] : [];
+        },
+    },
+
+    'header-format': {
+        defaults: { level: 'error', when: 'always' },
+        check: (commit) =>
+            commit.type === undefined
+                ? ['Subject does not follow Conventional Commit format: <type>(<scope>): <description> or <type>: <description>']
+                : [],
+    },
+
+    'type-enum': {
+        // No value means the types registered under `types:`
+        defaults: { level: 'error', when: 'always' },
+        negatable: true,
+        expects: 'a list of types',
+        accepts: isList,
+        check: (commit, { when, value }, { types }) => {
+            if (commit.type === undefined) {
+                return [];
+            }
+
+            const allowed = (value as string[] | undefined) ?? types.names();
+            const listed = allowed.includes(commit.type);
+
+            if (when === 'always' && !listed) {
+                return [
+                    `Subject does not follow Conventional Commit format: unknown type "${commit.type}" (use one of ${allowed.join(', ')})`,
+                ];
+            }
+            return when === 'never' && listed ? [`Type "${commit.type}" is not allowed`] : [];
+        },
+    },
+
+    'type-case': {
+        defaults: { level: 'off', when: 'always', value: 'lower-case' },
+        negatable: true,
+        expects: 'a case name or list of case names',
+        accepts: isCases,
+        check: (commit, setting) => (commit.type === undefined ? [] : checkCase('Type', commit.type, setting)),
+    },
+
+    'scope-empty': {
+        defaults: { level: 'off', when: 'never' },
+        negatable: true,
+        check: (commit, { when }) => {
+            if (commit.type === undefined) {
+                return [];
+            }
+            if (when === 'never' && !commit.scope) {
+                return ['Scope is required: <type>(<scope>): <description>'];
+            }
+            return when === 'always' && commit.scope ? ['Scope should be left out'] : [];
+        },
+    },
+
+    'scope-case': {
+        defaults: { level: 'error', when: 'always', value: 'kebab-case' },
+        negatable: true,
+        expects: 'a case name or list of case names',
+        accepts: isCases,
+        check: (commit, setting) => scopes(commit).flatMap((scope) => checkCase('Scope', scope, setting)),
+    },
+
+    'scope-enum': {
+        // An empty list allows any scope
+        defaults: { level: 'off', when: 'always', value: [] },
+        negatable: true,
+        expects: 'a list of scopes',
+        accepts: isList,
+        check: (commit, { when, value }) => {
+            const allowed = value as string[];
+            if (allowed.length === 0) {
+                return [];
+            }
+
+            return scopes(commit).flatMap((scope) => {
+                const listed = allowed.includes(scope);
+                if (when === 'always' && !listed) {
+                    return [`Scope "${scope}" is not one of: ${allowed.join(', ')}`];
+                }
+                return when === 'never' && listed ? [`Scope "${scope}" is not allowed`] : [];
+            });
+        },
+    },
+
+    'subject-case': {
+        defaults: { level: 'warn', when: 'never', value: CAPITALISED },
+        negatable: true,
+        expects: 'a case name or list of case names',
+        accepts: isCases,
+        check: (commit, setting) => {
+            if (!commit.subject) {
+                return [];
+            }
+
+            const problems = checkCase('Subject description', commit.subject, setting);
+            const capitalised = CAPITALISED.some((name) => caseList(setting.value).includes(name));
+
+            // The usual configuration gets the usual advice
+            return problems.length > 0 && setting.when === 'never' && capitalised && /^[A-Z]/.test(commit.subject)
+                ? ['Subject description should start with lowercase letter']
+                : problems;
+        },
+    },
+
+    'subject-imperative': {
+        defaults: { level: 'warn', when: 'always' },
+        check: (commit) => {
+            const firstWord = commit.subject?.split(' ')[0].toLowerCase() ?? '';
+            return firstWord in IMPERATIVE_FORMS
+                ? [`Use imperative mood: "${firstWord}" should be "${IMPERATIVE_FORMS[firstWord]}"`]
+                : [];
+        },
+    },
+
+    'breaking-footer': {
+        defaults: { level: 'warn', when: 'always' },
+        check: (commit) =>
+            commit.breaking && !commit.body.includes('BREAKING CHANGE:')
+                ? ['Breaking change marker (!) present but no BREAKING CHANGE: footer found']
+                : [],
+    },
+
+    'body-leading-blank': {
+        defaults: { level: 'error', when: 'always' },
+        check: (commit) =>
+            commit.lines.length > 1 && commit.lines[1].trim() !== ''
+                ? ['Body must be separated from subject by a blank line']
+                : [],
+    },
+
+    'body-max-line-length': {
+        defaults: { level: 'warn', when: 'always', value: 100 },
+        expects: 'a positive whole number',
+        accepts: isLength,
+        check: (commit, { value }) => {
+            const max = value as number;
+
+            return commit.lines
+                .slice(2)
+                .map((line, index) => ({ line, number: index + 3 }))
+                .filter(({ line }) => line.length > max && !line.startsWith('http'))
+                .map(({ line, number }) => `Body line ${number} is too long (${line.length} > ${max} characters)`);
+        },
+    },
+
+    'footer-leading-blank': {
+        defaults: { level: 'off', when: 'always' },
+        check: (commit) =>
+            commit.footerStart > 1 && commit.lines[commit.footerStart - 1].trim() !== ''
+                ? ['Footer must be separated from the body by a blank line']
+                : [],
+    },
+
+    'footer-order': {
+        defaults: { level: 'warn', when: 'always' },
+        check: (commit) =>
+            LintRules.sortFooters(commit.footers).join('\n') !== commit.footers.join('\n')
+                ? ['Footers should be ordered: BREAKING CHANGE, issue references, other trailers, Co-authored-by, Signed-off-by']
+                : [],
+    },
+
+    'footer-max-line-length': {
+        defaults: { level: 'off', when: 'always', value: 100 },
+        expects: 'a positive whole number',
+        accepts: isLength,
+        check: (commit, { value }) =>
+            commit.footers
+                .filter((line) => line.length > (value as number) && !/https?:\/\//.test(line))
+                .map((line) => `Footer line is too long (${line.length} > ${value} characters): ${line.slice(0, 40)}…`),
+    },
+
+    'breaking-footer-description': {
+        defaults: { level: 'error', when: 'always' },
+        check: (commit) =>
+            commit.footers.some((line) => /^BREAKING[ -]CHANGE:\s*$/.test(line))
+                ? ['BREAKING CHANGE: footer must have a description']
+                : [],
+    },
+
+    'references-required': {
+        defaults: { level: 'off', when: 'always' },
+        check: (commit) =>
+            REFERENCE.test(commit.lines.join('\n')) ? [] : ['Reference an issue, e.g. "Refs: #123" in the footer'],
+    },
+
+    'signed-off-by': {
+        defaults: { level: 'off', when: 'always', value: 'Signed-off-by:' },
+        expects: 'a trailer prefix such as "Signed-off-by:"',
+        accepts: (value) => typeof value === 'string' && value.length > 0,
+        check: (commit, { value }) =>
+            commit.footers.some((line) => line.startsWith(value as string))
+                ? []
+                : [`Add a "${value}" trailer (git commit -s)`],
+    },
+};
+
+/**
+ * LintRules holds the severity and options of every lint rule. It starts
+ * from the built-in defaults, then applies a shared commitlint config
+ * (`lint.extends`) and finally the rules under `lint.rules` in .aicmt.yaml.
+ */
+export class LintRules {
+    private settings = new Map<string, RuleSetting>();
+
+    constructor(rules: Record<string, RuleConfig> = {}) {
+        for (const [name, rule] of Object.entries(RULES)) {
+            this.settings.set(name, { ...rule.defaults });
+        }
+
+        for (const [name, config] of Object.entries(rules)) {
+            const problem = LintRules.problem(name, config);
+            if (problem) {
+                throw new ConfigError(`Invalid lint rule: ${problem}`, {
+                    suggestion: 'Check the lint section of your .aicmt.yaml or the commitlint config it extends',
+                });
+            }
+
+            this.settings.set(name, LintRules.parse(name, config));
+        }
+    }
+
+    /**
+     * Rules from the `lint:` section, loading the commitlint file it extends.
+     * ConfigService makes that path absolute; any other is relative to `cwd`.
+     */
+    static fromConfig(config: LintConfig = {}, cwd: string = process.cwd()): LintRules {
+        const shared = config.extends ? LintRules.loadCommitlint(path.resolve(cwd, config.extends)) : {};
+        return new LintRules({ ...shared, ...config.rules });
+    }
+
+    /**
+     * Read the rules of a commitlint config in JSON or YAML (.commitlintrc,
+     * .commitlintrc.json, .commitlintrc.yaml) or the `commitlint` key of a
+     * package.json. Rules aicmt does not implement are skipped.
+     */
+    static loadCommitlint(file: string): Record<string, RuleConfig> {
+        if (/\.[cm]?[jt]s$/.test(file)) {
+            throw new ConfigError(`Cannot load ${file}: JavaScript commitlint configs are not supported`, {
+                file,
+                suggestion: 'Move the rules to .commitlintrc.json or .commitlintrc.yaml and extend that instead',
+            });
+        }
+
+        let config: { rules?: Record<string, RuleConfig>; extends?: unknown };
+        try {
+            const content = yaml.load(fs.readFileSync(file, 'utf-8')) as Record<string, unknown> | undefined;
+            config = ((path.basename(file) === 'package.json' ? content?.commitlint : content) ?? {}) as typeof config;
+        } catch (error) {
+            throw new ConfigError(`Cannot load commitlint config ${file}: ${(error as Error).message}`, {
+                file,
+                suggestion: 'Check lint.extends in your .aicmt.yaml',
+            });
+        }
+
+        if (config.extends) {
+            logger.debug('Presets extended by the commitlint config are not loaded', { file, extends: config.extends });
+        }
+
+        const rules: Record<string, RuleConfig> = {};
+        for (const [name, rule] of Object.entries(config.rules ?? {})) {
+            const alias = COMMITLINT_ALIASES[name];
+
+            if (alias) {
+                // commitlint's condition defaults to always; only the one aicmt can check carries over
+                const [level, when = 'always'] = Array.isArray(rule) ? rule : [rule];
+                if (when === alias.when || level === 0 || level === 'off') {
+                    rules[alias.rule] = [level, 'always'];
+                } else {
+                    logger.debug(`Skipping commitlint rule aicmt cannot check: ${name} ${when}`);
+                }
+            } else if (name in RULES) {
+                rules[name] = rule;
+            } else {
+                logger.debug(`Skipping commitlint rule aicmt does not implement: ${name}`);
+            }
+        }
+
+        return rules;
+    }
+
+    /**
+     * Why a rule's configuration is invalid, or undefined when it is fine
+     */
+    static problem(name: string, config: unknown): string | undefined {
+        const rule = RULES[name];
+        if (!rule) {
+            return `${name} is not a known rule`;
+        }
+
+        const parts = Array.isArray(config) ? config : [config];
+        if (!(String(parts[0]) in LEVELS) || parts.length > 3) {
+            return `${name} must be a level (off, warn, error) or a list of [level, always|never, value]`;
+        }
+
+        const setting = LintRules.parse(name, config as RuleConfig);
+        if (!rule.negatable && setting.when !== rule.defaults.when) {
+            return `${name} does not support "${setting.when}"`;
+        }
+        if (setting.value !== undefined && rule.accepts && !rule.accepts(setting.value)) {
+            return `${name} value must be ${rule.expects}`;
+        }
+        if (setting.value !== undefined && !rule.accepts) {
+            return `${name} takes no value`;
+        }
+
+        return undefined;
+    }
+
+    get(name: string): RuleSetting | undefined {
+        return this.settings.get(name);
+    }
+
+    /**
+     * Rule names in the order problems are reported
+     */
+    static names(): string[] {
+        return Object.keys(RULES);
+    }
+
+    /**
+     * Run every enabled rule over a message
+     */
+    check(message: string, context: RuleContext, overrides: Record<string, Partial<RuleSetting>> = {}): LintProblem[] {
+        const commit = LintRules.parseCommit(message, context);
+        const problems: LintProblem[] = [];
+
+        for (const [name, rule] of Object.entries(RULES)) {
+            const setting = { ...this.settings.get(name)!, ...overrides[name] };
+            if (setting.level === 'off') {
+                continue;
+            }
+
+            for (const text of rule.check(commit, setting, context)) {
+                problems.push({ rule: name, level: setting.level, message: text });
+            }
+
+            // Nothing else can be said about an empty message
+            if (name === 'header-empty' && commit.header.length === 0) {
+                break;
+            }
+        }
+
+        return problems;
+    }
+
+    /**
+     * Footers in the order footer-order expects; lines in the same group keep their order
+     */
+    static sortFooters(footers: string[]): string[] {
+        const rank = (line: string) => FOOTER_ORDER.findIndex((pattern) => pattern.test(line));
+        return [...footers].sort((a, b) => rank(a) - rank(b));
+    }
+
+    static parseCommit(message: string, context: RuleContext): ParsedCommit {
+        const lines = message.trim().split('\n');
+        const header = lines[0];
+        const match = (context.allowEmoji ? context.types.stripEmoji(header) : header).match(HEADER);
+
+        // The footers are the trailer lines that end the message
+        let footerStart = lines.length;
+        while (footerStart > 2 && FOOTER.test(lines[footerStart - 1])) {
+            footerStart--;
+        }
+
+        return {
+            header,
+            type: match?.[1],
+            scope: match?.[2],
+            breaking: !!match?.[3],
+            subject: match?.[4],
+            lines,
+            body: lines.slice(2).join('\n'),
+            footers: lines.slice(footerStart),
+            footerStart: footerStart < lines.length ? footerStart : -1,
+        };
+    }
+
+    /**
+     * Turn a rule configuration into a setting, keeping the default
+     * condition and value for whatever is left out
+     */
+    private static parse(name: string, config: RuleConfig): RuleSetting {
+        const defaults = RULES[name].defaults;
+        const [level, ...rest] = Array.isArray(config) ? config : [config];
+        const when = rest[0] === 'always' || rest[0] === 'never' ? (rest.shift() as RuleCondition) : defaults.when;
+
+        return {
+            level: LEVELS[String(level)],
+            when,
+            value: rest.length > 0 ? rest[0] : defaults.value,
+        };
+    }
+}
+
+/**
+ * Scopes listed in the header; "api,web" and "api/users" name several
+ */
+function scopes(commit: ParsedCommit): string[] {
+    return commit.scope ? commit.scope.split(/[,/\\]\s*/).filter(Boolean) : [];
+}
+
+function caseList(value: unknown): string[] {
+    return Array.isArray(value) ? value : [value as string];
+}
+
+function checkCase(what: string, text: string, { when, value }: RuleSetting): string[] {
+    const names = caseList(value);
+    const matched = names.find((name) => CASES[name]?.(text));
+
+    if (when === 'always' && !matched) {
+        return [`${what} "${text}" should be ${names.join(' or ')}`];
+    }
+    return when === 'never' && matched ? [`${what} "${text}" should not be ${matched}`] : [];
+}
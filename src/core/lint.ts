@@ -0,0 +1,112 @@
+import { CommitTypeRegistry } from './commit-types.js';
+import { LintProblem, LintRules, RuleSetting } from './lint-rules.js';
+
+export interface LintOptions {
+    maxLength?: number;
+    allowEmoji?: boolean;
+    allowGenerated?: boolean; // Accept subjects git writes itself, such as merges and fixups
+}
+
+export interface LintResult {
+    valid: boolean;
+    errors: string[];
+    warnings: string[];
+    problems: LintProblem[]; // Every error and warning, with the rule that raised it
+}
+
+// git's marker for "ignore everything below", written by `git commit --verbose`
+const SCISSORS = '------------------------ >8 ------------------------';
+
+// Characters git picks from when core.commentChar is "auto"
+const AUTO_COMMENT_CHARS = '#;@!$%^&|:';
+
+// Subjects written by git (or a forge's merge button) rather than by a person
+const GENERATED_SUBJECTS = [
+    /^Merge (branch|branches|remote-tracking branch|tag|commit|pull request) /,
+    /^Merge [0-9a-f]{7,40}( into .+)?$/,
+    /^Revert ".+"$/,
+    /^(fixup|squash|amend)! /,
+];
+
+/**
+ * CommitLinter checks commit messages against Conventional Commit rules.
+ * Which rules run, and how severe they are, is set by LintRules.
+ */
+export class CommitLinter {
+    constructor(
+        private types: CommitTypeRegistry = new CommitTypeRegistry(),
+        private rules: LintRules = new LintRules()
+    ) { }
+
+    /**
+     * Lint a commit message
+     */
+    lint(message: string, options: LintOptions = {}): LintResult {
+        const subject = message.trim().split('\n')[0];
+
+        if (options.allowGenerated && CommitLinter.isGenerated(subject)) {
+            return { valid: true, errors: [], warnings: [], problems: [] };
+        }
+
+        // A --max-length given on the command line wins over the configured one
+        const overrides: Record<string, Partial<RuleSetting>> =
+            options.maxLength !== undefined ? { 'header-max-length': { value: options.maxLength } } : {};
+        const problems = this.rules.check(
+            message,
+            { types: this.types, allowEmoji: options.allowEmoji ?? true },
+            overrides
+        );
+
+        const errors = problems.filter((problem) => problem.level === 'error').map((problem) => problem.message);
+        const warnings = problems.filter((problem) => problem.level === 'warn').map((problem) => problem.message);
+
+        return {
+            valid: errors.length === 0,
+            errors,
+            warnings,
+            problems,
+        };
+    }
+
+    /**
+     * Whether git wrote the subject, e.g. "Merge branch 'main'" or "fixup! feat: add login"
+     */
+    static isGenerated(subject: string): boolean {
+        return GENERATED_SUBJECTS.some((pattern) => pattern.test(subject));
+    }
+
+    /**
+     * Clean a message buffer the way `git commit` does before saving it: drop
+     * comment lines and everything below the scissors line, trailing spaces,
+     * and repeated or surrounding blank lines. With a comment char of "auto",
+     * the one git picked is recognised by its scissors or instruction lines.
+     */
+    static stripComments(message: string, commentChar: string = '#'): string {
+        const lines = message.replace(/\r\n/g, '\n').split('\n');
+        const char = commentChar === 'auto' ? CommitLinter.detectCommentChar(lines) : commentChar;
+
+        const scissors = lines.indexOf(`${char} ${SCISSORS}`);
+        const kept = (scissors === -1 ? lines : lines.slice(0, scissors))
+            .filter((line) => !line.startsWith(char))
+            .map((line) => line.trimEnd());
+
+        return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+    }
+
+    private static detectCommentChar(lines: string[]): string {
+        const found = lines.find(
+            (line) =>
+                AUTO_COMMENT_CHARS.includes(line[0]) &&
+                (line.slice(2) === SCISSORS || line.slice(2).startsWith('Please enter the commit message'))
+        );
+
+        return found ? found[0] : '#';
+    }
+
+    /**
+     * Score a lint result for ranking (lower is better)
+     */
+    score(result: LintResult): number {
+        return result.errors.length * 10 + result.warnings.length;
+    }
+}
@@ -1,8 +1,12 @@
 import { ModelProvider } from './model.js';
 import { OpenAIProvider } from '../providers/openai.js';
+import { OllamaProvider } from '../providers/ollama.js';
+import { AnthropicProvider } from '../providers/anthropic.js';
 import { ConfigService } from './config.js';
 import { logger } from '../utils/logger.js';
 
+export const SUPPORTED_PROVIDERS = ['openai', 'azure', 'anthropic', 'ollama'];
+
 export class ModelFactory {
     /**
      * Create a model provider from configuration
@@ -25,12 +29,18 @@ export class ModelFactory {
             model: modelName,
             temperature,
             maxTokens,
+            contextWindow: modelConfig.context_window,
+            baseURL: modelConfig.base_url,
         });
 
         return ModelFactory.create(provider, {
             model: modelName,
             temperature,
             maxTokens,
+            contextWindow: modelConfig.context_window,
+            baseURL: modelConfig.base_url,
+            apiVersion: modelConfig.api_version,
+            deployment: modelConfig.deployment,
         });
     }
 
@@ -43,7 +53,11 @@ export class ModelFactory {
             model: string;
             temperature?: number;
             maxTokens?: number;
+            contextWindow?: number;
             apiKey?: string;
+            baseURL?: string;
+            apiVersion?: string;
+            deployment?: string;
         }
     ): ModelProvider {
         switch (provider.toLowerCase()) {
@@ -52,12 +66,45 @@ export class ModelFactory {
                     model: options.model,
                     temperature: options.temperature,
                     maxTokens: options.maxTokens,
+                    contextWindow: options.contextWindow,
+                    apiKey: options.apiKey,
+                    baseURL: options.baseURL,
+                });
+
+            case 'azure':
+                return new OpenAIProvider({
+                    model: options.model,
+                    temperature: options.temperature,
+                    maxTokens: options.maxTokens,
+                    contextWindow: options.contextWindow,
+                    apiKey: options.apiKey,
+                    baseURL: options.baseURL,
+                    azure: true,
+                    apiVersion: options.apiVersion,
+                    deployment: options.deployment,
+                });
+
+            case 'anthropic':
+                return new AnthropicProvider({
+                    model: options.model,
+                    temperature: options.temperature,
+                    maxTokens: options.maxTokens,
+                    contextWindow: options.contextWindow,
                     apiKey: options.apiKey,
                 });
 
+            case 'ollama':
+                return new OllamaProvider({
+                    model: options.model,
+                    temperature: options.temperature,
+                    maxTokens: options.maxTokens,
+                    contextWindow: options.contextWindow,
+                    host: options.baseURL,
+                });
+
             default:
                 throw new Error(
-                    `Unsupported model provider: ${provider}. Supported providers: openai`
+                    `Unsupported model provider: ${provider}. Supported providers: ${SUPPORTED_PROVIDERS.join(', ')}`
                 );
         }
     }
@@ -83,7 +130,9 @@ export class ModelFactory {
     }
 
     /**
-     * Create provider from model string
+     * Create provider from model string. The endpoint and context window
+     * settings in the configuration still apply when the string names the
+     * configured provider.
      */
     static createFromString(
         modelString: string,
@@ -91,15 +140,26 @@ export class ModelFactory {
             temperature?: number;
             maxTokens?: number;
             apiKey?: string;
-        }
+            baseURL?: string;
+            apiVersion?: string;
+            deployment?: string;
+            contextWindow?: number;
+        },
+        config?: ConfigService
     ): ModelProvider {
         const { provider, model } = ModelFactory.parseModelString(modelString);
+        const modelConfig = (config || new ConfigService()).getValue('model');
+        const configured = modelConfig && (modelConfig.provider || 'openai') === provider ? modelConfig : {};
 
         return ModelFactory.create(provider, {
             model,
             temperature: options?.temperature,
             maxTokens: options?.maxTokens,
             apiKey: options?.apiKey,
+            baseURL: options?.baseURL ?? configured.base_url,
+            apiVersion: options?.apiVersion ?? configured.api_version,
+            deployment: options?.deployment ?? configured.deployment,
+            contextWindow: options?.contextWindow ?? configured.context_window,
         });
     }
 }
@@ -1,10 +1,32 @@
+import { TokenEstimator } from './tokens.js';
+import { logger } from '../utils/logger.js';
+
 export interface Message {
     role: 'system' | 'user' | 'assistant';
     content: string;
 }
 
+export interface CompletionOptions {
+    temperature?: number; // Overrides the provider's configured temperature
+}
+
 export interface ModelProvider {
-    complete(messages: Message[]): Promise<string>;
+    complete(messages: Message[], options?: CompletionOptions): Promise<string>;
+
+    /**
+     * Yield the response incrementally as tokens arrive (optional)
+     */
+    stream?(messages: Message[]): AsyncIterable<string>;
+
+    /**
+     * Generate several alternative completions in one request (optional)
+     */
+    candidates?(messages: Message[], n: number): Promise<string[]>;
+
+    /**
+     * Token counts and context window for the configured model (optional)
+     */
+    tokenEstimator?(): TokenEstimator;
 }
 
 export interface ModelConfig {
@@ -13,3 +35,79 @@ export interface ModelConfig {
     maxTokens?: number;
     temperature?: number;
 }
+
+/**
+ * Generate a completion, passing each token to `onToken` as it arrives when
+ * the provider supports streaming. Falls back to `complete` otherwise.
+ */
+export async function completeStreaming(
+    provider: ModelProvider,
+    messages: Message[],
+    onToken?: (token: string) => void
+): Promise<string> {
+    if (!onToken || !provider.stream) {
+        return provider.complete(messages);
+    }
+
+    let content = '';
+    for await (const token of provider.stream(messages)) {
+        content += token;
+        onToken(token);
+    }
+
+    return content.trim();
+}
+
+/**
+ * Generate a completion with a spinner counting the tokens received when
+ * `label` is given. The response is structured output for the parser, so the
+ * tokens themselves are not echoed.
+ */
+export async function completeWithProgress(
+    provider: ModelProvider,
+    messages: Message[],
+    label?: string
+): Promise<string> {
+    if (!label || !provider.stream) {
+        return provider.complete(messages);
+    }
+
+    let received = 0;
+    const stop = logger.spinner(() => `${label} (${received} tokens)`);
+    try {
+        return await completeStreaming(provider, messages, () => {
+            received++;
+        });
+    } finally {
+        stop();
+    }
+}
+
+/**
+ * Generate up to `n` distinct completions. Uses the provider's native
+ * multi-choice support when available, otherwise repeats the request at
+ * increasing temperatures so the alternatives actually differ.
+ */
+export async function generateCandidates(
+    provider: ModelProvider,
+    messages: Message[],
+    n: number
+): Promise<string[]> {
+    let results: string[];
+
+    if (n <= 1) {
+        results = [await provider.complete(messages)];
+    } else if (provider.candidates) {
+        results = await provider.candidates(messages, n);
+    } else {
+        results = await Promise.all(
+            Array.from({ length: n }, (_, i) =>
+                i === 0
+                    ? provider.complete(messages)
+                    : provider.complete(messages, { temperature: Math.min(0.2 + i * 0.3, 1) })
+            )
+        );
+    }
+
+    return [...new Set(results.map((r) => r.trim()).filter(Boolean))];
+}
@@ -0,0 +1,203 @@
+export interface PRSections {
+    summary?: string;
+    changes: string[];
+    breaking?: string;
+    migration: string[];
+    testing?: string;
+    screenshots?: string;
+    notes?: string;
+}
+
+export interface ParsedPR {
+    sections: PRSections;
+    source: 'json' | 'markdown';
+    warnings: string[];
+}
+
+type SectionKey = keyof PRSections;
+
+// Sections every PR description must have
+export const REQUIRED_PR_SECTIONS: SectionKey[] = ['summary', 'changes'];
+
+const HEADING = /^#{1,6}\s+(.+?)\s*#*$/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/;
+
+// First match wins, so more specific headings come first
+const SECTION_HEADINGS: Array<[RegExp, SectionKey]> = [
+    [/breaking/i, 'breaking'],
+    [/migrat|upgrade/i, 'migration'],
+    [/summary|overview|description/i, 'summary'],
+    [/changes|what changed/i, 'changes'],
+    [/test/i, 'testing'],
+    [/screenshot/i, 'screenshots'],
+    [/notes/i, 'notes'],
+];
+
+/**
+ * Turns model output into the sections PRRenderer knows about.
+ *
+ * The prompt asks for JSON; markdown with the usual headings is accepted
+ * as a fallback.
+ */
+export class PRParser {
+    parse(output: string): ParsedPR {
+        const text = this.stripFences(output).trim();
+        const warnings: string[] = [];
+
+        if (text.startsWith('{')) {
+            const sections = this.parseJSON(text, warnings);
+            if (sections) {
+                return { sections, source: 'json', warnings };
+            }
+        }
+
+        return { sections: this.parseMarkdown(text), source: 'markdown', warnings };
+    }
+
+    /**
+     * List the required sections that are missing or empty
+     */
+    validate(sections: PRSections): string[] {
+        return REQUIRED_PR_SECTIONS.filter((key) => {
+            const value = sections[key];
+            return Array.isArray(value) ? value.length === 0 : !value;
+        });
+    }
+
+    private parseJSON(text: string, warnings: string[]): PRSections | undefined {
+        let data: unknown;
+        try {
+            data = JSON.parse(text.slice(0, text.lastIndexOf('}') + 1));
+        } catch {
+            warnings.push('Model returned malformed JSON; reading it as markdown');
+            return undefined;
+        }
+
+        if (!data || typeof data !== 'object' || Array.isArray(data)) {
+            warnings.push('Model returned JSON that is not an object; reading it as markdown');
+            return undefined;
+        }
+
+        const fields = data as Record<string, unknown>;
+
+        return {
+            summary: this.optionalText(fields.summary),
+            changes: this.list(fields.changes),
+            breaking: this.optionalText(fields.breaking),
+            migration: this.list(fields.migration),
+            testing: this.optionalText(fields.testing),
+            screenshots: this.optionalText(fields.screenshots),
+            notes: this.optionalText(fields.notes),
+        };
+    }
+
+    private parseMarkdown(markdown: string): PRSections {
+        const blocks = new Map<SectionKey, string[]>();
+        const extra: string[] = [];
+        let current: SectionKey | undefined;
+        let unknown = false;
+
+        for (const line of markdown.split('\n')) {
+            const heading = HEADING.exec(line);
+
+            if (heading) {
+                const key = SECTION_HEADINGS.find(([pattern]) => pattern.test(heading[1]))?.[1];
+
+                if (key) {
+                    current = key;
+                    unknown = false;
+                    blocks.set(key, blocks.get(key) || []);
+                } else if (!line.startsWith('# ') || blocks.size > 0) {
+                    // Keep sections we have no slot for as notes rather than dropping them
+                    current = undefined;
+                    unknown = true;
+                    extra.push('', `### ${heading[1]}`);
+                }
+                // A top-level title before any section is dropped
+                continue;
+            }
+
+            if (unknown) {
+                extra.push(line);
+            } else {
+                const key = current || 'summary';
+                blocks.set(key, [...(blocks.get(key) || []), line]);
+            }
+        }
+
+        const text = (key: SectionKey): string | undefined => blocks.get(key)?.join('\n').trim() || undefined;
+        const notes = [text('notes'), extra.join('\n').trim()].filter(Boolean).join('\n\n');
+
+        return {
+            summary: text('summary'),
+            changes: this.listItems(text('changes')),
+            breaking: text('breaking'),
+            migration: this.listItems(text('migration')),
+            testing: text('testing'),
+            screenshots: text('screenshots'),
+            notes: notes || undefined,
+        };
+    }
+
+    /**
+     * Collect list items, folding wrapped continuation lines into the item
+     * they belong to. Paragraphs without list markers become single items.
+     */
+    private listItems(text?: string): string[] {
+        if (!text) {
+            return [];
+        }
+
+        const items: string[] = [];
+        let continuing = false;
+
+        for (const line of text.split('\n')) {
+            const item = LIST_ITEM.exec(line);
+
+            if (item) {
+                items.push(item[1].trim());
+                continuing = true;
+            } else if (!line.trim()) {
+                continuing = false;
+            } else if (continuing) {
+                items[items.length - 1] += ` ${line.trim()}`;
+            } else {
+                items.push(line.trim());
+                continuing = true;
+            }
+        }
+
+        return items.filter(Boolean);
+    }
+
+    /**
+     * Accept either a list or a block of text for list sections
+     */
+    private list(value: unknown): string[] {
+        if (Array.isArray(value)) {
+            return value.map((item) => this.optionalText(item)).filter((item): item is string => !!item);
+        }
+        return this.listItems(this.optionalText(value));
+    }
+
+    private optionalText(value: unknown): string | undefined {
+        if (typeof value === 'number') {
+            return String(value);
+        }
+        return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+    }
+
+    /**
+     * Unwrap a fenced JSON block anywhere in the output, or a fence around
+     * the whole output. Code blocks inside markdown sections are left alone.
+     */
+    private stripFences(output: string): string {
+        const json = /```json\n([\s\S]*?)\n?```/.exec(output);
+        if (json) {
+            return json[1];
+        }
+
+        const fenced = /^```(?:markdown|md)?\n([\s\S]*?)\n?```\s*$/.exec(output.trim());
+        return fenced ? fenced[1] : output;
+    }
+}
@@ -1,9 +1,23 @@
-import { ContextAnalysis } from './context.js';
+import { DiffBudgeter } from './budget.js';
+import { CommitTypeRegistry } from './commit-types.js';
+import { ContextAnalysis, FileAnalysis } from './context.js';
 import { Message } from './model.js';
 import { RedactionService } from './redact.js';
+import { StyleProfile } from './style.js';
+import { ChunkSummary, DiffChunk } from './summarize.js';
+import { TokenEstimator } from './tokens.js';
 import { logger } from '../utils/logger.js';
 
-export interface PromptOptions {
+export interface DiffBudgetOptions {
+    tokens?: TokenEstimator; // The provider's estimator; the diff is sized to fit its context window
+    maxDiffTokens?: number; // Upper bound on diff tokens even when the window has more room
+}
+
+export interface PRPromptOptions extends DiffBudgetOptions {
+    summaries?: ChunkSummary[]; // Stand in for the diff when it was summarized in chunks
+}
+
+export interface PromptOptions extends DiffBudgetOptions {
     width?: number;
     emoji?: boolean;
     type?: string;
@@ -11,13 +25,16 @@ export interface PromptOptions {
     breaking?: boolean;
     issue?: string;
     includeDiff?: boolean;
-    maxDiffLines?: number;
+    style?: StyleProfile; // Learned from the repository's history
 }
 
+const DEFAULT_COMMIT_DIFF_TOKENS = 1500;
+export const DEFAULT_PR_DIFF_TOKENS = 6000;
+
 export class PromptBuilder {
     private redactionService: RedactionService;
 
-    constructor() {
+    constructor(private types: CommitTypeRegistry = new CommitTypeRegistry()) {
         this.redactionService = new RedactionService();
     }
 
@@ -26,7 +43,12 @@ export class PromptBuilder {
      */
     buildCommitPrompt(context: ContextAnalysis, options: PromptOptions, diff?: string): Message[] {
         const systemMessage = this.getCommitSystemPrompt(options);
-        const userMessage = this.getCommitUserMessage(context, options, diff);
+        let userMessage = this.getCommitUserMessage(context, options);
+
+        // Include diff if provided and requested
+        if (diff && options.includeDiff) {
+            userMessage += this.describeDiff(diff, [systemMessage, userMessage], options, DEFAULT_COMMIT_DIFF_TOKENS);
+        }
 
         return [
             { role: 'system', content: systemMessage },
@@ -41,10 +63,63 @@ export class PromptBuilder {
         context: ContextAnalysis,
         baseBranch: string,
         headBranch: string,
-        diff?: string
+        diff?: string,
+        options: PRPromptOptions = {}
     ): Message[] {
         const systemMessage = this.getPRSystemPrompt();
-        const userMessage = this.getPRUserMessage(context, baseBranch, headBranch, diff);
+        let userMessage = this.getPRUserMessage(context, baseBranch, headBranch);
+
+        // Summaries of a chunked diff replace the diff preview
+        if (options.summaries && options.summaries.length > 0) {
+            userMessage += `\nSummaries of the changes, by area:\n`;
+            userMessage += options.summaries
+                .map((part) => `\n### ${part.name} (${part.files.length} files)\n${part.summary}\n`)
+                .join('');
+        } else if (diff) {
+            userMessage += this.describeDiff(diff, [systemMessage, userMessage], options, DEFAULT_PR_DIFF_TOKENS);
+        }
+
+        return [
+            { role: 'system', content: systemMessage },
+            { role: 'user', content: userMessage },
+        ];
+    }
+
+    /**
+     * Build the prompt that summarizes one chunk of a large PR diff
+     */
+    buildChunkSummaryPrompt(chunk: DiffChunk, options: DiffBudgetOptions = {}): Message[] {
+        const systemMessage = `You summarize one part of a large pull request so the full description can be written from the summaries.
+
+Describe what changed in this part and why, in 2-5 short bullet points.
+Name functions, classes, flags or APIs that were added, removed or renamed.
+Mention anything that could break existing users.
+Return only the bullet points.`;
+
+        let userMessage = `Summarize the changes to ${chunk.name}.\n\n`;
+        userMessage += `Files (${chunk.files.length}):\n${chunk.files.map((file) => `- ${file}`).join('\n')}\n`;
+        userMessage += this.describeDiff(chunk.diff, [systemMessage, userMessage], options, DEFAULT_PR_DIFF_TOKENS);
+
+        return [
+            { role: 'system', content: systemMessage },
+            { role: 'user', content: userMessage },
+        ];
+    }
+
+    /**
+     * Build the prompt that rewrites a commit message lint-commit could not fix mechanically
+     */
+    buildFixPrompt(message: string, problems: string[], width: number = 72): Message[] {
+        const systemMessage = `You fix commit messages that break a repository's commit message rules.
+
+Rewrite the message so every listed problem is gone, and change nothing else:
+1. Keep what the message says; do not invent details
+2. Use Conventional Commit format: <type>(<scope>): <description>
+3. type is one of: ${this.types.names().join(', ')}
+4. Keep the body and footers, such as "Refs: #123", wrapped at ${width} characters
+Return only the commit message, no markdown fences or explanation.`;
+
+        const userMessage = `Problems:\n${problems.map((problem) => `- ${problem}`).join('\n')}\n\nMessage:\n${message}`;
 
         return [
             { role: 'system', content: systemMessage },
@@ -53,23 +128,76 @@ export class PromptBuilder {
     }
 
     private getCommitSystemPrompt(options: PromptOptions): string {
+        const width = options.width || 72;
+        const types = this.types.all();
+
         return `You are an expert at writing Conventional Commit messages.
 
-Generate a commit message following these rules:
-1. Format: <type>(<scope>): <subject>
-2. Types: feat, fix, docs, style, refactor, perf, test, chore
-3. Subject line max ${options.width || 72} characters
-4. No period at end of subject
+Describe the changes as a JSON object with this shape:
+{
+  "type": "feat",
+  "scope": "auth",
+  "subject": "add token refresh",
+  "body": "Explain what changed and why.",
+  "breaking_description": null,
+  "footers": []
+}
+
+Follow these rules:
+1. type is one of: ${types.map((type) => type.name).join(', ')}
+2. scope is a short lowercase area of the codebase, or null
+3. Subject line max ${width} characters including the "type(scope): " prefix
+4. No period at end of subject, and do not repeat the type or scope in it
 5. Use imperative mood (e.g., "add" not "added")
-6. Body should explain what and why, not how
-7. Wrap body at ${options.width || 72} characters
-${options.breaking ? '8. Include BREAKING CHANGE: footer if applicable' : ''}
-${options.emoji ? '9. Prepend emoji: feat 🚀, fix 🐛, docs 📝, refactor ♻️, test ✅, perf ⚡, chore 🧹' : ''}
+6. Body should explain what and why, not how; use null if the subject says it all
+7. Wrap body at ${width} characters
+8. footers holds git trailers such as "Refs: #123"
+${options.breaking ? '9. Fill in breaking_description; it becomes the BREAKING CHANGE: footer' : '9. Leave breaking_description null unless the change breaks existing users'}
+
+Commit types:
+${types.map((type) => `- ${type.name}: ${type.description}`).join('\n')}
+${options.style ? this.describeStyle(options.style) : ''}
+Return only the JSON object, no markdown fences or explanation.`;
+    }
+
+    /**
+     * Describe the repository's own commit conventions, with recent commits as
+     * examples, so the message matches what is already in the log
+     */
+    private describeStyle(style: StyleProfile): string {
+        const percent = (share: number): string => `${Math.round(share * 100)}%`;
+        const scopes = Object.entries(style.scopes)
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, 10)
+            .map(([scope]) => scope);
+
+        const conventions = [
+            `Subjects average ${style.subjectLength.average} characters (longest ${style.subjectLength.max})`,
+            style.casing === 'mixed'
+                ? 'Subjects start with either case'
+                : `Subjects start with ${style.casing === 'lower' ? 'a lowercase' : 'an uppercase'} letter`,
+            `${percent(style.bodies)} of commits have a body`,
+            style.emoji > 0 ? `${percent(style.emoji)} of subjects use an emoji` : 'Subjects never use emoji',
+        ];
+        if (scopes.length > 0) {
+            conventions.unshift(`Scopes in use: ${scopes.join(', ')}`);
+        }
+        if (style.ticketFooter) {
+            conventions.push(`Issues are referenced with a "${style.ticketFooter}" footer`);
+        }
+
+        let message = `\nThis repository's conventions (from its last ${style.commits} commits):\n`;
+        message += conventions.map((line) => `- ${line}`).join('\n') + '\n';
 
-Return only the commit message, no explanation.`;
+        if (style.examples.length > 0) {
+            message += `\nRecent commits, as examples of the style to match:\n`;
+            message += style.examples.map((example) => `---\n${example}`).join('\n') + '\n---\n';
+        }
+
+        return message;
     }
 
-    private getCommitUserMessage(context: ContextAnalysis, options: PromptOptions, diff?: string): string {
+    private getCommitUserMessage(context: ContextAnalysis, options: PromptOptions): string {
         let message = `Generate a commit message for these changes:\n\n`;
         message += `Summary: ${context.summary}\n\n`;
 
@@ -77,6 +205,9 @@ Return only the commit message, no explanation.`;
             message += `Type: ${options.type}\n`;
         } else if (context.type) {
             message += `Detected type: ${context.type.type} (confidence: ${(context.type.confidence * 100).toFixed(0)}%)\n`;
+            if (context.type.reasons.length > 0) {
+                message += `Type evidence: ${context.type.reasons.join('; ')}\n`;
+            }
         }
 
         if (options.scope) {
@@ -87,24 +218,23 @@ Return only the commit message, no explanation.`;
 
         message += `\nFiles changed (${context.files.length}):\n`;
         context.files.forEach((file) => {
-            message += `- ${file.path} (+${file.additions}/-${file.deletions}) [${file.magnitude}]`;
+            message += `- ${file.path} ${this.describeCounts(file)} [${file.magnitude}]`;
             if (file.keywords.length > 0) {
                 message += ` - keywords: ${file.keywords.slice(0, 3).join(', ')}`;
             }
             message += `\n`;
+            if (file.binary || file.lfs || file.submodule || file.mode) {
+                message += `  ${file.summary}\n`;
+            }
+            message += this.describeSubmoduleLog(file);
+            message += this.describeSymbols(file);
         });
+        message += this.listIgnored(context);
 
         // Include breaking change info
         if (context.breaking) {
-            message += `\n⚠️ Breaking changes detected\n`;
-        }
-
-        // Include diff if provided and requested
-        if (diff && options.includeDiff) {
-            const redactedDiff = this.redactionService.redactDiff(diff);
-            const truncatedDiff = this.truncateDiff(redactedDiff, options.maxDiffLines || 100);
-            message += `\nDiff preview:\n\`\`\`diff\n${truncatedDiff}\n\`\`\`\n`;
-            logger.debug(`Included ${truncatedDiff.split('\n').length} lines of diff in prompt`);
+            message += `\n⚠️ Possible breaking changes detected\n`;
+            message += this.listBreakingChanges(context, 'breaking_description');
         }
 
         if (options.issue && options.issue !== 'off') {
@@ -114,66 +244,178 @@ Return only the commit message, no explanation.`;
         return message;
     }
 
+    /**
+     * List possible breaking changes found by the detector. The detector is a
+     * heuristic, so the model decides whether they go in the field.
+     */
+    private listBreakingChanges(context: ContextAnalysis, field: string): string {
+        const items = context.breakingChanges || [];
+
+        if (items.length === 0) {
+            return '';
+        }
+
+        return (
+            `If these break existing users, describe them in "${field}"; otherwise leave it null:\n` +
+            `${items.map((item) => `- ${item}`).join('\n')}\n`
+        );
+    }
+
+    /**
+     * Describe the declarations a file's diff touches, e.g.
+     * "modified `GitService.getDiff`, added class `Cache`"
+     */
+    private describeSymbols(file: FileAnalysis, limit = 8): string {
+        const symbols = file.symbols || [];
+
+        if (symbols.length === 0) {
+            return '';
+        }
+
+        const described = symbols.slice(0, limit).map((symbol) => {
+            const kind = symbol.kind === 'function' ? '' : `${symbol.kind} `;
+            return `${symbol.change} ${kind}\`${symbol.name}\``;
+        });
+
+        if (symbols.length > limit) {
+            described.push(`${symbols.length - limit} more`);
+        }
+
+        let message = `  symbols: ${described.join(', ')}\n`;
+        if (file.exports.length > 0) {
+            message += `  exports: ${file.exports.slice(0, limit).map((name) => `\`${name}\``).join(', ')}\n`;
+        }
+
+        return message;
+    }
+
     private getPRSystemPrompt(): string {
         return `You are an expert at writing PR descriptions.
 
-Generate a structured PR description with these sections:
-1. Summary - Executive summary of changes
-2. Changes - Detailed bullet list of modifications
-3. Breaking Changes - Any breaking changes and why
-4. Migration Steps - If applicable, how to migrate
-5. Testing - How to test these changes
+Describe the PR as a JSON object with these sections:
+1. "summary" (Summary) - Executive summary of changes, required
+2. "changes" (Changes) - Detailed list of modifications, one string per item, required
+3. "breaking" (Breaking Changes) - Any breaking changes and why, or null
+4. "migration" (Migration Steps) - How to migrate, one string per step, or an empty list
+5. "testing" (Testing) - How to test these changes, or null
 
-Use markdown formatting. Be concise but complete.`;
+Example:
+{
+  "summary": "Speed up user lookups by caching profiles.",
+  "changes": ["Add an LRU cache in front of the profile store", "Invalidate entries on update"],
+  "breaking": null,
+  "migration": [],
+  "testing": "Run npm test; load /users twice and check the second call is served from cache."
+}
+
+Use markdown inside the strings where it helps. Be concise but complete.
+Return only the JSON object, no markdown fences or explanation.`;
     }
 
     private getPRUserMessage(
         context: ContextAnalysis,
         base: string,
-        head: string,
-        diff?: string
+        head: string
     ): string {
         let message = `Generate a PR description for merging ${head} into ${base}:\n\n`;
         message += `Summary: ${context.summary}\n\n`;
 
         message += `Change type: ${context.type.type}\n`;
         if (context.breaking) {
-            message += `⚠️ Contains breaking changes\n`;
+            message += `⚠️ May contain breaking changes\n`;
+            message += this.listBreakingChanges(context, 'breaking');
         }
 
         message += `\nFiles changed (${context.files.length}):\n`;
 
         context.files.forEach((file) => {
-            message += `- ${file.path} (+${file.additions}/-${file.deletions}) [${file.magnitude}]\n`;
+            message += `- ${file.path} ${this.describeCounts(file)} [${file.magnitude}]\n`;
             if (file.summary) {
                 message += `  ${file.summary}\n`;
             }
+            message += this.describeSubmoduleLog(file);
+            message += this.describeSymbols(file);
         });
+        message += this.listIgnored(context);
+
+        return message;
+    }
+
+    /**
+     * Line counts, or what the file is when they would mislead
+     */
+    private describeCounts(file: FileAnalysis): string {
+        if (file.submodule) return '(submodule)';
+        if (file.lfs) return '(LFS object)';
+        if (file.binary) return '(binary)';
+        return `(+${file.additions}/-${file.deletions})`;
+    }
+
+    /**
+     * The submodule commits a pointer bump brings in, newest first
+     */
+    private describeSubmoduleLog(file: FileAnalysis, limit = 10): string {
+        const commits = file.submodule?.commits || [];
+
+        if (commits.length === 0) {
+            return '';
+        }
 
-        // Include diff preview if available
-        if (diff) {
-            const redactedDiff = this.redactionService.redactDiff(diff);
-            const truncatedDiff = this.truncateDiff(redactedDiff, 150);
-            message += `\nDiff preview:\n\`\`\`diff\n${truncatedDiff}\n\`\`\`\n`;
+        let message = commits
+            .slice(0, limit)
+            .map((commit) => `    - ${commit.subject}\n`)
+            .join('');
+        if (commits.length > limit) {
+            message += `    - ... and ${commits.length - limit} more\n`;
         }
 
         return message;
     }
 
     /**
-     * Truncate diff to specified number of lines
+     * Name the files kept out of the analysis, so the model knows they changed
      */
-    private truncateDiff(diff: string, maxLines: number): string {
-        const lines = diff.split('\n');
+    private listIgnored(context: ContextAnalysis): string {
+        const ignored = context.ignored || [];
 
-        if (lines.length <= maxLines) {
-            return diff;
+        if (ignored.length === 0) {
+            return '';
         }
 
-        const truncated = lines.slice(0, maxLines);
-        const remaining = lines.length - maxLines;
-        truncated.push(`\n... (${remaining} more lines omitted)`);
+        return `\nAlso updated (not shown):\n${ignored.map((file) => `- ${file.path} (${file.kind})`).join('\n')}\n`;
+    }
+
+    /**
+     * Redact the diff and fit it into whatever the model's context window has
+     * left after the rest of the prompt, capped at `maxDiffTokens`. Files that
+     * did not fit are listed so the model knows they changed.
+     */
+    private describeDiff(diff: string, prompt: string[], options: DiffBudgetOptions, defaultTokens: number): string {
+        const tokens = options.tokens ?? new TokenEstimator();
+        const budget = Math.min(
+            options.maxDiffTokens ?? defaultTokens,
+            tokens.available(tokens.estimateMessages(prompt.map((content) => ({ role: 'user', content }))))
+        );
+
+        const fitted = new DiffBudgeter(tokens).fit(this.redactionService.redactDiff(diff), budget);
+        let message = '';
+
+        if (fitted.diff.trim()) {
+            message += `\nDiff preview:\n\`\`\`diff\n${fitted.diff}\n\`\`\`\n`;
+        }
+
+        if (fitted.omitted.length > 0) {
+            message += `\nOmitted from the diff preview:\n`;
+            message += fitted.omitted.map((file) => `- ${file.path || 'diff'} (${file.reason})`).join('\n') + '\n';
+        }
 
-        return truncated.join('\n');
+        logger.debug('Included diff in prompt', {
+            budget,
+            tokens: tokens.estimate(fitted.diff),
+            truncated: fitted.truncated,
+            omitted: fitted.omitted.length,
+        });
+
+        return message;
     }
 }
@@ -1,4 +1,60 @@
+import { StructuredCommit } from './commit-parser.js';
+import { CommitTypeRegistry } from './commit-types.js';
+import { PRSections } from './pr-parser.js';
+import { loadTemplate, renderTemplate } from './template.js';
+import { wrapText } from '../utils/wrap.js';
+
+export interface CommitRenderOptions {
+    width?: number;
+    emoji?: boolean;
+    issue?: string;
+    type?: string; // Overrides the type chosen by the model
+    scope?: string; // Overrides the scope chosen by the model
+    breaking?: boolean;
+    breakingChanges?: string[]; // Detected from the diff; describe a --breaking commit the model left undescribed
+}
+
+export interface PRRenderOptions {
+    issue?: string;
+}
+
 export class CommitRenderer {
+    private template: string;
+
+    constructor(
+        template?: string,
+        private types: CommitTypeRegistry = new CommitTypeRegistry()
+    ) {
+        this.template = template ?? loadTemplate('commit');
+    }
+
+    /**
+     * Assemble a commit message from structured fields using the commit template
+     */
+    render(commit: StructuredCommit, options: CommitRenderOptions = {}): string {
+        const width = options.width || 72;
+        const type = options.type || commit.type;
+        const closes = options.issue ? `Closes #${options.issue}` : undefined;
+        // Detected changes are only hints, so they need --breaking to become a footer
+        const breakingDescription =
+            commit.breaking_description || (options.breaking ? options.breakingChanges?.join('; ') : undefined);
+
+        const text = renderTemplate(this.template, {
+            emoji: options.emoji ? this.types.emoji(type) : undefined,
+            type,
+            scope: options.scope || commit.scope,
+            breaking: options.breaking || commit.breaking || !!breakingDescription,
+            subject: commit.subject,
+            body: commit.body ? wrapText(commit.body, width) : undefined,
+            breaking_description: breakingDescription ? wrapText(breakingDescription, width) : undefined,
+            // The template adds the issue footer itself
+            footers: commit.footers.filter((footer) => footer !== closes),
+            issue: options.issue,
+        });
+
+        return text.trim();
+    }
+
     /**
      * Format commit message with proper wrapping
      */
@@ -24,6 +80,7 @@ export class CommitRenderer {
         const errors: string[] = [];
         const lines = message.split('\n');
         const subject = lines[0];
+        const header = this.types.stripEmoji(subject);
 
         // Subject validations
         if (subject.length > 72) {
@@ -34,8 +91,8 @@ export class CommitRenderer {
             errors.push('Subject should not end with period');
         }
 
-        const conventionalRegex = /^(feat|fix|docs|style|refactor|perf|test|chore)(\(.+\))?!?: .+/;
-        if (!conventionalRegex.test(subject)) {
+        const conventionalRegex = new RegExp(`^(${this.types.pattern()})(\\(.+\\))?!?: .+`);
+        if (!conventionalRegex.test(header)) {
             errors.push('Subject does not follow Conventional Commit format');
         }
 
@@ -65,6 +122,31 @@ export class CommitRenderer {
 }
 
 export class PRRenderer {
+    private template: string;
+
+    constructor(template?: string) {
+        this.template = template ?? loadTemplate('pr');
+    }
+
+    /**
+     * Assemble a PR description from parsed sections using the PR template
+     */
+    render(sections: PRSections, options: PRRenderOptions = {}): string {
+        const text = renderTemplate(this.template, {
+            summary: sections.summary,
+            changes: sections.changes,
+            breaking_changes: sections.breaking,
+            migration_steps: sections.migration.length > 0,
+            steps: sections.migration,
+            testing: sections.testing,
+            screenshots: sections.screenshots,
+            notes: sections.notes,
+            issue: options.issue,
+        });
+
+        return text.trim() + '\n';
+    }
+
     /**
      * Format PR description with proper markdown
      */
@@ -0,0 +1,79 @@
+import { CommitInfo, GitService } from './git.js';
+import { StructuredCommit } from './commit-parser.js';
+import { SymbolExtractor } from './symbols.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Recognises changes that undo an earlier commit and describes them the way
+ * `git revert` does, so reverts don't depend on the model guessing a subject.
+ */
+export class RevertDetector {
+    constructor(
+        private git: GitService,
+        private limit: number = 20
+    ) { }
+
+    /**
+     * Find the recent commit that the diff exactly undoes, if any
+     */
+    detect(diff: string): CommitInfo | undefined {
+        if (this.fingerprint(diff, false).length === 0) {
+            return undefined;
+        }
+
+        for (const commit of this.git.getRecentCommits(this.limit)) {
+            try {
+                if (this.isInverse(diff, this.git.getCommitDiff(commit.sha))) {
+                    return commit;
+                }
+            } catch (error) {
+                logger.debug('Could not read commit diff', { sha: commit.sha, error });
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Whether `diff` removes exactly what `original` added and restores
+     * exactly what it removed, file by file
+     */
+    isInverse(diff: string, original: string): boolean {
+        const changes = this.fingerprint(diff, false);
+
+        return changes.length > 0 && changes.join('\n') === this.fingerprint(original, true).join('\n');
+    }
+
+    /**
+     * The commit for reverting `commit`: `revert: <original subject>` with
+     * git's "This reverts commit" line and the reason, when given
+     */
+    static message(commit: CommitInfo, reason?: string): StructuredCommit {
+        return {
+            type: 'revert',
+            subject: commit.subject,
+            body: [`This reverts commit ${commit.sha}.`, reason?.trim()].filter(Boolean).join('\n\n'),
+            footers: [],
+        };
+    }
+
+    /**
+     * Sorted changed lines per file; line numbers and context are ignored so
+     * diffs taken with different context settings still compare equal
+     */
+    private fingerprint(diff: string, invert: boolean): string[] {
+        const entries: string[] = [];
+
+        for (const [filePath, chunk] of SymbolExtractor.splitDiff(diff)) {
+            const { added, removed } = SymbolExtractor.changedLines(chunk);
+            const [plus, minus] = invert ? ['-', '+'] : ['+', '-'];
+
+            entries.push(
+                ...added.map((line) => `${filePath}\t${plus}${line}`),
+                ...removed.map((line) => `${filePath}\t${minus}${line}`)
+            );
+        }
+
+        return entries.sort();
+    }
+}
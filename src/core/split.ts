@@ -0,0 +1,112 @@
+import { ContextBuilder, FileAnalysis } from './context.js';
+import { SymbolExtractor } from './symbols.js';
+
+/**
+ * A set of files that belong in one commit
+ */
+export interface CommitGroup {
+    name: string; // Scope or area, e.g. "core" or "docs"
+    reason: string;
+    files: string[];
+}
+
+// Dependencies land first so later commits build; tests follow their code and docs come last
+const GROUP_RANK: Record<string, number> = { dependencies: 0, ci: 1, tests: 3, docs: 4 };
+const SOURCE_RANK = 2;
+
+/**
+ * Proposes how to split one staged change into atomic commits. Files are
+ * grouped by the scope ContextBuilder infers for them, with dependency, CI
+ * and documentation changes kept apart and tests placed next to the code
+ * they cover. A file is never split across commits.
+ */
+export class CommitSplitter {
+    constructor(private contextBuilder: ContextBuilder) { }
+
+    /**
+     * Group the analyzed files into commits, in the order they should be made
+     */
+    plan(files: FileAnalysis[]): CommitGroup[] {
+        const groups = new Map<string, CommitGroup>();
+        const add = (name: string, reason: string, path: string) => {
+            const group = groups.get(name) ?? { name, reason, files: [] };
+            group.files.push(path);
+            groups.set(name, group);
+        };
+
+        const tests = files.filter((file) => file.keywords.includes('test'));
+
+        for (const file of files) {
+            if (!tests.includes(file)) {
+                const [name, reason] = this.groupFor(file);
+                add(name, reason, file.path);
+            }
+        }
+
+        for (const test of tests) {
+            const subject = this.testSubject(test.path);
+            const owner = [...groups.values()].find((group) =>
+                group.files.some((path) => this.stem(path) === subject)
+            );
+
+            if (owner) {
+                owner.files.push(test.path);
+            } else {
+                add('tests', 'Tests without changes to the code they cover', test.path);
+            }
+        }
+
+        // Array.prototype.sort is stable, so source groups keep the order their files appeared in
+        return [...groups.values()].sort((a, b) => this.rank(a) - this.rank(b));
+    }
+
+    /**
+     * The part of a diff that belongs to each group, ready for `git apply --cached`
+     */
+    patches(diff: string, groups: CommitGroup[]): string[] {
+        const chunks = SymbolExtractor.splitDiff(diff);
+
+        return groups.map((group) => {
+            const patch = group.files.map((path) => chunks.get(path) ?? '').join('');
+            return patch.endsWith('\n') ? patch : `${patch}\n`;
+        });
+    }
+
+    private groupFor(file: FileAnalysis): [string, string] {
+        if (file.keywords.includes('ci')) {
+            return ['ci', 'CI configuration'];
+        }
+        if (file.keywords.includes('dependencies') || file.keywords.includes('lockfile')) {
+            return ['dependencies', 'Dependency manifests and lockfiles'];
+        }
+        if (file.keywords.includes('docs')) {
+            return ['docs', 'Documentation'];
+        }
+
+        const [scope] = this.contextBuilder.inferScopeFromPath(file.path);
+        if (scope) {
+            return [scope, `Files in scope '${scope}'`];
+        }
+
+        const parts = file.path.split('/');
+        return parts.length > 1 ? [parts[0], `Files under ${parts[0]}/`] : ['root', 'Top-level files'];
+    }
+
+    private rank(group: CommitGroup): number {
+        return GROUP_RANK[group.name] ?? SOURCE_RANK;
+    }
+
+    /**
+     * File name without directories and extensions, e.g. "context" for src/core/context.ts
+     */
+    private stem(path: string): string {
+        return (path.split('/').pop() ?? path).split('.')[0].toLowerCase();
+    }
+
+    /**
+     * The file a test covers, e.g. "context" for tests/context.test.ts or test_context.py
+     */
+    private testSubject(path: string): string {
+        return this.stem(path).replace(/^test_|_test$/, '');
+    }
+}
@@ -0,0 +1,224 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommitInfo, GitService } from './git.js';
+import { CommitParser } from './commit-parser.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * How a repository writes its commits, learned from its recent history
+ */
+export interface StyleProfile {
+    commits: number; // Number of commits the profile was learned from
+    conventional: number; // Share of commits with a Conventional Commit header, 0-1
+    scopes: Record<string, number>; // Scope -> times used
+    pathScopes: Record<string, Record<string, number>>; // File or directory -> scope -> times used
+    subjectLength: { average: number; max: number };
+    casing: 'lower' | 'upper' | 'mixed'; // First letter of the description
+    bodies: number; // Share of commits with a body, 0-1
+    emoji: number; // Share of subjects containing an emoji, 0-1
+    ticketFooter?: string; // Most common issue trailer, e.g. "Refs: #123"
+    examples: string[]; // Recent Conventional Commit messages, newest first
+}
+
+interface StyleCache {
+    head: string;
+    limit: number;
+    profile: StyleProfile;
+}
+
+const CACHE_DIR = 'aicmt';
+const CACHE_FILE = 'style.json';
+const MAX_EXAMPLES = 5;
+const EMOJI = /\p{Extended_Pictographic}/u;
+const TICKET_FOOTER = /^(Refs|Closes|Fixes|Resolves|Related|Issue|Ticket)(:\s*|\s+)(#|[A-Z][A-Z0-9]+-)\d+\s*$/i;
+
+/**
+ * StyleLearner builds a StyleProfile from the last N commits so generated
+ * messages read like the ones already in the repository. Profiles are cached
+ * under .git/aicmt/ and relearned whenever HEAD moves.
+ */
+export class StyleLearner {
+    constructor(
+        private git: GitService,
+        private limit: number = 50
+    ) { }
+
+    /**
+     * Learn (or load the cached) profile. Returns undefined when there is no
+     * history to learn from or learning is disabled with a limit of 0.
+     */
+    learn(): StyleProfile | undefined {
+        if (this.limit <= 0) {
+            return undefined;
+        }
+
+        try {
+            const head = this.git.getHeadSha();
+            if (!head) {
+                return undefined;
+            }
+
+            const cacheFile = path.join(this.git.getGitDir(), CACHE_DIR, CACHE_FILE);
+            const cached = this.readCache(cacheFile);
+            if (cached && cached.head === head && cached.limit === this.limit) {
+                logger.debug('Using cached style profile', { head });
+                return cached.profile;
+            }
+
+            const profile = StyleLearner.analyze(this.git.getRecentCommitsWithFiles(this.limit));
+            if (profile.commits === 0) {
+                return undefined;
+            }
+
+            this.writeCache(cacheFile, { head, limit: this.limit, profile });
+            logger.debug('Learned style profile', { head, commits: profile.commits });
+
+            return profile;
+        } catch (error) {
+            // Style learning only refines the prompt, so never fail a command over it
+            logger.debug('Could not learn commit style', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Build a profile from commits, newest first
+     */
+    static analyze(commits: CommitInfo[]): StyleProfile {
+        const parser = new CommitParser();
+        const scopes: Record<string, number> = {};
+        const pathScopes: Record<string, Record<string, number>> = {};
+        const footers: Record<string, number> = {};
+        const examples: string[] = [];
+        let conventional = 0;
+        let bodies = 0;
+        let emoji = 0;
+        let lower = 0;
+        let upper = 0;
+        let totalLength = 0;
+        let maxLength = 0;
+
+        for (const commit of commits) {
+            const subject = commit.subject.trim();
+            totalLength += subject.length;
+            maxLength = Math.max(maxLength, subject.length);
+
+            if (EMOJI.test(subject)) {
+                emoji++;
+            }
+
+            const bodyLines = commit.body.split('\n').filter((line) => line.trim());
+            if (bodyLines.some((line) => !TICKET_FOOTER.test(line.trim()))) {
+                bodies++;
+            }
+
+            for (const line of bodyLines) {
+                const match = TICKET_FOOTER.exec(line.trim());
+                if (match) {
+                    // Keep the trailer, separator and ticket prefix; the number is just a placeholder
+                    const [, token, separator, prefix] = match;
+                    const format = `${token}${separator.startsWith(':') ? ': ' : ' '}${prefix}123`;
+                    footers[format] = (footers[format] || 0) + 1;
+                }
+            }
+
+            const parsed = parser.parse(subject).commit;
+            const description = parsed ? parsed.subject : subject;
+
+            if (/^[a-z]/.test(description)) {
+                lower++;
+            } else if (/^[A-Z]/.test(description)) {
+                upper++;
+            }
+
+            if (!parsed) {
+                continue;
+            }
+
+            conventional++;
+
+            if (examples.length < MAX_EXAMPLES) {
+                const paragraph = commit.body.split(/\n\s*\n/)[0].trim();
+                examples.push(paragraph ? `${subject}\n\n${paragraph}` : subject);
+            }
+
+            if (parsed.scope) {
+                const scope = parsed.scope.toLowerCase();
+                scopes[scope] = (scopes[scope] || 0) + 1;
+
+                for (const key of new Set((commit.files || []).flatMap(StyleLearner.pathKeys))) {
+                    pathScopes[key] = pathScopes[key] || {};
+                    pathScopes[key][scope] = (pathScopes[key][scope] || 0) + 1;
+                }
+            }
+        }
+
+        const [ticketFooter] = Object.entries(footers).sort((a, b) => b[1] - a[1]);
+        const share = (count: number): number => (commits.length > 0 ? count / commits.length : 0);
+
+        return {
+            commits: commits.length,
+            conventional: share(conventional),
+            scopes,
+            pathScopes,
+            subjectLength: {
+                average: commits.length > 0 ? Math.round(totalLength / commits.length) : 0,
+                max: maxLength,
+            },
+            casing: lower >= upper * 3 ? 'lower' : upper >= lower * 3 ? 'upper' : 'mixed',
+            bodies: share(bodies),
+            emoji: share(emoji),
+            ticketFooter: ticketFooter?.[0],
+            examples,
+        };
+    }
+
+    /**
+     * Scopes previously used for a path, most used first. The file itself is
+     * checked first, then each parent directory. Top-level directories such as
+     * src/ collect every scope, so they only count for files directly inside.
+     */
+    static scopesForPath(profile: StyleProfile, filePath: string): string[] {
+        const keys = StyleLearner.pathKeys(filePath);
+
+        for (const key of keys.length > 2 ? keys.slice(0, -1) : keys) {
+            const counts = profile.pathScopes[key];
+            if (counts) {
+                return Object.entries(counts)
+                    .sort((a, b) => b[1] - a[1])
+                    .map(([scope]) => scope);
+            }
+        }
+
+        return [];
+    }
+
+    /**
+     * The path followed by its parent directories, most specific first
+     */
+    private static pathKeys(filePath: string): string[] {
+        const parts = filePath.split('/');
+        return parts.map((_, i) => parts.slice(0, parts.length - i).join('/'));
+    }
+
+    private readCache(file: string): StyleCache | undefined {
+        try {
+            if (fs.existsSync(file)) {
+                return JSON.parse(fs.readFileSync(file, 'utf-8')) as StyleCache;
+            }
+        } catch (error) {
+            logger.debug('Ignoring unreadable style cache', { file, error });
+        }
+
+        return undefined;
+    }
+
+    private writeCache(file: string, cache: StyleCache): void {
+        try {
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            fs.writeFileSync(file, JSON.stringify(cache, null, 2));
+        } catch (error) {
+            logger.debug('Could not write style cache', { file, error });
+        }
+    }
+}
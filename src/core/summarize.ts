@@ -0,0 +1,174 @@
+import * as path from 'path';
+import { DiffBudgeter } from './budget.js';
+import { ModelProvider } from './model.js';
+import { DEFAULT_PR_DIFF_TOKENS, PromptBuilder } from './prompt.js';
+import { SymbolExtractor } from './symbols.js';
+import { TokenEstimator } from './tokens.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Part of a large diff that is summarized on its own
+ */
+export interface DiffChunk {
+    name: string; // Directories the chunk covers, e.g. "src/core"
+    files: string[];
+    diff: string;
+}
+
+/**
+ * What the model said about one chunk
+ */
+export interface ChunkSummary {
+    name: string;
+    files: string[];
+    summary: string;
+}
+
+export interface SummarizerOptions {
+    tokens?: TokenEstimator; // The provider's estimator
+    concurrency?: number; // Chunks summarized at once
+    chunkTokens?: number; // Upper bound on one chunk's diff
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_CHUNK_TOKENS = 4000;
+
+/**
+ * Map-reduce summarization for diffs too large for one prompt. The diff is
+ * split into chunks by directory (or by file when a directory is too large on
+ * its own), each chunk is summarized in parallel, and the summaries stand in
+ * for the diff when the PR description is written.
+ */
+export class PRSummarizer {
+    private tokens: TokenEstimator;
+    private concurrency: number;
+    private chunkTokens: number;
+
+    constructor(
+        private provider: ModelProvider,
+        private promptBuilder: PromptBuilder,
+        options: SummarizerOptions = {}
+    ) {
+        this.tokens = options.tokens ?? new TokenEstimator();
+        this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+        this.chunkTokens = Math.max(1, Math.min(options.chunkTokens ?? DEFAULT_CHUNK_TOKENS, this.tokens.available(1000)));
+    }
+
+    /**
+     * Whether the diff is too large to send in a single PR prompt
+     */
+    needsChunking(diff: string, maxDiffTokens: number = DEFAULT_PR_DIFF_TOKENS): boolean {
+        return this.tokens.estimate(diff) > Math.min(maxDiffTokens, this.tokens.available(2000));
+    }
+
+    /**
+     * Split the diff into chunks of at most `chunkTokens`. Lock, minified and
+     * generated files are left out; they say little about intent.
+     */
+    plan(diff: string): DiffChunk[] {
+        const directories = new Map<string, Array<[string, string]>>();
+
+        for (const [filePath, chunk] of SymbolExtractor.splitDiff(diff)) {
+            if (DiffBudgeter.lowValueReason(filePath, chunk)) {
+                continue;
+            }
+
+            const directory = path.posix.dirname(filePath);
+            directories.set(directory, [...(directories.get(directory) || []), [filePath, chunk]]);
+        }
+
+        // Whole directories when they fit, otherwise their files one by one
+        const units: Array<Array<[string, string]>> = [];
+        for (const files of directories.values()) {
+            if (this.cost(files) <= this.chunkTokens) {
+                units.push(files);
+            } else {
+                units.push(...files.map((file) => [file]));
+            }
+        }
+
+        // Pack neighbouring units together so small directories share a request
+        const chunks: Array<Array<[string, string]>> = [];
+        for (const unit of units) {
+            const last = chunks[chunks.length - 1];
+            if (last && this.cost(last) + this.cost(unit) <= this.chunkTokens) {
+                last.push(...unit);
+            } else {
+                chunks.push([...unit]);
+            }
+        }
+
+        return chunks.map((files) => ({
+            name: this.nameOf(files.map(([filePath]) => filePath)),
+            files: files.map(([filePath]) => filePath),
+            diff: files.map(([, chunk]) => chunk).join(''),
+        }));
+    }
+
+    /**
+     * Summarize every chunk, at most `concurrency` at a time, reporting
+     * progress through the logger spinner. Summaries keep the chunk order.
+     */
+    async summarize(chunks: DiffChunk[]): Promise<ChunkSummary[]> {
+        if (chunks.length === 0) {
+            return [];
+        }
+
+        const summaries: ChunkSummary[] = new Array(chunks.length);
+        let done = 0;
+        let next = 0;
+        let failed = false;
+        // One spinner reads the count on every frame, so workers still running after a failure cannot restart it
+        const stop = logger.spinner(() => `Summarizing ${chunks.length} parts of the diff (${done}/${chunks.length})`);
+
+        const worker = async (): Promise<void> => {
+            // Once a request fails the result is lost anyway, so no new chunks are started
+            while (!failed && next < chunks.length) {
+                const index = next++;
+                const chunk = chunks[index];
+                const prompt = this.promptBuilder.buildChunkSummaryPrompt(chunk, {
+                    tokens: this.tokens,
+                    maxDiffTokens: this.chunkTokens,
+                });
+
+                let summary: string;
+                try {
+                    summary = (await this.provider.complete(prompt)).trim();
+                } catch (error) {
+                    failed = true;
+                    throw error;
+                }
+
+                summaries[index] = { name: chunk.name, files: chunk.files, summary };
+
+                done++;
+                logger.debug(`Summarized ${chunk.name}`, { files: chunk.files.length });
+            }
+        };
+
+        try {
+            await Promise.all(Array.from({ length: Math.min(this.concurrency, chunks.length) }, worker));
+        } finally {
+            stop();
+        }
+
+        return summaries;
+    }
+
+    private cost(files: Array<[string, string]>): number {
+        return files.reduce((sum, [, chunk]) => sum + this.tokens.estimate(chunk), 0);
+    }
+
+    /**
+     * Name a chunk after the directories it covers
+     */
+    private nameOf(files: string[]): string {
+        const directories = [...new Set(files.map((file) => path.posix.dirname(file)))].map((directory) =>
+            directory === '.' ? 'repository root' : directory
+        );
+
+        return directories.length <= 3
+            ? directories.join(', ')
+            : `${directories.slice(0, 2).join(', ')} and ${directories.length - 2} more`;
+    }
+}
@@ -0,0 +1,378 @@
+/**
+ * A declaration touched by a diff
+ */
+export interface SymbolChange {
+    name: string; // Qualified where possible, e.g. GitService.getDiff
+    kind: 'function' | 'class' | 'interface' | 'variable';
+    change: 'added' | 'removed' | 'modified';
+    exported: boolean;
+    before?: string; // Declaration line as removed, when the signature changed
+    after?: string; // Declaration line as added, when the signature changed
+}
+
+export interface ChangedLines {
+    added: string[];
+    removed: string[];
+}
+
+export type SymbolLanguage = 'typescript' | 'python' | 'go' | 'java';
+
+interface Declaration {
+    name: string;
+    kind: SymbolChange['kind'];
+    exported: boolean;
+    container: boolean; // Declarations that scope the ones below them (classes)
+}
+
+interface DiffLine {
+    kind: ' ' | '+' | '-';
+    text: string;
+}
+
+interface Hunk {
+    context: string; // Text after the @@ marker: git's guess at the enclosing declaration
+    lines: DiffLine[];
+}
+
+const EXTENSIONS: Record<string, SymbolLanguage> = {
+    '.ts': 'typescript',
+    '.tsx': 'typescript',
+    '.mts': 'typescript',
+    '.cts': 'typescript',
+    '.js': 'typescript',
+    '.jsx': 'typescript',
+    '.mjs': 'typescript',
+    '.cjs': 'typescript',
+    '.py': 'python',
+    '.go': 'go',
+    '.java': 'java',
+};
+
+// Words that look like method names in `name(...) {` lines but are control flow
+const KEYWORDS = new Set([
+    'if', 'for', 'while', 'switch', 'catch', 'with', 'return', 'function', 'else', 'do', 'try',
+    'synchronized', 'new', 'throw', 'typeof', 'await', 'yield', 'super', 'this',
+]);
+
+const TS_CLASS = /^\s*(export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/;
+const TS_INTERFACE =
+    /^\s*(export\s+)?(?:declare\s+)?(?:interface\s+([A-Za-z_$][\w$]*)|type\s+([A-Za-z_$][\w$]*)\s*(?:<[^=]*>)?\s*=|(?:const\s+)?enum\s+([A-Za-z_$][\w$]*))/;
+const TS_FUNCTION = /^\s*(export\s+)?(?:default\s+)?(?:declare\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/;
+const TS_ARROW =
+    /^\s*(export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|(?:<[^>]*>)?\([^)]*\)?\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>)/;
+const TS_VARIABLE = /^\s*(export\s+)(?:const|let|var)\s+([A-Za-z_$][\w$]*)/;
+// Lines ending in `=> {` are callbacks, not methods
+const TS_METHOD =
+    /^(?!.*=>\s*\{?\s*$)\s+(?:(?:public|private|protected|static|async|readonly|override|abstract|get|set)\s+)*\*?([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\((?:[^()]|\([^()]*\))*\)\s*(?::\s*[^=;{]+)?\s*(?:\{\s*\}?)?\s*$/;
+const TS_EXPORT_LIST = /^\s*export\s*\{([^}]*)\}/;
+
+const PY_CLASS = /^(\s*)class\s+([A-Za-z_]\w*)/;
+const PY_FUNCTION = /^(\s*)(?:async\s+)?def\s+([A-Za-z_]\w*)/;
+
+const GO_FUNCTION = /^func\s+(?:\(\s*(?:\w+\s+)?\*?\s*(\w+)(?:\[[^\]]*\])?\s*\)\s*)?(\w+)/;
+const GO_TYPE = /^type\s+(\w+)(?:\[[^\]]*\])?\s+(struct|interface)\b/;
+
+const JAVA_TYPE =
+    /^\s*((?:(?:public|protected|private|abstract|final|static|sealed|non-sealed|strictfp)\s+)*)(class|interface|enum|record|@interface)\s+(\w+)/;
+const JAVA_METHOD =
+    /^\s+((?:(?:public|protected|private|static|final|abstract|synchronized|native|default|strictfp)\s+)*)(?:<[^>]*>\s*)?(?:([\w.$]+)(?:<[^()]*>)?(?:\[\])*\s+)?(\w+)\s*\([^;=]*$/;
+
+/**
+ * Finds the functions, classes and interfaces a diff touches.
+ *
+ * Works on unified diffs line by line rather than parsing source: declaration
+ * lines that were added or removed are reported directly, and other changes
+ * are attributed to the closest declaration above them, using context lines
+ * and the enclosing declaration git prints after each `@@` header.
+ */
+export class SymbolExtractor {
+    /**
+     * Detect the language of a file from its extension
+     */
+    static languageFor(filePath: string): SymbolLanguage | undefined {
+        const match = /\.[^./]+$/.exec(filePath);
+        return match ? EXTENSIONS[match[0].toLowerCase()] : undefined;
+    }
+
+    /**
+     * Split a multi-file diff into per-file diffs keyed by the new path
+     * (the old path for deletions)
+     */
+    static splitDiff(diff: string): Map<string, string> {
+        const files = new Map<string, string>();
+        const chunks = diff.split(/^(?=diff --git )/m).filter((chunk) => chunk.startsWith('diff --git '));
+
+        for (const chunk of chunks) {
+            const newPath = /^\+\+\+ b\/(.+)$/m.exec(chunk)?.[1];
+            const oldPath = /^--- a\/(.+)$/m.exec(chunk)?.[1];
+            const header = /^diff --git a\/(.+) b\/(.+)$/m.exec(chunk);
+            const filePath = newPath || oldPath || header?.[2];
+
+            if (filePath) {
+                files.set(filePath, chunk);
+            }
+        }
+
+        return files;
+    }
+
+    /**
+     * Collect the added and removed lines of a diff, without their markers
+     */
+    static changedLines(diff: string): ChangedLines {
+        const added: string[] = [];
+        const removed: string[] = [];
+
+        for (const line of diff.split('\n')) {
+            if (line.startsWith('+++') || line.startsWith('---')) {
+                continue;
+            }
+            if (line.startsWith('+')) {
+                added.push(line.slice(1));
+            } else if (line.startsWith('-')) {
+                removed.push(line.slice(1));
+            }
+        }
+
+        return { added, removed };
+    }
+
+    /**
+     * List the symbols touched by one file's diff
+     */
+    extract(filePath: string, diff: string): SymbolChange[] {
+        const language = SymbolExtractor.languageFor(filePath);
+
+        if (!language) {
+            return [];
+        }
+
+        const changes = new Map<string, SymbolChange>();
+        const lines = new Map<string, string>();
+        const record = (declaration: Declaration, change: SymbolChange['change'], text?: string): void => {
+            const existing = changes.get(declaration.name);
+
+            if (!existing) {
+                changes.set(declaration.name, {
+                    name: declaration.name,
+                    kind: declaration.kind,
+                    change,
+                    exported: declaration.exported,
+                });
+                if (text !== undefined) {
+                    lines.set(declaration.name, text.trim());
+                }
+            } else if (existing.change !== change && existing.change !== 'modified') {
+                // Added and removed in the same diff means the signature changed
+                const previous = lines.get(declaration.name);
+                const current = text?.trim();
+
+                existing.before = existing.change === 'removed' ? previous : current;
+                existing.after = existing.change === 'removed' ? current : previous;
+                existing.change = 'modified';
+                existing.exported = existing.exported || declaration.exported;
+            }
+        };
+
+        for (const hunk of this.parseHunks(diff)) {
+            const outer = this.declare(language, hunk.context, undefined);
+            let container = outer?.container ? outer : undefined;
+            let enclosing = outer;
+
+            for (const line of hunk.lines) {
+                // `export { a, b as c }` publishes several existing names at once
+                const exportList = language === 'typescript' ? TS_EXPORT_LIST.exec(line.text) : null;
+                if (exportList) {
+                    if (line.kind !== ' ') {
+                        for (const name of this.exportedNames(exportList[1])) {
+                            record(
+                                { name, kind: 'variable', exported: true, container: false },
+                                line.kind === '+' ? 'added' : 'removed',
+                                line.text
+                            );
+                        }
+                    }
+                    continue;
+                }
+
+                const declaration = this.declare(language, line.text, container);
+
+                if (declaration) {
+                    if (declaration.container) {
+                        container = declaration;
+                    } else if (!this.isIndented(line.text)) {
+                        // A top-level declaration ends the enclosing class
+                        container = undefined;
+                    }
+                    enclosing = declaration;
+
+                    if (line.kind === '+') {
+                        record(declaration, 'added', line.text);
+                    } else if (line.kind === '-') {
+                        record(declaration, 'removed', line.text);
+                    }
+                } else if (line.kind !== ' ' && line.text.trim() && enclosing && !changes.has(enclosing.name)) {
+                    record(enclosing, 'modified');
+                }
+            }
+        }
+
+        return [...changes.values()];
+    }
+
+    private parseHunks(diff: string): Hunk[] {
+        const hunks: Hunk[] = [];
+        let current: Hunk | undefined;
+
+        for (const line of diff.split('\n')) {
+            const header = /^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@ ?(.*)$/.exec(line);
+
+            if (header) {
+                current = { context: header[1], lines: [] };
+                hunks.push(current);
+            } else if (current && /^[ +-]/.test(line) && !line.startsWith('+++') && !line.startsWith('---')) {
+                current.lines.push({ kind: line[0] as DiffLine['kind'], text: line.slice(1) });
+            }
+        }
+
+        return hunks;
+    }
+
+    /**
+     * Recognise a declaration on a single line, qualifying members with the
+     * enclosing class when there is one
+     */
+    private declare(
+        language: SymbolLanguage,
+        text: string,
+        container: Declaration | undefined
+    ): Declaration | undefined {
+        switch (language) {
+            case 'typescript':
+                return this.declareTypeScript(text, container);
+            case 'python':
+                return this.declarePython(text, container);
+            case 'go':
+                return this.declareGo(text);
+            case 'java':
+                return this.declareJava(text, container);
+        }
+    }
+
+    private declareTypeScript(text: string, container: Declaration | undefined): Declaration | undefined {
+        let match = TS_CLASS.exec(text);
+        if (match) {
+            return { name: match[2], kind: 'class', exported: !!match[1], container: true };
+        }
+
+        match = TS_INTERFACE.exec(text);
+        if (match) {
+            const name = match[2] || match[3] || match[4];
+            return { name, kind: 'interface', exported: !!match[1], container: false };
+        }
+
+        match = TS_FUNCTION.exec(text) || TS_ARROW.exec(text);
+        if (match) {
+            return { name: match[2], kind: 'function', exported: !!match[1], container: false };
+        }
+
+        match = TS_VARIABLE.exec(text);
+        if (match) {
+            return { name: match[2], kind: 'variable', exported: true, container: false };
+        }
+
+        match = TS_METHOD.exec(text);
+        if (match && container && !KEYWORDS.has(match[1])) {
+            return { name: `${container.name}.${match[1]}`, kind: 'function', exported: false, container: false };
+        }
+
+        return undefined;
+    }
+
+    private exportedNames(list: string): string[] {
+        return list
+            .split(',')
+            .map((entry) => entry.trim().split(/\s+as\s+/).pop()!.trim())
+            .filter((name) => /^[A-Za-z_$][\w$]*$/.test(name) && name !== 'default');
+    }
+
+    private declarePython(text: string, container: Declaration | undefined): Declaration | undefined {
+        let match = PY_CLASS.exec(text);
+        if (match) {
+            return { name: match[2], kind: 'class', exported: !match[2].startsWith('_'), container: true };
+        }
+
+        match = PY_FUNCTION.exec(text);
+        if (match) {
+            const member = match[1].length > 0 && container;
+            return {
+                name: member ? `${container.name}.${match[2]}` : match[2],
+                kind: 'function',
+                exported: !member && !match[2].startsWith('_'),
+                container: false,
+            };
+        }
+
+        return undefined;
+    }
+
+    private declareGo(text: string): Declaration | undefined {
+        let match = GO_FUNCTION.exec(text);
+        if (match) {
+            const [, receiver, name] = match;
+            return {
+                name: receiver ? `${receiver}.${name}` : name,
+                kind: 'function',
+                exported: /^[A-Z]/.test(name),
+                container: false,
+            };
+        }
+
+        match = GO_TYPE.exec(text);
+        if (match) {
+            return {
+                name: match[1],
+                kind: match[2] === 'struct' ? 'class' : 'interface',
+                exported: /^[A-Z]/.test(match[1]),
+                container: false,
+            };
+        }
+
+        return undefined;
+    }
+
+    private declareJava(text: string, container: Declaration | undefined): Declaration | undefined {
+        let match = JAVA_TYPE.exec(text);
+        if (match) {
+            return {
+                name: container ? `${container.name}.${match[3]}` : match[3],
+                kind: match[2] === 'class' || match[2] === 'record' ? 'class' : 'interface',
+                exported: /\bpublic\b/.test(match[1]),
+                container: true,
+            };
+        }
+
+        match = JAVA_METHOD.exec(text);
+        if (match && container) {
+            const [, modifiers, returnType, name] = match;
+            const simpleName = container.name.split('.').pop();
+            // Without a return type this can only be a constructor
+            const valid = returnType ? !KEYWORDS.has(returnType) && !KEYWORDS.has(name) : name === simpleName;
+
+            if (valid) {
+                return {
+                    name: `${container.name}.${name}`,
+                    kind: 'function',
+                    exported: /\bpublic\b/.test(modifiers),
+                    container: false,
+                };
+            }
+        }
+
+        return undefined;
+    }
+
+    private isIndented(text: string): boolean {
+        return /^\s/.test(text);
+    }
+}
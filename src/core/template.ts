@@ -0,0 +1,237 @@
+import { existsSync, readFileSync, realpathSync } from 'fs';
+import * as path from 'path';
+
+export type TemplateValue = string | number | boolean | null | undefined | TemplateView | TemplateValue[];
+
+export interface TemplateView {
+    [key: string]: TemplateValue;
+}
+
+export type TemplateName = 'commit' | 'pr';
+
+export interface LoadTemplateOptions {
+    root?: string; // Package root containing templates/
+    path?: string; // Project-specific override, relative to the working directory
+}
+
+type TemplateNode =
+    | { kind: 'text'; value: string }
+    | { kind: 'variable'; name: string }
+    | { kind: 'section'; name: string; inverted: boolean; children: TemplateNode[] };
+
+interface Frame {
+    value: TemplateValue;
+    index?: number; // 1-based position when iterating a list
+}
+
+const PACKAGE_NAME = 'aicmt';
+
+const STANDALONE_COMMENT = /^[ \t]*\{\{![\s\S]*?\}\}[ \t]*\r?\n/gm;
+const STANDALONE_TAG = /^[ \t]*(\{\{[#^/][^}]*\}\})[ \t]*\r?\n/gm;
+const TAG = /\{\{([#^/!]?)\s*([\s\S]*?)\s*\}\}/g;
+
+/**
+ * Render a mustache-style template.
+ *
+ * Supports {{name}} variables (dotted names look into objects),
+ * {{#name}}...{{/name}} sections, {{^name}}...{{/name}} inverted sections
+ * and {{! comments }}. A section over a list renders once per item, with
+ * {{.}} bound to the item and {{index}} to its 1-based position; over an
+ * object it renders with the object's fields in scope. Values are inserted
+ * verbatim and never re-scanned for tags.
+ *
+ * Lines holding only a section tag or comment are dropped, and runs of
+ * blank lines left behind by empty sections are collapsed.
+ */
+export function renderTemplate(template: string, view: TemplateView): string {
+    const prepared = template.replace(STANDALONE_COMMENT, '').replace(STANDALONE_TAG, '$1');
+
+    return renderNodes(parse(prepared), [{ value: view }]).replace(/\n{3,}/g, '\n\n');
+}
+
+/**
+ * Load a template, preferring a project override, then the templates/
+ * directory of the given package root, then that of the installed package
+ */
+export function loadTemplate(name: TemplateName, options: LoadTemplateOptions = {}): string {
+    if (options.path) {
+        const file = path.resolve(options.path);
+        if (!existsSync(file)) {
+            throw new Error(`Template not found: ${options.path}`);
+        }
+        return readFileSync(file, 'utf-8');
+    }
+
+    for (const root of [options.root, packageRoot()]) {
+        const file = root && path.join(root, 'templates', `${name}.md`);
+        if (file && existsSync(file)) {
+            return readFileSync(file, 'utf-8');
+        }
+    }
+
+    throw new Error(`Template not found: templates/${name}.md`);
+}
+
+let cachedRoot: string | null | undefined;
+
+/**
+ * The root of the installed package, found by walking up from the running
+ * script (bin/run.js, or a test runner inside node_modules)
+ */
+function packageRoot(): string | undefined {
+    if (cachedRoot === undefined) {
+        cachedRoot = null;
+        const script = process.argv[1];
+        let dir = script && existsSync(script) ? path.dirname(realpathSync(script)) : process.cwd();
+
+        for (;;) {
+            if (readPackageName(path.join(dir, 'package.json')) === PACKAGE_NAME) {
+                cachedRoot = dir;
+                break;
+            }
+
+            const parent = path.dirname(dir);
+            if (parent === dir) {
+                break;
+            }
+            dir = parent;
+        }
+    }
+
+    return cachedRoot ?? undefined;
+}
+
+function readPackageName(file: string): string | undefined {
+    try {
+        return JSON.parse(readFileSync(file, 'utf-8')).name;
+    } catch {
+        return undefined;
+    }
+}
+
+function parse(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const open: Array<{ name: string; children: TemplateNode[] }> = [{ name: '', children: root }];
+    let last = 0;
+
+    for (const match of template.matchAll(TAG)) {
+        const [tag, sigil, name] = match;
+        const current = open[open.length - 1];
+
+        if (match.index! > last) {
+            current.children.push({ kind: 'text', value: template.slice(last, match.index) });
+        }
+        last = match.index! + tag.length;
+
+        if (sigil === '!') {
+            continue;
+        }
+
+        if (sigil === '#' || sigil === '^') {
+            const section: TemplateNode = { kind: 'section', name, inverted: sigil === '^', children: [] };
+            current.children.push(section);
+            open.push({ name, children: section.children });
+        } else if (sigil === '/') {
+            if (open.length === 1 || current.name !== name) {
+                throw new Error(`Unexpected {{/${name}}} in template`);
+            }
+            open.pop();
+        } else {
+            current.children.push({ kind: 'variable', name });
+        }
+    }
+
+    if (open.length > 1) {
+        throw new Error(`Unclosed section {{#${open[open.length - 1].name}}} in template`);
+    }
+
+    if (last < template.length) {
+        root.push({ kind: 'text', value: template.slice(last) });
+    }
+
+    return root;
+}
+
+function renderNodes(nodes: TemplateNode[], stack: Frame[]): string {
+    let output = '';
+
+    for (const node of nodes) {
+        if (node.kind === 'text') {
+            output += node.value;
+        } else if (node.kind === 'variable') {
+            output += stringify(lookup(stack, node.name));
+        } else {
+            output += renderSection(node, stack);
+        }
+    }
+
+    return output;
+}
+
+function renderSection(node: Extract<TemplateNode, { kind: 'section' }>, stack: Frame[]): string {
+    const value = lookup(stack, node.name);
+
+    if (node.inverted) {
+        return isTruthy(value) ? '' : renderNodes(node.children, stack);
+    }
+
+    if (!isTruthy(value)) {
+        return '';
+    }
+
+    if (Array.isArray(value)) {
+        return value
+            .map((item, i) => renderNodes(node.children, [...stack, { value: item, index: i + 1 }]))
+            .join('');
+    }
+
+    if (typeof value === 'object') {
+        return renderNodes(node.children, [...stack, { value }]);
+    }
+
+    return renderNodes(node.children, stack);
+}
+
+function lookup(stack: Frame[], name: string): TemplateValue {
+    if (name === '.') {
+        return stack[stack.length - 1].value;
+    }
+
+    const [first, ...rest] = name.split('.');
+
+    // Resolve the first key against the innermost frame that knows it
+    for (let i = stack.length - 1; i >= 0; i--) {
+        const frame = stack[i];
+
+        if (isView(frame.value) && first in frame.value) {
+            return rest.reduce<TemplateValue>(
+                (value, key) => (isView(value) ? value[key] : undefined),
+                frame.value[first]
+            );
+        }
+
+        if (first === 'index' && frame.index !== undefined) {
+            return frame.index;
+        }
+    }
+
+    return undefined;
+}
+
+function isView(value: TemplateValue): value is TemplateView {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isTruthy(value: TemplateValue): boolean {
+    if (Array.isArray(value)) {
+        return value.length > 0;
+    }
+    return Boolean(value);
+}
+
+function stringify(value: TemplateValue): string {
+    if (value === null || value === undefined || typeof value === 'object') {
+        return '';
+    }
+    return String(value);
+}
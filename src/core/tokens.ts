@@ -0,0 +1,82 @@
+import { Message } from './model.js';
+
+export interface TokenEstimatorOptions {
+    contextWindow?: number; // Overrides the window looked up from the model name
+    maxTokens?: number; // Tokens reserved for the response
+}
+
+// Context windows by model name, first match wins
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+    [/^(gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|o\d)/, 128000],
+    [/^gpt-4-32k/, 32768],
+    [/^gpt-4/, 8192],
+    [/^gpt-3\.5-turbo/, 16385],
+    [/^claude/, 200000],
+];
+
+// Characters per token for each provider's tokenizer family, on code-heavy text
+const CHARS_PER_TOKEN: Record<string, number> = {
+    openai: 4,
+    azure: 4,
+    anthropic: 3.5,
+    ollama: 3.5,
+};
+
+// Windows for models missing from the table; Ollama's default num_ctx is small
+const DEFAULT_WINDOWS: Record<string, number> = {
+    anthropic: 200000,
+    ollama: 4096,
+};
+
+const DEFAULT_WINDOW = 8192;
+const MESSAGE_OVERHEAD = 4; // Role and separators around each message
+
+/**
+ * Rough token counts for a provider's models. Counts are estimated from
+ * character length rather than by running the real tokenizer, so callers
+ * should leave some headroom.
+ */
+export class TokenEstimator {
+    readonly contextWindow: number;
+    readonly reserved: number;
+
+    constructor(
+        contextWindow: number = DEFAULT_WINDOW,
+        private charsPerToken: number = 4,
+        reserved: number = 512
+    ) {
+        this.contextWindow = contextWindow;
+        this.reserved = reserved;
+    }
+
+    /**
+     * Estimator for a provider and model, e.g. ('openai', 'gpt-4o-mini')
+     */
+    static forModel(provider: string, model: string, options: TokenEstimatorOptions = {}): TokenEstimator {
+        const key = provider.toLowerCase();
+        const window =
+            options.contextWindow ??
+            CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model.toLowerCase()))?.[1] ??
+            DEFAULT_WINDOWS[key] ??
+            DEFAULT_WINDOW;
+
+        return new TokenEstimator(window, CHARS_PER_TOKEN[key] ?? 4, options.maxTokens ?? 512);
+    }
+
+    estimate(text: string): number {
+        return Math.ceil(text.length / this.charsPerToken);
+    }
+
+    estimateMessages(messages: Message[]): number {
+        return messages.reduce((sum, message) => sum + this.estimate(message.content) + MESSAGE_OVERHEAD, 0);
+    }
+
+    /**
+     * Tokens left for more prompt text once `used` tokens are spent and the
+     * response is reserved. A tenth of the window is kept back because the
+     * counts are estimates.
+     */
+    available(used: number): number {
+        return Math.max(0, Math.floor(this.contextWindow * 0.9) - this.reserved - used);
+    }
+}
@@ -0,0 +1,208 @@
+import { ModelProvider, Message, CompletionOptions } from '../core/model.js';
+import { TokenEstimator } from '../core/tokens.js';
+import { logger } from '../utils/logger.js';
+
+export interface AnthropicProviderOptions {
+    apiKey?: string;
+    model: string;
+    temperature?: number;
+    maxTokens?: number;
+    contextWindow?: number; // Overrides the window known for the model
+    timeout?: number;
+}
+
+interface AnthropicMessagesResponse {
+    model?: string;
+    content?: Array<{ type: string; text?: string }>;
+    usage?: {
+        input_tokens?: number;
+        output_tokens?: number;
+    };
+    error?: {
+        type?: string;
+        message?: string;
+    };
+}
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export class AnthropicProvider implements ModelProvider {
+    private apiKey: string;
+    private model: string;
+    private temperature: number;
+    private maxTokens: number;
+    private contextWindow?: number;
+    private timeout: number;
+
+    constructor(opts: AnthropicProviderOptions) {
+        const apiKey = opts.apiKey || process.env.ANTHROPIC_API_KEY;
+
+        if (!apiKey) {
+            throw new Error(
+                'Anthropic API key is required. Set ANTHROPIC_API_KEY environment variable or pass apiKey option.'
+            );
+        }
+
+        this.apiKey = apiKey;
+        this.model = opts.model || 'claude-3-5-haiku-latest';
+        this.temperature = opts.temperature ?? 0.2;
+        this.maxTokens = opts.maxTokens ?? 512;
+        this.contextWindow = opts.contextWindow;
+        this.timeout = opts.timeout ?? 60000; // 60 seconds
+
+        logger.debug('Anthropic provider initialized', {
+            model: this.model,
+            temperature: this.temperature,
+            maxTokens: this.maxTokens,
+        });
+    }
+
+    tokenEstimator(): TokenEstimator {
+        return TokenEstimator.forModel('anthropic', this.model, {
+            contextWindow: this.contextWindow,
+            maxTokens: this.maxTokens,
+        });
+    }
+
+    async complete(messages: Message[], options: CompletionOptions = {}): Promise<string> {
+        if (!messages || messages.length === 0) {
+            throw new Error('Messages array cannot be empty');
+        }
+
+        // Validate message structure
+        for (const msg of messages) {
+            if (!msg.role || !msg.content) {
+                throw new Error('Each message must have role and content');
+            }
+            if (!['system', 'user', 'assistant'].includes(msg.role)) {
+                throw new Error(`Invalid message role: ${msg.role}`);
+            }
+        }
+
+        let response: Response;
+        try {
+            logger.debug(`Calling Anthropic API with model: ${this.model}`);
+
+            response = await fetch(ANTHROPIC_API_URL, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'x-api-key': this.apiKey,
+                    'anthropic-version': ANTHROPIC_VERSION,
+                },
+                body: JSON.stringify(this.buildRequest(messages, options)),
+                signal: AbortSignal.timeout(this.timeout),
+            });
+        } catch (error) {
+            return this.handleError(error);
+        }
+
+        let data: AnthropicMessagesResponse;
+        try {
+            data = (await response.json()) as AnthropicMessagesResponse;
+        } catch {
+            data = {};
+        }
+
+        if (!response.ok) {
+            return this.handleStatus(response.status, data.error);
+        }
+
+        const content = (data.content || [])
+            .filter((block) => block.type === 'text' && block.text)
+            .map((block) => block.text)
+            .join('');
+
+        if (!content) {
+            throw new Error('No content received from Anthropic API');
+        }
+
+        logger.debug('Anthropic API call successful', {
+            tokens: (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0),
+            model: data.model,
+        });
+
+        return content.trim();
+    }
+
+    /**
+     * The Messages API takes system prompts as a top-level field rather than
+     * as a message role.
+     */
+    private buildRequest(messages: Message[], options: CompletionOptions): Record<string, unknown> {
+        const system = messages
+            .filter((m) => m.role === 'system')
+            .map((m) => m.content)
+            .join('\n\n');
+
+        const request: Record<string, unknown> = {
+            model: this.model,
+            max_tokens: this.maxTokens,
+            temperature: options.temperature ?? this.temperature,
+            messages: messages
+                .filter((m) => m.role !== 'system')
+                .map((m) => ({
+                    role: m.role,
+                    content: m.content,
+                })),
+        };
+
+        if (system) {
+            request.system = system;
+        }
+
+        return request;
+    }
+
+    private handleStatus(status: number, error?: AnthropicMessagesResponse['error']): never {
+        const type = error?.type;
+        const message = error?.message || 'unknown error';
+
+        logger.error('Anthropic API error', { status, type, message });
+
+        if (status === 401 || type === 'authentication_error') {
+            throw new Error('Invalid Anthropic API key. Check your ANTHROPIC_API_KEY environment variable.');
+        }
+
+        if (status === 429 || type === 'rate_limit_error') {
+            throw new Error('Anthropic API rate limit exceeded. Please try again later.');
+        }
+
+        if (status === 529 || type === 'overloaded_error') {
+            throw new Error('Anthropic API is overloaded. Please try again later.');
+        }
+
+        if (status === 503) {
+            throw new Error('Anthropic API is temporarily unavailable. Please try again later.');
+        }
+
+        if (status === 404 || type === 'not_found_error') {
+            throw new Error(`Model '${this.model}' not found. Check your model name.`);
+        }
+
+        if (/prompt is too long/i.test(message)) {
+            throw new Error(
+                "Input is too long for the model. Set model.context_window in .aicmt.yaml to the model's context size so the diff is trimmed to fit."
+            );
+        }
+
+        throw new Error(`Anthropic API error: ${message}`);
+    }
+
+    private handleError(error: unknown): never {
+        // fetch failures may come from another realm (undici), so avoid instanceof checks
+        const err = error as { name?: string; message?: string };
+
+        if (err && typeof err.message === 'string') {
+            if (err.name === 'TimeoutError' || err.name === 'AbortError') {
+                throw new Error(`Anthropic API request timed out after ${this.timeout}ms`);
+            }
+
+            logger.error('Unexpected error during Anthropic API call', { error: err.message });
+            throw new Error(`Failed to call Anthropic API: ${err.message}`);
+        }
+
+        throw new Error('Unknown error occurred during Anthropic API call');
+    }
+}
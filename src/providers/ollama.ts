@@ -0,0 +1,169 @@
+import { ModelProvider, Message, CompletionOptions } from '../core/model.js';
+import { TokenEstimator } from '../core/tokens.js';
+import { logger } from '../utils/logger.js';
+
+export interface OllamaProviderOptions {
+    model: string;
+    host?: string;
+    temperature?: number;
+    maxTokens?: number;
+    contextWindow?: number; // Overrides the window known for the model
+    timeout?: number;
+}
+
+interface OllamaChatResponse {
+    model?: string;
+    message?: {
+        role: string;
+        content: string;
+    };
+    done?: boolean;
+    eval_count?: number;
+    prompt_eval_count?: number;
+    error?: string;
+}
+
+export const DEFAULT_OLLAMA_HOST = 'http://localhost:11434';
+
+/**
+ * Talks to a local Ollama server over its HTTP chat API, so prompts never
+ * leave the machine.
+ */
+export class OllamaProvider implements ModelProvider {
+    private host: string;
+    private model: string;
+    private temperature: number;
+    private maxTokens: number;
+    private contextWindow?: number;
+    private timeout: number;
+
+    constructor(opts: OllamaProviderOptions) {
+        this.host = this.normalizeHost(opts.host || process.env.OLLAMA_HOST || DEFAULT_OLLAMA_HOST);
+        this.model = opts.model || 'llama3';
+        this.temperature = opts.temperature ?? 0.2;
+        this.maxTokens = opts.maxTokens ?? 512;
+        this.contextWindow = opts.contextWindow;
+        this.timeout = opts.timeout ?? 120000; // Local models can be slow on first load
+
+        logger.debug('Ollama provider initialized', {
+            host: this.host,
+            model: this.model,
+            temperature: this.temperature,
+            maxTokens: this.maxTokens,
+        });
+    }
+
+    tokenEstimator(): TokenEstimator {
+        return TokenEstimator.forModel('ollama', this.model, {
+            contextWindow: this.contextWindow,
+            maxTokens: this.maxTokens,
+        });
+    }
+
+    async complete(messages: Message[], options: CompletionOptions = {}): Promise<string> {
+        if (!messages || messages.length === 0) {
+            throw new Error('Messages array cannot be empty');
+        }
+
+        // Validate message structure
+        for (const msg of messages) {
+            if (!msg.role || !msg.content) {
+                throw new Error('Each message must have role and content');
+            }
+            if (!['system', 'user', 'assistant'].includes(msg.role)) {
+                throw new Error(`Invalid message role: ${msg.role}`);
+            }
+        }
+
+        let response: Response;
+        try {
+            logger.debug(`Calling Ollama at ${this.host} with model: ${this.model}`);
+
+            response = await fetch(`${this.host}/api/chat`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    model: this.model,
+                    stream: false,
+                    messages: messages.map((m) => ({
+                        role: m.role,
+                        content: m.content,
+                    })),
+                    options: {
+                        temperature: options.temperature ?? this.temperature,
+                        num_predict: this.maxTokens,
+                        num_ctx: this.contextWindow, // Omitted from the JSON when unset, keeping the server default
+                    },
+                }),
+                signal: AbortSignal.timeout(this.timeout),
+            });
+        } catch (error) {
+            return this.handleError(error);
+        }
+
+        let data: OllamaChatResponse;
+        try {
+            data = (await response.json()) as OllamaChatResponse;
+        } catch {
+            data = {};
+        }
+
+        if (!response.ok) {
+            return this.handleStatus(response.status, data.error);
+        }
+
+        const content = data.message?.content;
+
+        if (!content) {
+            throw new Error('No content received from Ollama');
+        }
+
+        logger.debug('Ollama call successful', {
+            tokens: (data.prompt_eval_count || 0) + (data.eval_count || 0),
+            model: data.model,
+        });
+
+        return content.trim();
+    }
+
+    private handleStatus(status: number, message?: string): never {
+        logger.error('Ollama API error', { status, message });
+
+        if (status === 404) {
+            throw new Error(
+                `Model '${this.model}' not found in Ollama. Run \`ollama pull ${this.model}\` first.`
+            );
+        }
+
+        throw new Error(`Ollama API error (${status}): ${message || 'unknown error'}`);
+    }
+
+    private handleError(error: unknown): never {
+        // fetch failures may come from another realm (undici), so avoid instanceof checks
+        const err = error as { name?: string; message?: string; code?: string; cause?: { code?: string } };
+
+        if (err && typeof err.message === 'string') {
+            const code = err.cause?.code || err.code;
+
+            if (code === 'ECONNREFUSED') {
+                throw new Error(
+                    `Cannot connect to Ollama at ${this.host}. Is \`ollama serve\` running?`
+                );
+            }
+
+            if (err.name === 'TimeoutError' || err.name === 'AbortError') {
+                throw new Error(`Ollama request timed out after ${this.timeout}ms`);
+            }
+
+            logger.error('Unexpected error during Ollama call', { error: err.message });
+            throw new Error(`Failed to call Ollama: ${err.message}`);
+        }
+
+        throw new Error('Unknown error occurred during Ollama call');
+    }
+
+    private normalizeHost(host: string): string {
+        const withScheme = /^https?:\/\//.test(host) ? host : `http://${host}`;
+        return withScheme.replace(/\/+$/, '');
+    }
+}
@@ -1,5 +1,6 @@
-import OpenAI from 'openai';
-import { ModelProvider, Message } from '../core/model.js';
+import OpenAI, { AzureOpenAI } from 'openai';
+import { ModelProvider, Message, CompletionOptions } from '../core/model.js';
+import { TokenEstimator } from '../core/tokens.js';
 import { logger } from '../utils/logger.js';
 
 export interface OpenAIProviderOptions {
@@ -7,17 +8,44 @@ export interface OpenAIProviderOptions {
     model: string;
     temperature?: number;
     maxTokens?: number;
+    contextWindow?: number; // Overrides the window known for the model
     maxRetries?: number;
     timeout?: number;
+    baseURL?: string; // OpenAI-compatible gateway (vLLM, LiteLLM, ...) or Azure resource endpoint
+    azure?: boolean;
+    apiVersion?: string; // Azure only
+    deployment?: string; // Azure only, defaults to model
 }
 
+export const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
 export class OpenAIProvider implements ModelProvider {
     private client: OpenAI;
+    private azure: boolean;
+    private deployment?: string;
     private model: string;
     private temperature: number;
     private maxTokens: number;
+    private contextWindow?: number;
 
     constructor(opts: OpenAIProviderOptions) {
+        this.azure = opts.azure ?? false;
+        this.model = opts.model || 'gpt-4o-mini';
+        this.client = this.azure ? this.createAzureClient(opts) : this.createClient(opts);
+        this.temperature = opts.temperature ?? 0.2;
+        this.maxTokens = opts.maxTokens ?? 512;
+        this.contextWindow = opts.contextWindow;
+
+        logger.debug('OpenAI provider initialized', {
+            azure: this.azure,
+            baseURL: this.client.baseURL,
+            model: this.model,
+            temperature: this.temperature,
+            maxTokens: this.maxTokens,
+        });
+    }
+
+    private createClient(opts: OpenAIProviderOptions): OpenAI {
         const apiKey = opts.apiKey || process.env.OPENAI_API_KEY;
 
         if (!apiKey) {
@@ -26,43 +54,62 @@ export class OpenAIProvider implements ModelProvider {
             );
         }
 
-        this.client = new OpenAI({
+        return new OpenAI({
             apiKey,
+            baseURL: opts.baseURL || process.env.OPENAI_BASE_URL || undefined,
             maxRetries: opts.maxRetries ?? 3,
             timeout: opts.timeout ?? 60000, // 60 seconds
         });
-        this.model = opts.model || 'gpt-4o-mini';
-        this.temperature = opts.temperature ?? 0.2;
-        this.maxTokens = opts.maxTokens ?? 512;
-
-        logger.debug('OpenAI provider initialized', {
-            model: this.model,
-            temperature: this.temperature,
-            maxTokens: this.maxTokens,
-        });
     }
 
-    async complete(messages: Message[]): Promise<string> {
-        if (!messages || messages.length === 0) {
-            throw new Error('Messages array cannot be empty');
+    /**
+     * Azure authenticates with an `api-key` header and routes by deployment
+     * name and api-version query parameter instead of the model field.
+     */
+    private createAzureClient(opts: OpenAIProviderOptions): OpenAI {
+        const apiKey = opts.apiKey || process.env.AZURE_OPENAI_API_KEY;
+        const endpoint = opts.baseURL || process.env.AZURE_OPENAI_ENDPOINT;
+
+        if (!apiKey) {
+            throw new Error(
+                'Azure OpenAI API key is required. Set AZURE_OPENAI_API_KEY environment variable or pass apiKey option.'
+            );
         }
 
-        // Validate message structure
-        for (const msg of messages) {
-            if (!msg.role || !msg.content) {
-                throw new Error('Each message must have role and content');
-            }
-            if (!['system', 'user', 'assistant'].includes(msg.role)) {
-                throw new Error(`Invalid message role: ${msg.role}`);
-            }
+        if (!endpoint) {
+            throw new Error(
+                'Azure OpenAI endpoint is required. Set model.base_url or AZURE_OPENAI_ENDPOINT environment variable.'
+            );
         }
 
+        this.deployment = opts.deployment || this.model;
+
+        return new AzureOpenAI({
+            apiKey,
+            endpoint,
+            apiVersion: opts.apiVersion || process.env.OPENAI_API_VERSION || DEFAULT_AZURE_API_VERSION,
+            deployment: this.deployment,
+            maxRetries: opts.maxRetries ?? 3,
+            timeout: opts.timeout ?? 60000, // 60 seconds
+        });
+    }
+
+    tokenEstimator(): TokenEstimator {
+        return TokenEstimator.forModel(this.azure ? 'azure' : 'openai', this.model, {
+            contextWindow: this.contextWindow,
+            maxTokens: this.maxTokens,
+        });
+    }
+
+    async complete(messages: Message[], options: CompletionOptions = {}): Promise<string> {
+        this.validateMessages(messages);
+
         try {
             logger.debug(`Calling OpenAI API with model: ${this.model}`);
 
             const response = await this.client.chat.completions.create({
                 model: this.model,
-                temperature: this.temperature,
+                temperature: options.temperature ?? this.temperature,
                 max_tokens: this.maxTokens,
                 messages: messages.map((m) => ({
                     role: m.role,
@@ -87,10 +134,99 @@ export class OpenAIProvider implements ModelProvider {
         }
     }
 
+    async candidates(messages: Message[], n: number): Promise<string[]> {
+        this.validateMessages(messages);
+
+        try {
+            logger.debug(`Requesting ${n} candidates from OpenAI API with model: ${this.model}`);
+
+            const response = await this.client.chat.completions.create({
+                model: this.model,
+                temperature: Math.max(this.temperature, 0.7), // Low temperatures yield identical choices
+                max_tokens: this.maxTokens,
+                n,
+                messages: messages.map((m) => ({
+                    role: m.role,
+                    content: m.content,
+                })),
+            });
+
+            const contents = response.choices
+                .map((choice) => choice.message?.content?.trim())
+                .filter((content): content is string => !!content);
+
+            if (contents.length === 0) {
+                throw new Error('No content received from OpenAI API');
+            }
+
+            logger.debug('OpenAI API call successful', {
+                tokens: response.usage?.total_tokens || 0,
+                model: response.model,
+                candidates: contents.length,
+            });
+
+            return contents;
+        } catch (error) {
+            return this.handleError(error);
+        }
+    }
+
+    async *stream(messages: Message[]): AsyncIterable<string> {
+        this.validateMessages(messages);
+
+        let received = false;
+
+        try {
+            logger.debug(`Streaming from OpenAI API with model: ${this.model}`);
+
+            const stream = await this.client.chat.completions.create({
+                model: this.model,
+                temperature: this.temperature,
+                max_tokens: this.maxTokens,
+                stream: true,
+                messages: messages.map((m) => ({
+                    role: m.role,
+                    content: m.content,
+                })),
+            });
+
+            for await (const chunk of stream) {
+                const delta = chunk.choices[0]?.delta?.content;
+                if (delta) {
+                    received = true;
+                    yield delta;
+                }
+            }
+        } catch (error) {
+            this.handleError(error);
+        }
+
+        if (!received) {
+            throw new Error('No content received from OpenAI API');
+        }
+
+        logger.debug('OpenAI API stream completed', { model: this.model });
+    }
+
+    private validateMessages(messages: Message[]): void {
+        if (!messages || messages.length === 0) {
+            throw new Error('Messages array cannot be empty');
+        }
+
+        // Validate message structure
+        for (const msg of messages) {
+            if (!msg.role || !msg.content) {
+                throw new Error('Each message must have role and content');
+            }
+            if (!['system', 'user', 'assistant'].includes(msg.role)) {
+                throw new Error(`Invalid message role: ${msg.role}`);
+            }
+        }
+    }
+
     private handleError(error: unknown): never {
         if (error instanceof OpenAI.APIError) {
-            const status = (error as any).status || error.status;
-            const code = (error as any).code || error.code;
+            const { status, code } = error;
 
             logger.error('OpenAI API error', {
                 status,
@@ -100,7 +236,11 @@ export class OpenAIProvider implements ModelProvider {
 
             // Handle specific error types
             if (status === 401) {
-                throw new Error('Invalid OpenAI API key. Check your OPENAI_API_KEY environment variable.');
+                throw new Error(
+                    this.azure
+                        ? 'Invalid Azure OpenAI API key. Check your AZURE_OPENAI_API_KEY environment variable.'
+                        : 'Invalid OpenAI API key. Check your OPENAI_API_KEY environment variable.'
+                );
             }
 
             if (status === 429) {
@@ -111,13 +251,19 @@ export class OpenAIProvider implements ModelProvider {
                 throw new Error('OpenAI API is temporarily unavailable. Please try again later.');
             }
 
+            if (code === 'DeploymentNotFound') {
+                throw new Error(
+                    `Azure deployment '${this.deployment}' not found. Check model.deployment and model.base_url.`
+                );
+            }
+
             if (code === 'model_not_found') {
                 throw new Error(`Model '${this.model}' not found. Check your model name.`);
             }
 
             if (code === 'context_length_exceeded') {
                 throw new Error(
-                    'Input is too long for the model. Try reducing the diff size or context.'
+                    "Input is too long for the model. Set model.context_window in .aicmt.yaml to the model's context size so the diff is trimmed to fit."
                 );
             }
 
@@ -0,0 +1,95 @@
+import { spawnSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { createInterface } from 'readline/promises';
+
+export interface Choice<T extends string> {
+    key: string;
+    label: string;
+    value: T;
+}
+
+export interface EditOptions {
+    fileName?: string;
+    comment?: string; // Instructions shown as # lines, stripped on save
+}
+
+/**
+ * Check whether we can prompt the user
+ */
+export function isInteractive(): boolean {
+    return process.stdin.isTTY === true && process.stdout.isTTY === true;
+}
+
+/**
+ * Ask a free-form question and return the trimmed answer
+ */
+export async function ask(question: string): Promise<string> {
+    const rl = createInterface({ input: process.stdin, output: process.stdout });
+
+    try {
+        const answer = await rl.question(question);
+        return answer.trim();
+    } finally {
+        rl.close();
+    }
+}
+
+/**
+ * Ask the user to pick one of several single-key choices
+ */
+export async function choose<T extends string>(question: string, choices: Choice<T>[]): Promise<T> {
+    const menu = choices.map((c) => c.label).join(', ');
+
+    for (;;) {
+        const answer = (await ask(`${question} ${menu}: `)).toLowerCase();
+        const choice = choices.find((c) => c.key === answer);
+
+        if (choice) {
+            return choice.value;
+        }
+    }
+}
+
+/**
+ * Resolve the editor the same way git does, minus core.editor
+ */
+export function resolveEditor(): string {
+    return process.env.GIT_EDITOR || process.env.VISUAL || process.env.EDITOR || 'vi';
+}
+
+/**
+ * Open text in the user's editor and return the saved result with
+ * comment lines removed
+ */
+export function editText(text: string, options: EditOptions = {}): string {
+    const dir = mkdtempSync(path.join(tmpdir(), 'aicmt-'));
+    const file = path.join(dir, options.fileName || 'COMMIT_EDITMSG');
+
+    try {
+        const comment = options.comment
+            ? '\n' + options.comment.split('\n').map((line) => `# ${line}`.trimEnd()).join('\n') + '\n'
+            : '';
+        writeFileSync(file, `${text}\n${comment}`, 'utf-8');
+
+        const editor = resolveEditor();
+        const result = spawnSync(`${editor} "${file}"`, { shell: true, stdio: 'inherit' });
+
+        if (result.error) {
+            throw new Error(`Failed to launch editor '${editor}': ${result.error.message}`);
+        }
+
+        if (result.status !== 0) {
+            throw new Error(`Editor '${editor}' exited with code ${result.status}`);
+        }
+
+        return readFileSync(file, 'utf-8')
+            .split('\n')
+            .filter((line) => !line.startsWith('#'))
+            .join('\n')
+            .trim();
+    } finally {
+        rmSync(dir, { recursive: true, force: true });
+    }
+}
@@ -227,9 +227,10 @@ export class Logger {
     }
 
     /**
-     * Create a simple spinner
+     * Create a simple spinner. A function message is read on every frame,
+     * so the text can show progress.
      */
-    spinner(message: string): () => void {
+    spinner(message: string | (() => string)): () => void {
         if (this.level === LogLevel.SILENT || !process.stdout.isTTY) {
             return () => { }; // No-op
         }
@@ -239,7 +240,7 @@ export class Logger {
 
         const interval = setInterval(() => {
             this.clearLine();
-            this.raw(`${frames[i]} ${message}`);
+            this.raw(`${frames[i]} ${typeof message === 'function' ? message() : message}`);
             i = (i + 1) % frames.length;
         }, 80);
 
@@ -0,0 +1,192 @@
+import { AnthropicProvider } from '../src/providers/anthropic.js';
+import { Message } from '../src/core/model.js';
+
+function jsonResponse(status: number, body: unknown): Response {
+    return {
+        ok: status >= 200 && status < 300,
+        status,
+        json: async () => body,
+    } as Response;
+}
+
+function apiError(status: number, type: string, message: string): Response {
+    return jsonResponse(status, { type: 'error', error: { type, message } });
+}
+
+describe('AnthropicProvider', () => {
+    let fetchMock: jest.SpyInstance;
+    let originalEnv: string | undefined;
+
+    beforeEach(() => {
+        originalEnv = process.env.ANTHROPIC_API_KEY;
+        process.env.ANTHROPIC_API_KEY = 'test-api-key';
+
+        fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+            jsonResponse(200, {
+                model: 'claude-3-5-haiku-latest',
+                content: [{ type: 'text', text: 'feat: add anthropic provider' }],
+                usage: { input_tokens: 40, output_tokens: 10 },
+            })
+        );
+    });
+
+    afterEach(() => {
+        if (originalEnv) {
+            process.env.ANTHROPIC_API_KEY = originalEnv;
+        } else {
+            delete process.env.ANTHROPIC_API_KEY;
+        }
+        fetchMock.mockRestore();
+    });
+
+    describe('constructor', () => {
+        it('should initialize with environment API key', () => {
+            expect(new AnthropicProvider({ model: 'claude-3-5-haiku-latest' })).toBeDefined();
+        });
+
+        it('should throw error if no API key provided', () => {
+            delete process.env.ANTHROPIC_API_KEY;
+
+            expect(() => {
+                new AnthropicProvider({ model: 'claude-3-5-haiku-latest' });
+            }).toThrow('Anthropic API key is required');
+        });
+    });
+
+    describe('complete', () => {
+        let provider: AnthropicProvider;
+
+        beforeEach(() => {
+            provider = new AnthropicProvider({ model: 'claude-3-5-haiku-latest', maxTokens: 300 });
+        });
+
+        it('should move system messages to the top-level system field', async () => {
+            const messages: Message[] = [
+                { role: 'system', content: 'You write commits' },
+                { role: 'user', content: 'Describe the diff' },
+                { role: 'assistant', content: 'feat: draft' },
+                { role: 'user', content: 'Shorter please' },
+            ];
+
+            const result = await provider.complete(messages);
+
+            expect(result).toBe('feat: add anthropic provider');
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+
+            const [url, init] = fetchMock.mock.calls[0];
+            expect(url).toBe('https://api.anthropic.com/v1/messages');
+            expect(init.headers).toEqual(
+                expect.objectContaining({
+                    'x-api-key': 'test-api-key',
+                    'anthropic-version': '2023-06-01',
+                })
+            );
+            expect(JSON.parse(init.body)).toEqual({
+                model: 'claude-3-5-haiku-latest',
+                max_tokens: 300,
+                temperature: 0.2,
+                system: 'You write commits',
+                messages: [
+                    { role: 'user', content: 'Describe the diff' },
+                    { role: 'assistant', content: 'feat: draft' },
+                    { role: 'user', content: 'Shorter please' },
+                ],
+            });
+        });
+
+        it('should omit system field when there is no system message', async () => {
+            await provider.complete([{ role: 'user', content: 'test' }]);
+
+            const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+            expect(body).not.toHaveProperty('system');
+        });
+
+        it('should join text blocks and trim the result', async () => {
+            fetchMock.mockResolvedValue(
+                jsonResponse(200, {
+                    content: [
+                        { type: 'text', text: '  fix: handle ' },
+                        { type: 'text', text: 'empty diff \n' },
+                    ],
+                })
+            );
+
+            await expect(provider.complete([{ role: 'user', content: 'test' }])).resolves.toBe(
+                'fix: handle empty diff'
+            );
+        });
+
+        it('should throw error for empty messages array', async () => {
+            await expect(provider.complete([])).rejects.toThrow('Messages array cannot be empty');
+        });
+
+        it('should handle missing content in response', async () => {
+            fetchMock.mockResolvedValue(jsonResponse(200, { content: [] }));
+
+            await expect(provider.complete([{ role: 'user', content: 'test' }])).rejects.toThrow(
+                'No content received from Anthropic API'
+            );
+        });
+    });
+
+    describe('error handling', () => {
+        let provider: AnthropicProvider;
+        const messages: Message[] = [{ role: 'user', content: 'test' }];
+
+        beforeEach(() => {
+            provider = new AnthropicProvider({ model: 'claude-3-5-haiku-latest' });
+        });
+
+        it('should handle 401 authentication error', async () => {
+            fetchMock.mockResolvedValue(apiError(401, 'authentication_error', 'invalid x-api-key'));
+
+            await expect(provider.complete(messages)).rejects.toThrow('Invalid Anthropic API key');
+        });
+
+        it('should handle 429 rate limit error', async () => {
+            fetchMock.mockResolvedValue(apiError(429, 'rate_limit_error', 'Too many requests'));
+
+            await expect(provider.complete(messages)).rejects.toThrow(
+                'Anthropic API rate limit exceeded'
+            );
+        });
+
+        it('should handle overloaded error', async () => {
+            fetchMock.mockResolvedValue(apiError(529, 'overloaded_error', 'Overloaded'));
+
+            await expect(provider.complete(messages)).rejects.toThrow('Anthropic API is overloaded');
+        });
+
+        it('should handle model not found error', async () => {
+            fetchMock.mockResolvedValue(apiError(404, 'not_found_error', 'model: claude-9'));
+
+            await expect(provider.complete(messages)).rejects.toThrow(
+                "Model 'claude-3-5-haiku-latest' not found"
+            );
+        });
+
+        it('should handle prompt too long error', async () => {
+            fetchMock.mockResolvedValue(
+                apiError(400, 'invalid_request_error', 'prompt is too long: 250000 tokens > 200000 maximum')
+            );
+
+            await expect(provider.complete(messages)).rejects.toThrow('Input is too long');
+        });
+
+        it('should handle generic API errors', async () => {
+            fetchMock.mockResolvedValue(apiError(500, 'api_error', 'Internal server error'));
+
+            await expect(provider.complete(messages)).rejects.toThrow(
+                'Anthropic API error: Internal server error'
+            );
+        });
+
+        it('should handle network errors', async () => {
+            fetchMock.mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+
+            await expect(provider.complete(messages)).rejects.toThrow(
+                'Failed to call Anthropic API'
+            );
+        });
+    });
+});
@@ -0,0 +1,193 @@
+import { BreakingChangeDetector } from '../src/core/breaking.js';
+import { FileAnalysis } from '../src/core/context.js';
+import { SymbolExtractor } from '../src/core/symbols.js';
+import { analyze, fileDiff, hunk } from './helpers.js';
+
+describe('BreakingChangeDetector', () => {
+    let detector: BreakingChangeDetector;
+
+    const detect = (entries: Array<[string, string[], FileAnalysis['status']?]>): string[] => {
+        const diffs = new Map(entries.map(([path, lines]) => [path, fileDiff(path, hunk(lines))]));
+        const files = entries.map(([path, , status = 'modified']) => {
+            const symbols = new SymbolExtractor().extract(path, diffs.get(path)!);
+            const exports = symbols.filter((symbol) => symbol.exported).map((symbol) => symbol.name);
+            return analyze(path, { status, exports, symbols });
+        });
+        return detector.detect(files, diffs);
+    };
+
+    beforeEach(() => {
+        detector = new BreakingChangeDetector();
+    });
+
+    describe('exported declarations', () => {
+        it('should flag removed exports', () => {
+            expect(
+                detect([
+                    [
+                        'src/core/git.ts',
+                        ['-export interface DiffOptions {', '-    staged?: boolean;', '-}', '-export const MAX_LINES = 100;'],
+                    ],
+                ])
+            ).toEqual([
+                'Removed exported interface `DiffOptions` from `src/core/git.ts`',
+                'Removed exported name `MAX_LINES` from `src/core/git.ts`',
+            ]);
+        });
+
+        it('should flag incompatible signature changes', () => {
+            expect(
+                detect([
+                    [
+                        'src/utils/wrap.ts',
+                        [
+                            '-export function wrapText(text: string, width: number): string {',
+                            '+export function wrapText(text: string): string {',
+                        ],
+                    ],
+                ])
+            ).toEqual(['Changed signature of exported function `wrapText` in `src/utils/wrap.ts`']);
+        });
+
+        it('should allow appending optional parameters', () => {
+            expect(
+                detect([
+                    [
+                        'src/utils/wrap.ts',
+                        [
+                            '-export function wrapText(text: string): string {',
+                            '+export function wrapText(text: string, width = 72, indent?: string): string {',
+                        ],
+                    ],
+                ])
+            ).toEqual([]);
+        });
+
+        it('should ignore exports moved to another file', () => {
+            expect(
+                detect([
+                    ['src/utils/old.ts', ['-export function slugify(text: string) {']],
+                    ['src/utils/text.ts', ['+export function slugify(text: string) {']],
+                ])
+            ).toEqual([]);
+        });
+
+        it('should ignore private declarations and body changes', () => {
+            expect(
+                detect([
+                    ['src/core/cache.ts', ['-function helper() {', ' export function lookup() {', '-    return 1;', '+    return 2;']],
+                ])
+            ).toEqual([]);
+        });
+    });
+
+    it('should not flag deleted files by themselves', () => {
+        expect(
+            detect([
+                ['src/core/legacy.ts', ['-const cache = new Map();'], 'deleted'],
+                ['tests/legacy.test.ts', ['-it()'], 'deleted'],
+                ['docs/OLD.md', ['-# Old'], 'deleted'],
+            ])
+        ).toEqual([]);
+    });
+
+    describe('CLI flags', () => {
+        it('should flag removed oclif flags', () => {
+            expect(
+                detect([
+                    [
+                        'src/commands/pr.ts',
+                        [
+                            "-        template: Flags.string({ description: 'Template file' }),",
+                            "         'dry-run': Flags.boolean({ description: 'Preview' }),",
+                        ],
+                    ],
+                ])
+            ).toEqual(['Removed CLI flag `--template` from `src/commands/pr.ts`']);
+        });
+
+        it('should flag removed commander and argparse options', () => {
+            expect(
+                detect([
+                    ['bin/cli.js', ["-program.option('-v, --verbose', 'Verbose output');"]],
+                    ['tool/main.py', ["-parser.add_argument('-o', '--output', help='Output file')"]],
+                ])
+            ).toEqual([
+                'Removed CLI flag `--verbose` from `bin/cli.js`',
+                'Removed CLI flag `--output` from `tool/main.py`',
+            ]);
+        });
+
+        it('should not flag flags that were only edited', () => {
+            expect(
+                detect([
+                    [
+                        'src/commands/pr.ts',
+                        [
+                            "-        base: Flags.string({ description: 'Base branch' }),",
+                            "+        base: Flags.string({ description: 'Base branch', default: 'main' }),",
+                        ],
+                    ],
+                ])
+            ).toEqual([]);
+        });
+    });
+
+    describe('config keys', () => {
+        it('should flag keys removed from config files', () => {
+            expect(
+                detect([
+                    ['config/default.yaml', ['-timeout: 30', ' retries: 3', '-# comment: ignored']],
+                    ['settings.json', ['-  "theme": "dark",']],
+                ])
+            ).toEqual([
+                'Removed config key `timeout` from `config/default.yaml`',
+                'Removed config key `theme` from `settings.json`',
+            ]);
+        });
+
+        it('should ignore key-like lines outside config data files', () => {
+            expect(
+                detect([
+                    ['src/core/render.ts', ['-    width: 72,']],
+                    ['src/core/config.ts', ['-        legacyMode: false,', '+        retries: 3,']],
+                ])
+            ).toEqual([]);
+        });
+    });
+
+    describe('HTTP routes', () => {
+        it('should flag removed and changed routes', () => {
+            expect(
+                detect([
+                    [
+                        'src/api/routes.ts',
+                        [
+                            "-router.get('/users/:id', getUser);",
+                            "+router.get('/v2/users/:id', getUser);",
+                            "-app.post('/login', login);",
+                            "+app.post('/login', loginWithAudit);",
+                        ],
+                    ],
+                    ['app/views.py', ["-@app.route('/health')"]],
+                    ['src/main/java/UserController.java', ['-    @GetMapping("/users")']],
+                    ['server/main.go', ['-\thttp.HandleFunc("GET /status", status)']],
+                ])
+            ).toEqual([
+                'Removed or changed HTTP route `GET /users/:id` in `src/api/routes.ts`',
+                'Removed or changed HTTP route `/health` in `app/views.py`',
+                'Removed or changed HTTP route `GET /users` in `src/main/java/UserController.java`',
+                'Removed or changed HTTP route `GET /status` in `server/main.go`',
+            ]);
+        });
+
+        it('should ignore routes moved between files', () => {
+            expect(
+                detect([
+                    ['src/api/old.ts', ["-router.get('/users', list);"]],
+                    ['src/api/users.ts', ["+router.get('/users', list);"]],
+                ])
+            ).toEqual([]);
+        });
+    });
+});
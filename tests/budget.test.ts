@@ -0,0 +1,85 @@
+import { DiffBudgeter } from '../src/core/budget.js';
+import { TokenEstimator } from '../src/core/tokens.js';
+import { added, fileDiff, hunk } from './helpers.js';
+
+describe('DiffBudgeter', () => {
+    // One token per character keeps the arithmetic easy to follow
+    const tokens = new TokenEstimator(100000, 1, 0);
+    const budgeter = new DiffBudgeter(tokens);
+
+    it('should return diffs that fit unchanged', () => {
+        const diff = fileDiff('src/index.ts', hunk(added(2)));
+
+        expect(budgeter.fit(diff, 10000)).toEqual({ diff, omitted: [], truncated: false });
+    });
+
+    it('should drop lock, minified and generated files first', () => {
+        const diff =
+            fileDiff('package-lock.json', hunk(added(200, '"resolved": "https://registry.npmjs.org"'))) +
+            fileDiff('public/app.min.js', hunk(added(50))) +
+            fileDiff('src/api.pb.go', hunk(added(50))) +
+            fileDiff('src/index.ts', hunk(added(3)));
+
+        const result = budgeter.fit(diff, 1000);
+
+        expect(result.diff).toContain('+++ b/src/index.ts');
+        expect(result.diff).not.toContain('package-lock.json');
+        expect(result.omitted).toEqual([
+            { path: 'package-lock.json', reason: 'lockfile' },
+            { path: 'public/app.min.js', reason: 'minified file' },
+            { path: 'src/api.pb.go', reason: 'generated file' },
+        ]);
+    });
+
+    it('should recognise files marked @generated', () => {
+        expect(DiffBudgeter.lowValueReason('src/schema.ts', '+// @generated by codegen\n+export {};')).toBe('generated file');
+        expect(DiffBudgeter.lowValueReason('src/schema.ts', '+export {};')).toBeUndefined();
+    });
+
+    it('should share the budget so one large file cannot crowd out the rest', () => {
+        const diff = fileDiff('src/big.ts', hunk(added(500))) + fileDiff('src/small.ts', hunk(added(2, 'small()')));
+
+        const result = budgeter.fit(diff, 3000);
+
+        expect(result.diff).toContain('+small()');
+        expect(result.diff).toContain('+++ b/src/big.ts');
+        expect(result.diff).toMatch(/more lines omitted/);
+        expect(tokens.estimate(result.diff)).toBeLessThanOrEqual(3000);
+    });
+
+    it('should give source files a larger share than docs', () => {
+        const diff = fileDiff('docs/guide.md', hunk(added(300))) + fileDiff('src/core.ts', hunk(added(300)));
+
+        const result = budgeter.fit(diff, 4000);
+        const [docs, source] = result.diff.split('diff --git').slice(1);
+
+        expect(source.length).toBeGreaterThan(docs.length * 2);
+    });
+
+    it('should keep every hunk header of a shortened file', () => {
+        const diff = fileDiff('src/core.ts', [...hunk(added(100)), ...hunk(added(100), 101), ...hunk(added(100), 201)]);
+
+        const result = budgeter.fit(diff, 1000);
+
+        expect(result.diff.match(/^@@ /gm)).toHaveLength(3);
+        expect(result.diff).toContain('... (100 more lines omitted)');
+    });
+
+    it('should list files that do not fit at all', () => {
+        const diff = fileDiff('src/a.ts', hunk(added(100))) + fileDiff('src/b.ts', hunk(added(100)));
+
+        const result = budgeter.fit(diff, 80);
+
+        expect(result.omitted).toEqual([
+            { path: 'src/a.ts', reason: 'over budget, +100/-0' },
+            { path: 'src/b.ts', reason: 'over budget, +100/-0' },
+        ]);
+    });
+
+    it('should shorten text that is not a git diff', () => {
+        const result = budgeter.fit(added(100).join('\n'), 500);
+
+        expect(result.diff).toContain('more lines omitted');
+        expect(result.omitted).toEqual([]);
+    });
+});
@@ -0,0 +1,142 @@
+import { TypeClassifier } from '../src/core/classifier.js';
+import { FileAnalysis } from '../src/core/context.js';
+import { analyze, fileDiff, hunk } from './helpers.js';
+
+describe('TypeClassifier', () => {
+    let classifier: TypeClassifier;
+
+    const classify = (entries: Array<[string, string[], FileAnalysis['status']?]>) => {
+        const diffs = new Map(entries.map(([path, lines]) => [path, fileDiff(path, hunk(lines))]));
+        return classifier.classify(
+            entries.map(([path, , status = 'modified']) => analyze(path, { status })),
+            diffs
+        );
+    };
+
+    beforeEach(() => {
+        classifier = new TypeClassifier();
+    });
+
+    describe('fix', () => {
+        it('should treat added guards as a fix', () => {
+            const evidence = classify([
+                [
+                    'src/core/git.ts',
+                    ['     const branch = this.getBranch();', '+    if (!branch) {', '+        return undefined;', '+    }'],
+                ],
+            ]);
+
+            expect(evidence).toEqual([
+                { type: 'fix', weight: 2, reason: 'Added null/undefined guard: src/core/git.ts' },
+            ]);
+        });
+
+        it('should treat added error handling as a fix', () => {
+            const evidence = classify([
+                [
+                    'app/client.py',
+                    ['+    try:', '         response = session.get(url)', '+    except Timeout:', '+        return None'],
+                ],
+            ]);
+
+            expect(evidence.map((hint) => hint.reason)).toContain('Added error handling: app/client.py');
+            expect(evidence.every((hint) => hint.type === 'fix')).toBe(true);
+        });
+
+        it('should ignore guards in new files and tests', () => {
+            expect(classify([['src/core/new.ts', ['+if (!value) {'], 'added']])).toEqual([]);
+            expect(classify([['tests/git.test.ts', ['+if (!value) {']]])).toEqual([]);
+        });
+    });
+
+    describe('refactor', () => {
+        it('should recognise consistent identifier renames', () => {
+            const evidence = classify([
+                [
+                    'src/core/user.ts',
+                    [
+                        '-export function getUser(id: string) {',
+                        '-    return getUser(parent);',
+                        '+export function findUser(id: string) {',
+                        '+    return findUser(parent);',
+                    ],
+                ],
+            ]);
+
+            expect(evidence).toEqual([
+                { type: 'refactor', weight: 3, reason: 'Renamed `getUser` to `findUser`: src/core/user.ts' },
+            ]);
+        });
+
+        it('should not treat unrelated edits as renames', () => {
+            const evidence = classify([['src/core/user.ts', ['-    return a + b;', '+    return a - b;']]]);
+
+            expect(evidence.some((hint) => hint.type === 'refactor')).toBe(false);
+        });
+
+        it('should recognise code moved between files', () => {
+            const block = ['export function slugify(text: string) {', '    return text.toLowerCase();', '}'];
+            const evidence = classify([
+                ['src/utils/old.ts', block.map((line) => `-${line}`)],
+                ['src/utils/text.ts', block.map((line) => `+${line}`)],
+            ]);
+
+            expect(evidence).toEqual([
+                {
+                    type: 'refactor',
+                    weight: 3,
+                    reason: 'Moved code without changing it: src/utils/old.ts, src/utils/text.ts',
+                },
+            ]);
+        });
+    });
+
+    describe('style', () => {
+        it('should recognise whitespace-only changes', () => {
+            const evidence = classify([['src/core/git.ts', ['-  if (a) {', '+    if (a) {', '+']]]);
+
+            expect(evidence).toEqual([
+                { type: 'style', weight: 3, reason: 'Whitespace-only changes: src/core/git.ts' },
+            ]);
+        });
+
+        it('should recognise formatter changes', () => {
+            const evidence = classify([
+                ['src/core/git.ts', ['-const a = "b"', '+const a = \'b\';', '-call(x, y,)', '+call(x, y)']],
+            ]);
+
+            expect(evidence).toEqual([
+                { type: 'style', weight: 3, reason: 'Formatting-only changes: src/core/git.ts' },
+            ]);
+        });
+    });
+
+    describe('perf', () => {
+        it('should notice caching', () => {
+            const evidence = classify([
+                ['src/core/config.ts', ['+    private cache = new Map<string, Config>();', '     load() {']],
+            ]);
+
+            expect(evidence.map((hint) => hint.reason)).toContain('Added caching/memoization: src/core/config.ts');
+        });
+
+        it('should notice loops replaced with lookups', () => {
+            const evidence = classify([
+                [
+                    'src/core/scope.ts',
+                    [
+                        '-    return scopes.find((scope) => scope.name === name);',
+                        '+    const scopesByName = new Map(scopes.map((scope) => [scope.name, scope]));',
+                        '+    return scopesByName.get(name);',
+                    ],
+                ],
+            ]);
+
+            expect(evidence).toContainEqual({
+                type: 'perf',
+                weight: 2,
+                reason: 'Replaced a loop or search with a lookup: src/core/scope.ts',
+            });
+        });
+    });
+});
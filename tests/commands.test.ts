@@ -11,21 +11,26 @@
 let CommitCommand;
 let PRCommand;
 let ComposeCommand;
+let SplitCommand;
+let LintCommitCommand;
 
 // Mock dependent modules used by commands
 jest.mock('../src/core/config');
 jest.mock('../src/core/git');
 jest.mock('../src/core/context');
 jest.mock('../src/core/prompt');
+jest.mock('../src/core/style');
 jest.mock('../src/core/model-factory');
 jest.mock('../src/core/issue-linker');
 jest.mock('../src/utils/logger');
+jest.mock('../src/utils/interactive');
 
 const { GitService } = require('../src/core/git');
 const { ContextBuilder } = require('../src/core/context');
 const { PromptBuilder } = require('../src/core/prompt');
 const { ModelFactory } = require('../src/core/model-factory');
 const { IssueLinker } = require('../src/core/issue-linker');
+const interactive = require('../src/utils/interactive');
 
 describe('CLI Commands', () => {
     let mockGit;
@@ -41,6 +46,14 @@ describe('CLI Commands', () => {
         mockGit.getDiff = jest.fn();
         mockGit.getChangedFiles = jest.fn();
         mockGit.createCommit = jest.fn();
+        mockGit.getRecentCommits = jest.fn().mockReturnValue([]);
+        mockGit.getCommit = jest.fn();
+        mockGit.getCommitDiff = jest.fn();
+        mockGit.unstageAll = jest.fn();
+        mockGit.applyToIndex = jest.fn();
+        mockGit.writeTree = jest.fn().mockReturnValue('snapshot-tree');
+        mockGit.readTree = jest.fn();
+        mockGit.getRepositoryRoot = jest.fn().mockReturnValue('/nonexistent-repo');
 
         GitService.mockImplementation(() => mockGit);
 
@@ -50,6 +63,7 @@ describe('CLI Commands', () => {
             type: { type: 'feat', confidence: 1, reasons: [] },
             scope: { scopes: ['api'], confidence: 1, reasons: [] },
             breaking: false,
+            breakingChanges: [],
             summary: 'Test summary',
             totalAdditions: 10,
             totalDeletions: 2,
@@ -76,6 +90,8 @@ describe('CLI Commands', () => {
         CommitCommand = require('../src/commands/commit').default;
         PRCommand = require('../src/commands/pr').default;
         ComposeCommand = require('../src/commands/compose').default;
+        SplitCommand = require('../src/commands/split').default;
+        LintCommitCommand = require('../src/commands/lint-commit').default;
     });
 
     describe('commit command', () => {
@@ -87,6 +103,13 @@ describe('CLI Commands', () => {
             await expect(cmd.run()).rejects.toThrow(/Must specify either --stage or --range/);
         });
 
+        it('rejects a --type that is not in the type registry', async () => {
+            const cmd = new CommitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { stage: true, type: 'feature' } });
+
+            await expect(cmd.run()).rejects.toThrow(/Unknown commit type: feature/);
+        });
+
         it('runs and performs dry-run without creating commit', async () => {
             const cmd = new CommitCommand();
             jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { stage: true, 'dry-run': true } });
@@ -101,19 +124,302 @@ describe('CLI Commands', () => {
             expect(mockGit.createCommit).not.toHaveBeenCalled();
         });
 
-        it('opens editor when --open flag provided and returns', async () => {
+        it('streams tokens when the provider supports it on a TTY', async () => {
+            const { logger } = require('../src/utils/logger');
+            const originalIsTTY = process.stdout.isTTY;
+            process.stdout.isTTY = true;
+            logger.spinner.mockReturnValue(() => { });
+
+            mockProvider.stream = jest.fn(async function* () {
+                yield 'feat(api): ';
+                yield 'stream it';
+            });
+
+            const cmd = new CommitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { stage: true, 'dry-run': true } });
+            mockGit.getDiff.mockReturnValue('diff');
+
+            try {
+                await expect(cmd.run()).resolves.toBeUndefined();
+            } finally {
+                process.stdout.isTTY = originalIsTTY;
+            }
+
+            expect(mockProvider.stream).toHaveBeenCalled();
+            expect(mockProvider.complete).not.toHaveBeenCalled();
+            // The raw output is JSON for the parser, so only progress is shown
+            expect(logger.spinner).toHaveBeenCalledWith(expect.any(Function));
+            expect(logger.raw).not.toHaveBeenCalledWith('stream it');
+        });
+
+        it('writes the message above the existing buffer with --message-file', async () => {
+            const fs = require('fs');
+            const dir = fs.mkdtempSync(require('path').join(require('os').tmpdir(), 'aicmt-msg-'));
+            const file = require('path').join(dir, 'COMMIT_EDITMSG');
+            fs.writeFileSync(file, '\n# Please enter the commit message for your changes.\n');
+
+            const cmd = new CommitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({
+                flags: { stage: true, 'dry-run': true, 'message-file': file, stream: false },
+            });
+            mockGit.getDiff.mockReturnValue('diff');
+
+            try {
+                await expect(cmd.run()).resolves.toBeUndefined();
+                expect(fs.readFileSync(file, 'utf-8')).toBe(
+                    'feat(api): add feature\n\nDetails\n\n# Please enter the commit message for your changes.\n'
+                );
+                expect(mockGit.createCommit).not.toHaveBeenCalled();
+            } finally {
+                fs.rmSync(dir, { recursive: true, force: true });
+            }
+        });
+
+        it('requires --yes when not running in a terminal', async () => {
+            const cmd = new CommitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { stage: true } });
+            mockGit.getDiff.mockReturnValue('diff');
+            interactive.isInteractive.mockReturnValue(false);
+
+            await expect(cmd.run()).rejects.toThrow(/Re-run with --yes/);
+            expect(mockGit.createCommit).not.toHaveBeenCalled();
+        });
+
+        it('commits without prompting when --yes is given', async () => {
+            const cmd = new CommitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { stage: true, yes: true } });
+            mockGit.getDiff.mockReturnValue('diff');
+
+            await expect(cmd.run()).resolves.toBeUndefined();
+
+            expect(interactive.choose).not.toHaveBeenCalled();
+            expect(mockGit.createCommit).toHaveBeenCalledWith(
+                expect.objectContaining({ message: 'feat(api): add feature\n\nDetails' })
+            );
+        });
+
+        it('renders structured model output through the commit template', async () => {
+            const cmd = new CommitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { stage: true, yes: true, issue: '42' } });
+            mockGit.getDiff.mockReturnValue('diff');
+            mockProvider.complete.mockResolvedValue(
+                'Here is the commit:\n```json\n' +
+                    JSON.stringify({ type: 'feat', scope: 'api', subject: 'add endpoint', body: 'Expose users.', footers: [] }) +
+                    '\n```'
+            );
+
+            await expect(cmd.run()).resolves.toBeUndefined();
+
+            expect(mockGit.createCommit).toHaveBeenCalledWith(
+                expect.objectContaining({ message: 'feat(api): add endpoint\n\nExpose users.\n\nCloses #42' })
+            );
+        });
+
+        it('opens editor when --open flag provided and commits the edited message', async () => {
+            const cmd = new CommitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { stage: true, open: true, yes: true } });
+            mockGit.getDiff.mockReturnValue('diff');
+            interactive.editText.mockReturnValue('fix(api): handle empty payload');
+
+            await expect(cmd.run()).resolves.toBeUndefined();
+
+            expect(interactive.editText).toHaveBeenCalledWith('feat(api): add feature\n\nDetails', expect.anything());
+            expect(mockGit.createCommit).toHaveBeenCalledWith(
+                expect.objectContaining({ message: 'fix(api): handle empty payload' })
+            );
+        });
+
+        it('validates an edited message against the configured types', async () => {
+            const { ConfigService } = require('../src/core/config');
+            ConfigService.prototype.getValue.mockImplementation((key) => (key === 'types' ? { deps: {} } : undefined));
+
+            const cmd = new CommitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { stage: true, open: true, yes: true } });
+            mockGit.getDiff.mockReturnValue('diff');
+            interactive.editText.mockReturnValue('deps: bump lodash');
+
+            await expect(cmd.run()).resolves.toBeUndefined();
+
+            expect(mockGit.createCommit).toHaveBeenCalledWith(expect.objectContaining({ message: 'deps: bump lodash' }));
+        });
+
+        it('refuses to commit an edited message that fails validation', async () => {
+            const cmd = new CommitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { stage: true, open: true, yes: true } });
+            mockGit.getDiff.mockReturnValue('diff');
+            interactive.editText.mockReturnValue('Fixed some stuff.');
+
+            await expect(cmd.run()).rejects.toThrow(/invalid message/);
+            expect(mockGit.createCommit).not.toHaveBeenCalled();
+        });
+
+        it('regenerates the message before accepting', async () => {
+            const cmd = new CommitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { stage: true } });
+            mockGit.getDiff.mockReturnValue('diff');
+            interactive.isInteractive.mockReturnValue(true);
+            interactive.choose.mockResolvedValueOnce('regenerate').mockResolvedValueOnce('accept');
+            mockProvider.complete
+                .mockResolvedValueOnce('feat(api): first take')
+                .mockResolvedValueOnce('feat(api): second take');
+
+            await expect(cmd.run()).resolves.toBeUndefined();
+
+            expect(mockProvider.complete).toHaveBeenCalledTimes(2);
+            expect(mockGit.createCommit).toHaveBeenCalledWith(
+                expect.objectContaining({ message: 'feat(api): second take' })
+            );
+        });
+
+        it('passes the hint and previous message when regenerating with a hint', async () => {
             const cmd = new CommitCommand();
-            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { stage: true, open: true } });
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { stage: true } });
             mockGit.getDiff.mockReturnValue('diff');
+            interactive.isInteractive.mockReturnValue(true);
+            interactive.choose.mockResolvedValueOnce('hint').mockResolvedValueOnce('accept');
+            interactive.ask.mockResolvedValue('mention the cache');
+            mockProvider.complete
+                .mockResolvedValueOnce('feat(api): first take')
+                .mockResolvedValueOnce('perf(api): cache lookups');
+
+            await expect(cmd.run()).resolves.toBeUndefined();
+
+            expect(mockProvider.complete).toHaveBeenLastCalledWith([
+                { role: 'user', content: 'prompt' },
+                { role: 'assistant', content: 'feat(api): first take' },
+                { role: 'user', content: 'Revise the commit message: mention the cache' },
+            ]);
+            expect(mockGit.createCommit).toHaveBeenCalledWith(
+                expect.objectContaining({ message: 'perf(api): cache lookups' })
+            );
+        });
+
+        it('auto-picks the best-scoring candidate when not interactive', async () => {
+            const cmd = new CommitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { stage: true, yes: true, candidates: 3 } });
+            mockGit.getDiff.mockReturnValue('diff');
+            mockProvider.candidates = jest
+                .fn()
+                .mockResolvedValue(['Added stuff.', 'feat(api): Added endpoint', 'feat(api): add endpoint']);
+
+            await expect(cmd.run()).resolves.toBeUndefined();
+
+            expect(mockProvider.candidates).toHaveBeenCalledWith(expect.anything(), 3);
+            expect(interactive.choose).not.toHaveBeenCalled();
+            expect(mockGit.createCommit).toHaveBeenCalledWith(
+                expect.objectContaining({ message: 'feat(api): add endpoint' })
+            );
+        });
+
+        it('lets the user pick a candidate interactively', async () => {
+            const cmd = new CommitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { stage: true, candidates: 2 } });
+            mockGit.getDiff.mockReturnValue('diff');
+            interactive.isInteractive.mockReturnValue(true);
+            interactive.choose.mockResolvedValueOnce('1').mockResolvedValueOnce('accept');
+            mockProvider.complete
+                .mockResolvedValueOnce('feat(api): add endpoint')
+                .mockResolvedValueOnce('feat(api): expose endpoint');
+
+            await expect(cmd.run()).resolves.toBeUndefined();
+
+            expect(interactive.choose.mock.calls[0][1]).toHaveLength(2);
+            expect(mockGit.createCommit).toHaveBeenCalledWith(
+                expect.objectContaining({ message: 'feat(api): expose endpoint' })
+            );
+        });
+
+        it('does not commit when the user aborts', async () => {
+            const cmd = new CommitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { stage: true } });
+            mockGit.getDiff.mockReturnValue('diff');
+            interactive.isInteractive.mockReturnValue(true);
+            interactive.choose.mockResolvedValue('abort');
 
             await expect(cmd.run()).resolves.toBeUndefined();
 
-            // Should not create commit because open path returns early
             expect(mockGit.createCommit).not.toHaveBeenCalled();
         });
+
+        describe('reverts', () => {
+            const sha = 'abc1234def5678abc1234def5678abc1234def56';
+            const original = [
+                'diff --git a/src/a.ts b/src/a.ts',
+                '--- a/src/a.ts',
+                '+++ b/src/a.ts',
+                '@@ -1 +1 @@',
+                '-const a = 1;',
+                '+const a = 2;',
+            ].join('\n');
+            const inverse = original.replace('-const a = 1;\n+const a = 2;', '-const a = 2;\n+const a = 1;');
+
+            it('writes a revert message without the model when staged changes undo a recent commit', async () => {
+                const cmd = new CommitCommand();
+                jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { stage: true, yes: true } });
+                mockGit.getDiff.mockReturnValue(inverse);
+                mockGit.getRecentCommits.mockReturnValue([{ sha, subject: 'feat(core): bump a', body: '' }]);
+                mockGit.getCommitDiff.mockReturnValue(original);
+
+                await expect(cmd.run()).resolves.toBeUndefined();
+
+                expect(mockProvider.complete).not.toHaveBeenCalled();
+                expect(mockGit.createCommit).toHaveBeenCalledWith(
+                    expect.objectContaining({ message: `revert: feat(core): bump a\n\nThis reverts commit ${sha}.` })
+                );
+            });
+
+            it('uses the commit given with --revert and adds the reason', async () => {
+                const cmd = new CommitCommand();
+                const log = jest.spyOn(cmd, 'log').mockImplementation(() => undefined);
+                jest.spyOn(cmd, 'parse').mockResolvedValue({
+                    flags: { stage: true, yes: true, revert: 'HEAD~2', reason: 'It broke the release build.' },
+                });
+                mockGit.getDiff.mockReturnValue(inverse);
+                mockGit.getCommit.mockReturnValue({ sha, subject: 'feat(core): bump a', body: '' });
+                mockGit.getCommitDiff.mockReturnValue(original.replace(/a\.ts/g, 'b.ts'));
+
+                await expect(cmd.run()).resolves.toBeUndefined();
+
+                expect(mockGit.getCommit).toHaveBeenCalledWith('HEAD~2');
+                expect(log).toHaveBeenCalledWith(expect.stringContaining('do not exactly undo abc1234'));
+                expect(mockGit.createCommit).toHaveBeenCalledWith(
+                    expect.objectContaining({
+                        message: `revert: feat(core): bump a\n\nThis reverts commit ${sha}.\n\nIt broke the release build.`,
+                    })
+                );
+            });
+
+            it('does not offer to regenerate a revert message', async () => {
+                const cmd = new CommitCommand();
+                jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { stage: true, revert: sha } });
+                mockGit.getDiff.mockReturnValue(inverse);
+                mockGit.getCommit.mockReturnValue({ sha, subject: 'feat(core): bump a', body: '' });
+                mockGit.getCommitDiff.mockReturnValue(original);
+                interactive.isInteractive.mockReturnValue(true);
+                interactive.choose.mockResolvedValue('accept');
+
+                await expect(cmd.run()).resolves.toBeUndefined();
+
+                const choices = interactive.choose.mock.calls[0][1].map((choice) => choice.value);
+                expect(choices).toEqual(['accept', 'edit', 'abort']);
+                expect(mockGit.createCommit).toHaveBeenCalled();
+            });
+        });
     });
 
     describe('pr command', () => {
+        beforeEach(() => {
+            mockProvider.complete.mockResolvedValue(
+                JSON.stringify({
+                    summary: 'Add login',
+                    changes: ['OAuth2 flow', 'JWT handling'],
+                    breaking: null,
+                    migration: [],
+                    testing: 'Run npm test',
+                })
+            );
+        });
+
         it('errors when no changes between base and head', async () => {
             const cmd = new PRCommand();
             jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { base: 'main', head: 'feature' } });
@@ -139,6 +445,100 @@ describe('CLI Commands', () => {
 
             writeSpy.mockRestore();
         });
+
+        it('leaves ignored files out of the diff sent to the model', async () => {
+            const cmd = new PRCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({
+                flags: { base: 'main', head: 'feature', 'dry-run': true, 'include-diff': true, chunked: false },
+            });
+
+            const source = 'diff --git a/src/a.ts b/src/a.ts\n--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-a\n+b\n';
+            const lock = 'diff --git a/package-lock.json b/package-lock.json\n--- a/package-lock.json\n+++ b/package-lock.json\n@@ -1 +1 @@\n-1\n+2\n';
+            mockGit.getDiff.mockReturnValue(source + lock);
+
+            await expect(cmd.run()).resolves.toBeUndefined();
+
+            expect(mockContextBuilder.buildContext).toHaveBeenCalledWith(
+                expect.objectContaining({ ignore: expect.anything() })
+            );
+            expect(mockPromptBuilder.buildPRPrompt.mock.calls[0][3]).toBe(source);
+        });
+
+        it('summarizes the diff in parts with --chunked', async () => {
+            const writeSpy = jest.spyOn(require('fs'), 'writeFileSync').mockImplementation(() => { });
+
+            const cmd = new PRCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({
+                flags: { base: 'main', head: 'feature', 'include-diff': true, chunked: true, concurrency: 2 },
+            });
+            mockGit.getDiff.mockReturnValue(
+                'diff --git a/src/a.ts b/src/a.ts\n+++ b/src/a.ts\n+a\ndiff --git a/docs/b.md b/docs/b.md\n+++ b/docs/b.md\n+b\n'
+            );
+            mockPromptBuilder.buildChunkSummaryPrompt = jest.fn().mockReturnValue([{ role: 'user', content: 'chunk' }]);
+            require('../src/utils/logger').logger.spinner.mockReturnValue(() => { });
+
+            await expect(cmd.run()).resolves.toBeUndefined();
+
+            expect(mockPromptBuilder.buildChunkSummaryPrompt).toHaveBeenCalledTimes(1);
+            const options = mockPromptBuilder.buildPRPrompt.mock.calls[0][4];
+            expect(options.summaries).toEqual([
+                expect.objectContaining({ name: 'src, docs', files: ['src/a.ts', 'docs/b.md'] }),
+            ]);
+
+            writeSpy.mockRestore();
+        });
+
+        it('renders structured output through the PR template', async () => {
+            const writeSpy = jest.spyOn(require('fs'), 'writeFileSync').mockImplementation(() => { });
+
+            const cmd = new PRCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { base: 'main', head: 'feature', issue: '42' } });
+            mockGit.getDiff.mockReturnValue('diff');
+
+            await expect(cmd.run()).resolves.toBeUndefined();
+
+            const written = writeSpy.mock.calls[0][1];
+            expect(written).toContain('## Summary\n\nAdd login\n');
+            expect(written).toContain('- OAuth2 flow\n- JWT handling\n');
+            expect(written).toContain('## Testing\n\nRun npm test\n');
+            expect(written).toMatch(/Closes #42\n$/);
+
+            writeSpy.mockRestore();
+        });
+
+        it('errors when required sections are missing', async () => {
+            const writeSpy = jest.spyOn(require('fs'), 'writeFileSync').mockImplementation(() => { });
+
+            const cmd = new PRCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { base: 'main', head: 'feature' } });
+            mockGit.getDiff.mockReturnValue('diff');
+            mockProvider.complete.mockResolvedValue('{"summary": "Add login", "changes": []}');
+
+            await expect(cmd.run()).rejects.toThrow(/missing required sections: changes/);
+            expect(writeSpy).not.toHaveBeenCalled();
+
+            writeSpy.mockRestore();
+        });
+
+        it('renders the description through a custom template', async () => {
+            const fs = require('fs');
+            const writeSpy = jest.spyOn(fs, 'writeFileSync').mockImplementation(() => { });
+            const readSpy = jest.spyOn(fs, 'readFileSync').mockReturnValue('{{summary}}{{#changes}}\n* {{.}}{{/changes}}');
+            const existsSpy = jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+
+            const cmd = new PRCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { base: 'main', head: 'feature', template: 'tpl.md' } });
+            mockGit.getDiff.mockReturnValue('diff');
+            mockProvider.complete.mockResolvedValue('## Summary\nAdd login\n\n## Changes\n- OAuth2 flow\n- JWT handling');
+
+            await expect(cmd.run()).resolves.toBeUndefined();
+
+            expect(writeSpy).toHaveBeenCalledWith('PR_DESCRIPTION.md', 'Add login\n* OAuth2 flow\n* JWT handling\n', 'utf-8');
+
+            writeSpy.mockRestore();
+            readSpy.mockRestore();
+            existsSpy.mockRestore();
+        });
     });
 
     describe('compose command', () => {
@@ -163,6 +563,220 @@ describe('CLI Commands', () => {
             expect(mockProvider.complete).toHaveBeenCalled();
             expect(mockGit.createCommit).not.toHaveBeenCalled();
         });
+
+        it('commits the rendered message rather than the raw model output', async () => {
+            const cmd = new ComposeCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { stage: true, scope: 'core' } });
+            mockGit.getDiff.mockReturnValue('diff');
+            mockProvider.complete.mockResolvedValue('{"type": "fix", "scope": "api", "subject": "handle timeouts."}');
+
+            await expect(cmd.run()).resolves.toBeUndefined();
+
+            expect(mockGit.createCommit).toHaveBeenCalledWith(
+                expect.objectContaining({ message: 'fix(core): handle timeouts' })
+            );
+        });
     });
-});
 
+    describe('split command', () => {
+        const file = (path) => ({ path, keywords: path.endsWith('.md') ? ['docs'] : [] });
+        const chunk = (path) => `diff --git a/${path} b/${path}\n--- a/${path}\n+++ b/${path}\n@@ -1 +1 @@\n-a\n+b\n`;
+
+        beforeEach(() => {
+            mockContextBuilder.inferScopeFromPath = jest.fn((path) => (path.startsWith('src/') ? [path.split('/')[1]] : []));
+            mockContextBuilder.buildContext.mockImplementation(async (options) => ({
+                files: ['src/core/git.ts', 'docs/usage.md']
+                    .filter((path) => !options.paths || options.paths.includes(path))
+                    .map(file),
+                type: { type: 'feat', confidence: 1, reasons: [] },
+                scope: { scopes: [], confidence: 0.5, reasons: [] },
+                breaking: false,
+                breakingChanges: [],
+                summary: '',
+                totalAdditions: 2,
+                totalDeletions: 2,
+            }));
+            mockGit.getDiff.mockReturnValue(chunk('src/core/git.ts') + chunk('docs/usage.md'));
+            mockProvider.complete
+                .mockResolvedValueOnce('{"type": "fix", "scope": "core", "subject": "handle detached HEAD"}')
+                .mockResolvedValueOnce('{"type": "docs", "subject": "describe split"}');
+        });
+
+        it('shows the plan without committing on dry-run', async () => {
+            const cmd = new SplitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { 'dry-run': true } });
+
+            await expect(cmd.run()).resolves.toBeUndefined();
+
+            expect(mockContextBuilder.buildContext).toHaveBeenCalledWith({ staged: true });
+            expect(mockContextBuilder.buildContext).toHaveBeenCalledWith({
+                staged: true,
+                paths: ['src/core/git.ts'],
+                ignore: expect.anything(),
+            });
+            expect(mockContextBuilder.buildContext).toHaveBeenCalledWith({
+                staged: true,
+                paths: ['docs/usage.md'],
+                ignore: expect.anything(),
+            });
+            expect(mockGit.unstageAll).not.toHaveBeenCalled();
+            expect(mockGit.createCommit).not.toHaveBeenCalled();
+        });
+
+        it('stages and commits each group in order', async () => {
+            const cmd = new SplitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { yes: true } });
+
+            await expect(cmd.run()).resolves.toBeUndefined();
+
+            expect(mockGit.unstageAll).toHaveBeenCalledTimes(1);
+            expect(mockGit.applyToIndex.mock.calls).toEqual([[chunk('src/core/git.ts')], [chunk('docs/usage.md')]]);
+            expect(mockGit.createCommit.mock.calls.map(([options]) => options.message)).toEqual([
+                'fix(core): handle detached HEAD',
+                'docs: describe split',
+            ]);
+        });
+
+        it('restages the remaining groups when a commit fails', async () => {
+            const cmd = new SplitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { yes: true } });
+            mockGit.createCommit.mockImplementationOnce(() => {
+                throw new Error('pre-commit hook failed');
+            });
+
+            await expect(cmd.run()).rejects.toThrow(/Stopped after 0 of 2 commits: pre-commit hook failed/);
+
+            expect(mockGit.readTree).toHaveBeenCalledWith('snapshot-tree');
+            expect(mockGit.applyToIndex).toHaveBeenCalledTimes(1);
+        });
+
+        it('restores the staged changes when a patch does not apply', async () => {
+            const cmd = new SplitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { yes: true } });
+            mockGit.applyToIndex
+                .mockImplementationOnce(() => undefined)
+                .mockImplementationOnce(() => {
+                    throw new Error('patch does not apply');
+                });
+
+            await expect(cmd.run()).rejects.toThrow(/Stopped after 1 of 2 commits: patch does not apply/);
+
+            expect(mockGit.createCommit).toHaveBeenCalledTimes(1);
+            expect(mockGit.readTree).toHaveBeenCalledWith('snapshot-tree');
+            expect(mockGit.applyToIndex).toHaveBeenCalledTimes(2);
+        });
+
+        it('does nothing when the changes form one commit', async () => {
+            const cmd = new SplitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ flags: { yes: true } });
+            mockContextBuilder.buildContext.mockResolvedValue({ files: [file('src/core/git.ts')] });
+
+            await expect(cmd.run()).resolves.toBeUndefined();
+
+            expect(mockProvider.complete).not.toHaveBeenCalled();
+            expect(mockGit.createCommit).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('lint-commit command', () => {
+        const commit = (sha, message) => ({ sha, subject: message.split('\n')[0], body: '', message });
+
+        beforeEach(() => {
+            mockGit.getCommitsInRange = jest.fn().mockReturnValue([
+                commit('a'.repeat(40), 'feat(api): add login'),
+                commit('b'.repeat(40), "Merge branch 'main' into feature"),
+                commit('c'.repeat(40), 'Added logout.'),
+            ]);
+        });
+
+        it('lints every commit in --range and fails on errors', async () => {
+            const cmd = new LintCommitCommand();
+            const log = jest.spyOn(cmd, 'log').mockImplementation(() => {});
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ args: {}, flags: { range: 'origin/main..HEAD', format: 'json' } });
+
+            await expect(cmd.run()).rejects.toThrow(/1 of 3 commit message\(s\) failed linting/);
+
+            expect(mockGit.getCommitsInRange).toHaveBeenCalledWith('origin/main..HEAD');
+            const report = JSON.parse(log.mock.calls[0][0]);
+            expect(report.messages.map((message) => message.valid)).toEqual([true, true, false]);
+            expect(report.messages[2].problems[0]).toEqual({
+                rule: 'subject-full-stop',
+                level: 'error',
+                message: 'Subject line should not end with a period',
+            });
+        });
+
+        it('builds the range from --from and --to', async () => {
+            const cmd = new LintCommitCommand();
+            jest.spyOn(cmd, 'log').mockImplementation(() => {});
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ args: {}, flags: { from: 'v1.0.0', to: 'HEAD', format: 'text' } });
+            mockGit.getCommitsInRange.mockReturnValue([commit('a'.repeat(40), 'feat(api): add login')]);
+
+            await expect(cmd.run()).resolves.toBeUndefined();
+
+            expect(mockGit.getCommitsInRange).toHaveBeenCalledWith('v1.0.0..HEAD');
+        });
+
+        describe('--fix', () => {
+            const fs = require('fs');
+            const os = require('os');
+            const path = require('path');
+            let file;
+
+            beforeEach(() => {
+                file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'aicmt-fix-')), 'COMMIT_EDITMSG');
+                mockPromptBuilder.buildFixPrompt = jest.fn().mockReturnValue([{ role: 'user', content: 'fix-prompt' }]);
+            });
+
+            afterEach(() => {
+                fs.rmSync(path.dirname(file), { recursive: true, force: true });
+            });
+
+            const run = (flags) => {
+                const cmd = new LintCommitCommand();
+                jest.spyOn(cmd, 'log').mockImplementation(() => {});
+                jest.spyOn(cmd, 'parse').mockResolvedValue({ args: { file }, flags: { format: 'text', fix: true, ...flags } });
+                return cmd.run();
+            };
+
+            it('rewrites the file with the mechanical fixes', async () => {
+                fs.writeFileSync(file, 'feat(api): Added login.\n');
+
+                await expect(run({})).resolves.toBeUndefined();
+
+                expect(fs.readFileSync(file, 'utf-8')).toBe('feat(api): add login\n');
+                expect(mockProvider.complete).not.toHaveBeenCalled();
+            });
+
+            it('asks the model only when the fixes are not enough', async () => {
+                fs.writeFileSync(file, 'Added login\n');
+                mockProvider.complete.mockResolvedValue('```\nfeat: add login\n```');
+
+                await expect(run({ 'ai-fix': true })).resolves.toBeUndefined();
+
+                expect(mockPromptBuilder.buildFixPrompt).toHaveBeenCalledWith(
+                    'Added login',
+                    [expect.stringContaining('Conventional Commit format')],
+                    72
+                );
+                expect(fs.readFileSync(file, 'utf-8')).toBe('feat: add login\n');
+            });
+
+            it('keeps the message when the rewrite is no better', async () => {
+                fs.writeFileSync(file, 'Added login\n');
+                mockProvider.complete.mockResolvedValue('Still not conventional');
+
+                await expect(run({ 'ai-fix': true })).rejects.toThrow(/Commit message has 1 error/);
+
+                expect(fs.readFileSync(file, 'utf-8')).toBe('Added login\n');
+            });
+        });
+
+        it('refuses a file and a range together', async () => {
+            const cmd = new LintCommitCommand();
+            jest.spyOn(cmd, 'parse').mockResolvedValue({ args: { file: 'msg.txt' }, flags: { range: 'HEAD~3..HEAD', format: 'text' } });
+
+            await expect(cmd.run()).rejects.toThrow(/either a message file or a commit range/);
+        });
+    });
+});
@@ -0,0 +1,157 @@
+import { CommitParser } from '../src/core/commit-parser.js';
+import { CommitTypeRegistry } from '../src/core/commit-types.js';
+
+describe('CommitParser', () => {
+    let parser: CommitParser;
+
+    beforeEach(() => {
+        parser = new CommitParser();
+    });
+
+    describe('JSON output', () => {
+        it('should parse a complete JSON object', () => {
+            const result = parser.parse(
+                JSON.stringify({
+                    type: 'feat',
+                    scope: 'auth',
+                    subject: 'add token refresh',
+                    body: 'Tokens are refreshed before they expire.',
+                    breaking_description: null,
+                    footers: ['Refs: #42'],
+                })
+            );
+
+            expect(result.source).toBe('json');
+            expect(result.warnings).toHaveLength(0);
+            expect(result.commit).toEqual({
+                type: 'feat',
+                scope: 'auth',
+                subject: 'add token refresh',
+                body: 'Tokens are refreshed before they expire.',
+                breaking: false,
+                breaking_description: undefined,
+                footers: ['Refs: #42'],
+            });
+        });
+
+        it('should strip code fences and preamble', () => {
+            const result = parser.parse(
+                'Here is the commit:\n```json\n{"type": "fix", "subject": "handle empty diff"}\n```'
+            );
+
+            expect(result.source).toBe('json');
+            expect(result.commit?.type).toBe('fix');
+            expect(result.commit?.subject).toBe('handle empty diff');
+            expect(result.commit?.footers).toEqual([]);
+        });
+
+        it('should clean up repeated prefixes and trailing periods in the subject', () => {
+            const result = parser.parse('{"type": "feat", "scope": "api", "subject": "feat(api): add endpoint."}');
+
+            expect(result.commit?.subject).toBe('add endpoint');
+        });
+
+        it('should mark commits with a breaking description as breaking', () => {
+            const result = parser.parse(
+                '{"type": "refactor", "subject": "drop v1 routes", "breaking_description": "v1 routes are gone"}'
+            );
+
+            expect(result.commit?.breaking).toBe(true);
+            expect(result.commit?.breaking_description).toBe('v1 routes are gone');
+        });
+
+        it('should fall back to text when required fields are missing', () => {
+            const result = parser.parse('{"type": "feat"}');
+
+            expect(result.source).toBe('raw');
+            expect(result.warnings[0]).toContain('subject is required');
+        });
+
+        it('should warn about malformed JSON', () => {
+            const result = parser.parse('{"type": "feat", "subject": ');
+
+            expect(result.source).toBe('raw');
+            expect(result.warnings).toContain('Model returned malformed JSON');
+        });
+    });
+
+    describe('text output', () => {
+        it('should parse a plain Conventional Commit', () => {
+            const result = parser.parse('feat(api): add feature\n\nDetails');
+
+            expect(result.source).toBe('text');
+            expect(result.commit).toEqual(
+                expect.objectContaining({ type: 'feat', scope: 'api', subject: 'add feature', body: 'Details' })
+            );
+        });
+
+        it('should ignore braces in prose', () => {
+            const result = parser.parse('fix: escape {braces} in templates');
+
+            expect(result.source).toBe('text');
+            expect(result.warnings).toHaveLength(0);
+        });
+
+        it('should skip preamble and emoji before the header', () => {
+            const result = parser.parse('Sure! Here you go:\n\n🐛 fix!: reject empty tokens');
+
+            expect(result.commit).toEqual(
+                expect.objectContaining({ type: 'fix', subject: 'reject empty tokens', breaking: true })
+            );
+            expect(result.warnings).toContain('Ignored text before the commit header');
+        });
+
+        it('should split footers from the body', () => {
+            const result = parser.parse(
+                'feat: add export\n\nAdds CSV export.\n\nBREAKING CHANGE: export path moved\nRefs: #12'
+            );
+
+            expect(result.commit?.body).toBe('Adds CSV export.');
+            expect(result.commit?.breaking_description).toBe('export path moved');
+            expect(result.commit?.footers).toEqual(['Refs: #12']);
+        });
+
+        it('should keep a lone trailer-like paragraph in the body', () => {
+            const result = parser.parse('docs: explain setup\n\nNote: requires Node 20');
+
+            expect(result.commit?.body).toBe('Note: requires Node 20');
+            expect(result.commit?.footers).toEqual([]);
+        });
+    });
+
+    describe('commit types', () => {
+        beforeEach(() => {
+            parser = new CommitParser(new CommitTypeRegistry({ deps: {} }));
+        });
+
+        it('should map an unknown type to the closest registered one', () => {
+            const result = parser.parse(JSON.stringify({ type: 'feature', subject: 'feature: add login' }));
+
+            expect(result.source).toBe('json');
+            expect(result.commit?.type).toBe('feat');
+            expect(result.commit?.subject).toBe('add login');
+            expect(result.warnings).toEqual(['Model used unknown commit type "feature"; using "feat"']);
+        });
+
+        it('should keep configured types', () => {
+            expect(parser.parse('deps: bump lodash').commit?.type).toBe('deps');
+        });
+
+        it('should reject a type nothing is close to', () => {
+            const json = parser.parse(JSON.stringify({ type: 'wip', subject: 'stuff' }));
+            const text = parser.parse('wip: stuff');
+
+            expect(json.commit).toBeUndefined();
+            expect(text.source).toBe('raw');
+            expect(text.warnings).toContain('Model used unknown commit type "wip"');
+        });
+    });
+
+    it('should return raw text when nothing can be parsed', () => {
+        const result = parser.parse('```\nUpdated some files\n```');
+
+        expect(result.commit).toBeUndefined();
+        expect(result.raw).toBe('Updated some files');
+        expect(result.warnings).toContain('Model output is not a Conventional Commit; using it as-is');
+    });
+});
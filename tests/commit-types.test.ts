@@ -0,0 +1,77 @@
+import { CommitTypeRegistry, DEFAULT_COMMIT_TYPES } from '../src/core/commit-types.js';
+
+describe('CommitTypeRegistry', () => {
+    it('should know the Conventional Commits types by default', () => {
+        const registry = new CommitTypeRegistry();
+
+        expect(registry.names()).toEqual([
+            'feat', 'fix', 'docs', 'style', 'refactor', 'perf', 'test', 'build', 'ci', 'chore', 'revert',
+        ]);
+        expect(registry.get('ci')?.description).toBe('Changes to CI configuration files and scripts');
+        expect(registry.emoji('revert')).toBe('⏪');
+    });
+
+    it('should add custom types after the built-in ones', () => {
+        const registry = new CommitTypeRegistry({
+            deps: { description: 'Dependency updates', emoji: '📦', paths: ['package.json'] },
+            i18n: null,
+        });
+
+        expect(registry.names().slice(-2)).toEqual(['deps', 'i18n']);
+        expect(registry.get('deps')).toEqual({
+            name: 'deps',
+            description: 'Dependency updates',
+            emoji: '📦',
+            paths: ['package.json'],
+        });
+        expect(registry.get('i18n')).toEqual({ name: 'i18n', description: 'i18n', emoji: undefined, paths: [] });
+    });
+
+    it('should override parts of a built-in type', () => {
+        const registry = new CommitTypeRegistry({ feat: { emoji: '✨' } });
+
+        expect(registry.emoji('feat')).toBe('✨');
+        expect(registry.get('feat')?.description).toBe('A new feature');
+    });
+
+    it('should not share state with the defaults', () => {
+        new CommitTypeRegistry({ feat: { paths: ['src/'] } });
+
+        expect(DEFAULT_COMMIT_TYPES.find((type) => type.name === 'feat')?.paths).toEqual([]);
+    });
+
+    it('should build a pattern matching every type', () => {
+        const pattern = new RegExp(`^(?:${new CommitTypeRegistry({ 'ci-cd': {} }).pattern()})$`);
+
+        expect(pattern.test('ci')).toBe(true);
+        expect(pattern.test('ci-cd')).toBe(true);
+        expect(pattern.test('feature')).toBe(false);
+    });
+
+    it('should strip registered emoji prefixes', () => {
+        const registry = new CommitTypeRegistry({ deps: { emoji: '📦' } });
+
+        expect(registry.stripEmoji('🚀 feat: add login')).toBe('feat: add login');
+        expect(registry.stripEmoji('📦 deps: bump lodash')).toBe('deps: bump lodash');
+        // With and without the variation selector
+        expect(registry.stripEmoji('♻️ refactor: split parser')).toBe('refactor: split parser');
+        expect(registry.stripEmoji('♻ refactor: split parser')).toBe('refactor: split parser');
+        expect(registry.stripEmoji('🦄 feat: add login')).toBe('🦄 feat: add login');
+    });
+
+    it('should resolve aliases and near misses to a registered type', () => {
+        const registry = new CommitTypeRegistry({ deps: { description: 'Dependency updates' } });
+
+        expect(registry.resolve('Feature')).toBe('feat');
+        expect(registry.resolve('refactoring')).toBe('refactor');
+        expect(registry.resolve('deps')).toBe('deps');
+        expect(registry.resolve('wip')).toBeUndefined();
+    });
+
+    it('should match configured paths', () => {
+        const registry = new CommitTypeRegistry({ i18n: { paths: ['locales/'] } });
+
+        expect(registry.matchPath('src/locales/en.json').map((type) => type.name)).toEqual(['i18n']);
+        expect(registry.matchPath('src/index.ts')).toEqual([]);
+    });
+});
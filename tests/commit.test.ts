@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach } from '@jest/globals';
+import { CommitTypeRegistry } from '../src/core/commit-types';
 import { CommitRenderer } from '../src/core/render';
 
 describe('CommitRenderer', () => {
@@ -52,6 +53,25 @@ describe('CommitRenderer', () => {
             expect(result.errors.some((e) => e.includes('too long'))).toBe(true);
         });
 
+        it('should accept build, ci and revert types', () => {
+            for (const type of ['build', 'ci', 'revert']) {
+                expect(renderer.validate(`${type}: update pipeline`).valid).toBe(true);
+            }
+        });
+
+        it('should accept subjects with a type emoji', () => {
+            expect(renderer.validate('🐛 fix(auth): handle expired tokens').valid).toBe(true);
+        });
+
+        it('should accept custom types', () => {
+            const custom = new CommitRenderer(undefined, new CommitTypeRegistry({ i18n: { emoji: '🌐' } }));
+
+            expect(custom.validate('i18n: add German translations').valid).toBe(true);
+            expect(custom.render({ type: 'i18n', subject: 'add German', footers: [] }, { emoji: true })).toBe(
+                '🌐 i18n: add German'
+            );
+        });
+
         it('should reject non-conventional format', () => {
             const message = 'this is not a conventional commit';
             const result = renderer.validate(message);
@@ -60,4 +80,75 @@ describe('CommitRenderer', () => {
             expect(result.errors.some((e) => e.includes('Conventional Commit'))).toBe(true);
         });
     });
+
+    describe('render', () => {
+        const commit = {
+            type: 'feat',
+            scope: 'auth',
+            subject: 'add token refresh',
+            body: 'Tokens are refreshed shortly before they expire so that long running sessions keep working.',
+            footers: ['Refs: #42'],
+        };
+
+        it('should assemble the message from the template', () => {
+            expect(renderer.render(commit)).toBe(
+                'feat(auth): add token refresh\n\n' +
+                    'Tokens are refreshed shortly before they expire so that long running\n' +
+                    'sessions keep working.\n\n' +
+                    'Refs: #42'
+            );
+        });
+
+        it('should omit empty sections', () => {
+            expect(renderer.render({ type: 'fix', subject: 'handle empty diff', footers: [] })).toBe(
+                'fix: handle empty diff'
+            );
+        });
+
+        it('should render breaking changes', () => {
+            const message = renderer.render({
+                type: 'refactor',
+                subject: 'drop v1 routes',
+                breaking: true,
+                breaking_description: 'v1 routes are gone',
+                footers: [],
+            });
+
+            expect(message).toBe('refactor!: drop v1 routes\n\nBREAKING CHANGE: v1 routes are gone');
+        });
+
+        it('should use detected breaking changes only with --breaking', () => {
+            const commit = { type: 'refactor', subject: 'drop legacy flags', footers: [] };
+            const breakingChanges = ['Removed CLI flag `--legacy`', 'Removed config key `mode`'];
+
+            expect(renderer.render(commit, { breakingChanges })).toBe('refactor: drop legacy flags');
+            expect(renderer.render(commit, { breakingChanges, breaking: true })).toBe(
+                'refactor!: drop legacy flags\n\nBREAKING CHANGE: Removed CLI flag `--legacy`; Removed config key `mode`'
+            );
+        });
+
+        it('should apply overrides, emoji and the linked issue', () => {
+            const message = renderer.render(
+                { ...commit, body: undefined, footers: ['Closes #7'] },
+                { type: 'fix', scope: 'session', emoji: true, issue: '7' }
+            );
+
+            expect(message).toBe('🐛 fix(session): add token refresh\n\nCloses #7');
+        });
+
+        it('should keep every footer in the final paragraph', () => {
+            const message = renderer.render(
+                { ...commit, breaking_description: 'tokens expire sooner', footers: ['Reviewed-by: Dev'] },
+                { issue: '7' }
+            );
+
+            expect(message.split('\n\n').pop()).toBe('BREAKING CHANGE: tokens expire sooner\nCloses #7\nReviewed-by: Dev');
+        });
+
+        it('should use a custom template', () => {
+            const custom = new CommitRenderer('{{type}}: {{subject}}{{#scope}} [{{scope}}]{{/scope}}');
+
+            expect(custom.render(commit)).toBe('feat: add token refresh [auth]');
+        });
+    });
 });
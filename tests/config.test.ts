@@ -48,6 +48,7 @@ describe('ConfigService', () => {
                 emoji: false,
                 tense: 'present',
                 bullet: '- ',
+                history: 50,
             });
 
             expect(config.scope).toEqual({
@@ -152,6 +153,19 @@ model:
             expect(config.model?.max_tokens).toBe(1024);
         });
 
+        it('should load endpoint settings from environment variables', () => {
+            process.env.AICMT_BASE_URL = 'https://my-resource.openai.azure.com';
+            process.env.AICMT_API_VERSION = '2024-06-01';
+            process.env.AICMT_DEPLOYMENT = 'commit-writer';
+
+            const config = configService.load({ skipValidation: true });
+
+            expect(config.model?.base_url).toBe('https://my-resource.openai.azure.com');
+            expect(config.model?.api_version).toBe('2024-06-01');
+            expect(config.model?.deployment).toBe('commit-writer');
+            expect(config.model?.name).toBe('gpt-4o-mini');
+        });
+
         it('should load style config from environment variables', () => {
             process.env.AICMT_EMOJI = 'true';
             process.env.AICMT_WIDTH = '80';
@@ -322,6 +336,64 @@ issues:
             expect(() => configService.load({ envOverrides: false })).toThrow(/max_tokens must be between/);
         });
 
+        it('should reject non-http model.base_url', () => {
+            mockFs.existsSync.mockImplementation((path: any) => {
+                return path.toString().endsWith('.aicmt.yaml');
+            });
+
+            mockFs.readFileSync.mockReturnValue('model:\n  base_url: localhost:8000');
+
+            expect(() => configService.load({ envOverrides: false })).toThrow(/base_url must be an http\(s\) URL/);
+        });
+
+        it('should accept template overrides', () => {
+            mockFs.existsSync.mockImplementation((path: any) => {
+                return path.toString().endsWith('.aicmt.yaml');
+            });
+
+            mockFs.readFileSync.mockReturnValue('templates:\n  commit: /abs/commit.md\n  pr: .github/aicmt/pr.md');
+
+            // Relative paths are resolved against the directory of the config file
+            const config = configService.load({ cwd: '/repo', envOverrides: false });
+            expect(config.templates).toEqual({ commit: '/abs/commit.md', pr: '/repo/.github/aicmt/pr.md' });
+        });
+
+        it('should reject unknown template names', () => {
+            mockFs.existsSync.mockImplementation((path: any) => {
+                return path.toString().endsWith('.aicmt.yaml');
+            });
+
+            mockFs.readFileSync.mockReturnValue('templates:\n  changelog: CHANGELOG.tpl');
+
+            expect(() => configService.load({ envOverrides: false })).toThrow(/templates.changelog is not a known template/);
+        });
+
+        it('should load custom commit types', () => {
+            mockFs.existsSync.mockImplementation((path: any) => {
+                return path.toString().endsWith('.aicmt.yaml');
+            });
+
+            mockFs.readFileSync.mockReturnValue(
+                'types:\n  deps:\n    description: Dependency updates\n    emoji: "📦"\n    paths: [package.json]'
+            );
+
+            const config = configService.load({ envOverrides: false });
+            expect(config.types).toEqual({
+                deps: { description: 'Dependency updates', emoji: '📦', paths: ['package.json'] },
+            });
+        });
+
+        it('should reject invalid commit types', () => {
+            mockFs.existsSync.mockImplementation((path: any) => {
+                return path.toString().endsWith('.aicmt.yaml');
+            });
+
+            mockFs.readFileSync.mockReturnValue('types:\n  Deps:\n    paths: package.json');
+
+            expect(() => configService.load({ envOverrides: false })).toThrow(/types.Deps must be a lowercase word/);
+            expect(() => configService.load({ envOverrides: false })).toThrow(/types.Deps.paths must be a list/);
+        });
+
         it('should reject invalid issues.mode', () => {
             mockFs.existsSync.mockImplementation((path: any) => {
                 return path.toString().endsWith('.aicmt.yaml');
@@ -344,6 +416,44 @@ issues:
             expect(() => configService.load({ envOverrides: false })).toThrow(/Invalid regex pattern/);
         });
 
+        it('should load and validate context.ignore', () => {
+            mockFs.existsSync.mockImplementation((path: any) => {
+                return path.toString().endsWith('.aicmt.yaml');
+            });
+
+            mockFs.readFileSync.mockReturnValue('context:\n  ignore:\n    - "*.pb.go"\n    - "!vendor/keep/"');
+            expect(configService.load({ envOverrides: false }).context).toEqual({ ignore: ['*.pb.go', '!vendor/keep/'] });
+
+            mockFs.readFileSync.mockReturnValue('context:\n  ignore: dist/');
+            expect(() => configService.load({ envOverrides: false })).toThrow(/context.ignore must be a list/);
+        });
+
+        it('should load and validate lint rules', () => {
+            mockFs.existsSync.mockImplementation((path: any) => {
+                return path.toString().endsWith('.aicmt.yaml');
+            });
+
+            mockFs.readFileSync.mockReturnValue('lint:\n  rules:\n    scope-enum: [error, always, [api, web]]\n    signed-off-by: warn');
+            expect(configService.load({ envOverrides: false }).lint).toEqual({
+                rules: { 'scope-enum': ['error', 'always', ['api', 'web']], 'signed-off-by': 'warn' },
+            });
+
+            mockFs.readFileSync.mockReturnValue('lint:\n  rules:\n    no-such-rule: error\n    header-max-length: [error, long]');
+            expect(() => configService.load({ envOverrides: false })).toThrow(/no-such-rule is not a known rule/);
+            expect(() => configService.load({ envOverrides: false })).toThrow(/header-max-length value must be a positive whole number/);
+        });
+
+        it('should resolve lint.extends against the directory of the config file', () => {
+            mockFs.existsSync.mockImplementation((path: any) => {
+                return path.toString().endsWith('.aicmt.yaml');
+            });
+            mockFs.readFileSync.mockReturnValue('lint:\n  extends: .commitlintrc.json');
+
+            const config = configService.load({ cwd: '/repo', envOverrides: false });
+
+            expect(config.lint?.extends).toBe('/repo/.commitlintrc.json');
+        });
+
         it('should skip validation when skipValidation is true', () => {
             mockFs.existsSync.mockImplementation((path: any) => {
                 return path.toString().endsWith('.aicmt.yaml');
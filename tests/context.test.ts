@@ -1,6 +1,9 @@
 import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { CommitTypeRegistry } from '../src/core/commit-types';
 import { ContextBuilder } from '../src/core/context';
 import { GitService, FileChange } from '../src/core/git';
+import { IgnoreRules } from '../src/core/ignore';
+import { StyleLearner } from '../src/core/style';
 
 // Mock GitService
 jest.mock('../src/core/git');
@@ -13,6 +16,7 @@ describe('ContextBuilder', () => {
     beforeEach(() => {
         mockGitService = {
             getChangedFiles: jest.fn(),
+            getDiff: jest.fn().mockReturnValue(''),
         } as any;
 
         builder = new ContextBuilder(mockGitService);
@@ -82,6 +86,46 @@ describe('ContextBuilder', () => {
             expect(result.files[0].keywords).toContain('dependencies');
         });
 
+        it('should detect ci type from workflow files', async () => {
+            const changes: FileChange[] = [
+                { path: '.github/workflows/release.yml', additions: 12, deletions: 3, status: 'modified' },
+            ];
+
+            mockGitService.getChangedFiles.mockReturnValue(changes);
+
+            const result = await builder.buildContext({ staged: true });
+
+            expect(result.type.type).toBe('ci');
+            expect(result.type.reasons).toContain('CI configuration: .github/workflows/release.yml');
+        });
+
+        it('should detect build type from lockfile bumps', async () => {
+            const changes: FileChange[] = [
+                { path: 'package-lock.json', additions: 40, deletions: 38, status: 'modified' },
+            ];
+
+            mockGitService.getChangedFiles.mockReturnValue(changes);
+
+            const result = await builder.buildContext({ staged: true });
+
+            expect(result.type.type).toBe('build');
+            expect(result.type.reasons).toContain('Lockfile: package-lock.json');
+        });
+
+        it('should detect custom types from configured paths', async () => {
+            const custom = new ContextBuilder(mockGitService, new CommitTypeRegistry({ i18n: { paths: ['locales/'] } }));
+            const changes: FileChange[] = [
+                { path: 'src/locales/de.json', additions: 20, deletions: 2, status: 'modified' },
+            ];
+
+            mockGitService.getChangedFiles.mockReturnValue(changes);
+
+            const result = await custom.buildContext({ staged: true });
+
+            expect(result.type.type).toBe('i18n');
+            expect(result.type.reasons).toContain('Matches i18n paths: src/locales/de.json');
+        });
+
         it('should detect feat type for new files', async () => {
             const changes: FileChange[] = [
                 { path: 'src/features/notifications.ts', additions: 200, deletions: 0, status: 'added' },
@@ -142,6 +186,36 @@ describe('ContextBuilder', () => {
             expect(result.scope.scopes).toContain('frontend');
         });
 
+        it('should prefer scopes the history used for the same paths', async () => {
+            const changes: FileChange[] = [
+                { path: 'src/core/git.ts', additions: 10, deletions: 2, status: 'modified' },
+            ];
+
+            mockGitService.getChangedFiles.mockReturnValue(changes);
+
+            const style = StyleLearner.analyze([
+                { sha: 'a1', subject: 'fix(git): handle empty diffs', body: '', files: ['src/core/git.ts'] },
+            ]);
+            const result = await builder.buildContext({ staged: true, style });
+
+            expect(result.scope.scopes).toEqual(['git']);
+            expect(result.scope.reasons[0]).toContain("Scope 'git' used in past commits");
+        });
+
+        it('should only analyze the requested paths', async () => {
+            const changes: FileChange[] = [
+                { path: 'src/api/routes.ts', additions: 20, deletions: 5, status: 'modified' },
+                { path: 'docs/api.md', additions: 3, deletions: 1, status: 'modified' },
+            ];
+
+            mockGitService.getChangedFiles.mockReturnValue(changes);
+
+            const result = await builder.buildContext({ staged: true, paths: ['docs/api.md'] });
+
+            expect(result.files.map((file) => file.path)).toEqual(['docs/api.md']);
+            expect(result.totalAdditions).toBe(3);
+        });
+
         it('should handle multiple scopes', async () => {
             const changes: FileChange[] = [
                 { path: 'src/api/routes.ts', additions: 20, deletions: 5, status: 'modified' },
@@ -180,7 +254,7 @@ describe('ContextBuilder', () => {
             }
         });
 
-        it('should detect breaking changes in API files', async () => {
+        it('should not treat large deletions alone as breaking', async () => {
             const changes: FileChange[] = [
                 { path: 'src/api/endpoints.ts', additions: 10, deletions: 50, status: 'modified' },
             ];
@@ -189,19 +263,35 @@ describe('ContextBuilder', () => {
 
             const result = await builder.buildContext({ staged: true });
 
-            expect(result.breaking).toBe(true);
+            expect(result.breaking).toBe(false);
+            expect(result.breakingChanges).toEqual([]);
         });
 
-        it('should detect breaking changes in core files with large deletions', async () => {
+        it('should list breaking changes found in the diff', async () => {
             const changes: FileChange[] = [
-                { path: 'src/core/engine.ts', additions: 20, deletions: 120, status: 'modified' },
+                { path: 'src/api/users.ts', additions: 0, deletions: 3, status: 'modified' },
+                { path: 'src/core/legacy.ts', additions: 0, deletions: 12, status: 'deleted' },
             ];
+            const diff = [
+                'diff --git a/src/api/users.ts b/src/api/users.ts',
+                '--- a/src/api/users.ts',
+                '+++ b/src/api/users.ts',
+                '@@ -1,3 +0,0 @@',
+                '-export function deleteUser(id: string) {',
+                "-    router.delete('/users/:id', handler);",
+                '-}',
+            ].join('\n');
 
             mockGitService.getChangedFiles.mockReturnValue(changes);
+            mockGitService.getDiff.mockReturnValue(diff);
 
             const result = await builder.buildContext({ staged: true });
 
             expect(result.breaking).toBe(true);
+            expect(result.breakingChanges).toEqual([
+                'Removed exported function `deleteUser` from `src/api/users.ts`',
+                'Removed or changed HTTP route `DELETE /users/:id` in `src/api/users.ts`',
+            ]);
         });
 
         it('should generate summary for single file', async () => {
@@ -231,6 +321,115 @@ describe('ContextBuilder', () => {
             expect(result.summary).toContain('api');
         });
 
+        it('should leave ignored files out of scoring but mention them in the summary', async () => {
+            const changes: FileChange[] = [
+                { path: 'src/api/routes.ts', additions: 4, deletions: 1, status: 'modified' },
+                { path: 'package-lock.json', additions: 900, deletions: 700, status: 'modified' },
+                { path: 'src/api/__snapshots__/routes.test.ts.snap', additions: 40, deletions: 2, status: 'modified' },
+                { path: 'src/ui/__snapshots__/app.test.ts.snap', additions: 10, deletions: 0, status: 'modified' },
+            ];
+
+            mockGitService.getChangedFiles.mockReturnValue(changes);
+
+            const result = await builder.buildContext({ staged: true, ignore: new IgnoreRules() });
+
+            expect(result.files.map((file) => file.path)).toEqual(['src/api/routes.ts']);
+            expect(result.type.type).not.toBe('build');
+            expect(result.scope.scopes).toEqual(['api']);
+            expect(result.totalAdditions).toBe(4);
+            expect(result.ignored?.map((file) => file.path)).toEqual([
+                'package-lock.json',
+                'src/api/__snapshots__/routes.test.ts.snap',
+                'src/ui/__snapshots__/app.test.ts.snap',
+            ]);
+            expect(result.summary).toContain('(also updated lockfile, 2 snapshots)');
+        });
+
+        it('should analyze ignored files when nothing else changed', async () => {
+            const changes: FileChange[] = [
+                { path: 'package-lock.json', additions: 900, deletions: 700, status: 'modified' },
+            ];
+
+            mockGitService.getChangedFiles.mockReturnValue(changes);
+
+            const result = await builder.buildContext({ staged: true, ignore: new IgnoreRules() });
+
+            expect(result.files).toHaveLength(1);
+            expect(result.ignored).toEqual([]);
+            expect(result.type.type).toBe('build');
+        });
+
+        it('should describe submodule bumps and score them as build changes', async () => {
+            const changes: FileChange[] = [
+                {
+                    path: 'libs/libfoo',
+                    additions: 1,
+                    deletions: 1,
+                    status: 'modified',
+                    submodule: {
+                        oldSha: 'abc1234aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+                        newSha: 'def5678bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+                        commits: [1, 2, 3, 4].map((n) => ({ sha: `c${n}`, subject: `change ${n}`, body: '' })),
+                    },
+                },
+            ];
+
+            mockGitService.getChangedFiles.mockReturnValue(changes);
+            mockGitService.getDiff.mockReturnValue(
+                'diff --git a/libs/libfoo b/libs/libfoo\n--- a/libs/libfoo\n+++ b/libs/libfoo\n@@ -1 +1 @@\n-Subproject commit abc\n+Subproject commit def\n'
+            );
+
+            const result = await builder.buildContext({ staged: true });
+
+            expect(result.files[0].summary).toBe('Bump submodule libfoo from abc1234 to def5678: 4 commits');
+            expect(result.files[0].symbols).toEqual([]);
+            expect(result.type.type).toBe('build');
+            expect(result.type.reasons).toContain('Submodule: libs/libfoo');
+        });
+
+        it('should summarize added, removed and rewound submodules', async () => {
+            const sha = (c: string) => c.repeat(40);
+            const changes: FileChange[] = [
+                { path: 'libs/a', additions: 1, deletions: 0, status: 'added', submodule: { newSha: sha('1') } },
+                { path: 'libs/b', additions: 0, deletions: 1, status: 'deleted', submodule: { oldSha: sha('2') } },
+                { path: 'libs/c', additions: 1, deletions: 1, status: 'modified', submodule: { oldSha: sha('3'), newSha: sha('4'), commits: [] } },
+                { path: 'libs/d', additions: 1, deletions: 1, status: 'modified', submodule: { oldSha: sha('5'), newSha: sha('6') } },
+            ];
+
+            mockGitService.getChangedFiles.mockReturnValue(changes);
+
+            const result = await builder.buildContext({ staged: true });
+
+            expect(result.files.map((file) => file.summary)).toEqual([
+                'Add submodule a at 1111111',
+                'Remove submodule b',
+                'Move submodule c from 3333333 to 4444444',
+                'Bump submodule d from 5555555 to 6666666',
+            ]);
+        });
+
+        it('should describe binary, LFS and mode changes', async () => {
+            const changes: FileChange[] = [
+                { path: 'assets/logo.png', additions: 0, deletions: 0, status: 'modified', binary: true },
+                { path: 'assets/intro.mp4', additions: 0, deletions: 0, status: 'added', binary: true, lfs: true },
+                { path: 'scripts/release.sh', additions: 0, deletions: 0, status: 'modified', mode: { old: '100644', new: '100755' } },
+                { path: 'scripts/build.sh', additions: 2, deletions: 1, status: 'modified', mode: { old: '100755', new: '100644' } },
+            ];
+
+            mockGitService.getChangedFiles.mockReturnValue(changes);
+
+            const result = await builder.buildContext({ staged: true });
+
+            expect(result.files.map((file) => file.summary)).toEqual([
+                'Replaced binary file assets/logo.png',
+                'Added LFS object assets/intro.mp4',
+                'Made scripts/release.sh executable',
+                'Modified scripts/build.sh (+2, -1), now non-executable',
+            ]);
+            expect(result.files[0].binary).toBe(true);
+            expect(result.files[2].mode).toEqual({ old: '100644', new: '100755' });
+        });
+
         it('should extract keywords from file paths', async () => {
             const testCases: Array<[string, string[]]> = [
                 ['src/api/routes.ts', ['source', 'api']],
@@ -287,6 +486,73 @@ describe('ContextBuilder', () => {
             );
         });
 
+        it('should list changed symbols from the diff', async () => {
+            const changes: FileChange[] = [
+                { path: 'src/core/git.ts', additions: 2, deletions: 1, status: 'modified' },
+            ];
+            const diff = [
+                'diff --git a/src/core/git.ts b/src/core/git.ts',
+                '--- a/src/core/git.ts',
+                '+++ b/src/core/git.ts',
+                '@@ -10,4 +10,5 @@ export class GitService {',
+                '     getDiff(options: DiffOptions = {}): string {',
+                "-        const args = ['diff'];",
+                "+        const args = ['diff', '--no-color'];",
+                '+        return args.join(" ");',
+                '     }',
+            ].join('\n');
+
+            mockGitService.getChangedFiles.mockReturnValue(changes);
+            mockGitService.getDiff.mockReturnValue(diff);
+
+            const result = await builder.buildContext({ staged: true });
+
+            expect(mockGitService.getDiff).toHaveBeenCalledWith(expect.objectContaining({ staged: true, contextLines: 3 }));
+            expect(result.files[0].functions).toEqual(['GitService.getDiff']);
+            expect(result.files[0].symbols[0]).toMatchObject({ change: 'modified', kind: 'function' });
+        });
+
+        it('should still build context when the diff cannot be read', async () => {
+            const changes: FileChange[] = [
+                { path: 'src/core/git.ts', additions: 2, deletions: 1, status: 'modified' },
+            ];
+
+            mockGitService.getChangedFiles.mockReturnValue(changes);
+            mockGitService.getDiff.mockImplementation(() => {
+                throw new Error('diff failed');
+            });
+
+            const result = await builder.buildContext({ staged: true });
+
+            expect(result.files[0].functions).toEqual([]);
+            expect(result.files[0].symbols).toEqual([]);
+        });
+
+        it('should type a small guard as a fix and report the evidence', async () => {
+            const changes: FileChange[] = [
+                { path: 'src/core/git.ts', additions: 3, deletions: 0, status: 'modified' },
+            ];
+            const diff = [
+                'diff --git a/src/core/git.ts b/src/core/git.ts',
+                '--- a/src/core/git.ts',
+                '+++ b/src/core/git.ts',
+                '@@ -40,3 +40,6 @@ export class GitService {',
+                '    getBranch(): string {',
+                '+        if (!this.head) {',
+                "+            return 'HEAD';",
+                '+        }',
+            ].join('\n');
+
+            mockGitService.getChangedFiles.mockReturnValue(changes);
+            mockGitService.getDiff.mockReturnValue(diff);
+
+            const result = await builder.buildContext({ staged: true });
+
+            expect(result.type.type).toBe('fix');
+            expect(result.type.confidence).toBe(1);
+            expect(result.type.reasons[0]).toBe('Added null/undefined guard: src/core/git.ts');
+        });
+
         it('should default to feat/fix when confidence is low', async () => {
             // Generic file without clear type indicators
             const changes: FileChange[] = [
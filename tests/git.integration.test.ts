@@ -157,6 +157,47 @@ describe('GitService Integration Tests', () => {
             expect(renamed?.status).toBe('renamed');
             expect(renamed?.oldPath).toBe('old-name.txt');
         });
+
+        it('should flag binary, LFS, mode and submodule changes', () => {
+            const run = (command: string, cwd = testRepoPath) => execSync(command, { cwd, stdio: 'ignore' });
+
+            // A separate repository to use as the submodule
+            const libPath = fs.mkdtempSync(path.join(os.tmpdir(), 'aicmt-lib-'));
+            try {
+                run('git init', libPath);
+                run('git -c user.name=Lib -c user.email=lib@example.com commit --allow-empty -m "Initial lib commit"', libPath);
+
+                fs.writeFileSync(path.join(testRepoPath, '.gitattributes'), '*.bin filter=lfs\n');
+                fs.writeFileSync(path.join(testRepoPath, 'run.sh'), 'echo hi\n');
+                run('git add .gitattributes run.sh');
+                run(`git -c protocol.file.allow=always submodule add -q ${libPath} libs/libfoo`);
+                run('git commit -m "Add tooling and libfoo"');
+
+                const submodulePath = path.join(testRepoPath, 'libs', 'libfoo');
+                run('git -c user.name=Lib -c user.email=lib@example.com commit --allow-empty -m "feat: add parser"', submodulePath);
+                run('git -c user.name=Lib -c user.email=lib@example.com commit --allow-empty -m "fix: guard null"', submodulePath);
+
+                fs.writeFileSync(path.join(testRepoPath, 'logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]));
+                fs.writeFileSync(path.join(testRepoPath, 'model.bin'), 'weights\n');
+                fs.chmodSync(path.join(testRepoPath, 'run.sh'), 0o755);
+                run('git add logo.png model.bin run.sh libs/libfoo');
+
+                const files = gitService.getChangedFiles({ staged: true });
+                const byPath = (filePath: string) => files.find((f) => f.path === filePath);
+
+                expect(byPath('logo.png')?.binary).toBe(true);
+                expect(byPath('model.bin')?.lfs).toBe(true);
+                expect(byPath('run.sh')?.mode).toEqual({ old: '100644', new: '100755' });
+                expect(byPath('libs/libfoo')?.submodule?.commits?.map((c) => c.subject)).toEqual([
+                    'fix: guard null',
+                    'feat: add parser',
+                ]);
+
+                run('git commit -m "Bump libfoo"');
+            } finally {
+                fs.rmSync(libPath, { recursive: true, force: true });
+            }
+        });
     });
 
     describe('getCurrentBranch', () => {
@@ -297,6 +338,52 @@ describe('GitService Integration Tests', () => {
         });
     });
 
+    describe('unstageAll and applyToIndex', () => {
+        it('should restage part of a staged diff, including binary files', () => {
+            fs.writeFileSync(path.join(testRepoPath, 'split-a.txt'), 'A\n');
+            fs.writeFileSync(path.join(testRepoPath, 'split-b.bin'), Buffer.from([0, 1, 2, 255]));
+            execSync('git add split-a.txt split-b.bin', { cwd: testRepoPath });
+
+            const diff = gitService.getDiff({ staged: true, contextLines: 3, binary: true });
+            const binaryPatch = diff.slice(diff.indexOf('diff --git a/split-b.bin'));
+
+            gitService.unstageAll();
+            expect(gitService.hasStagedChanges()).toBe(false);
+
+            gitService.applyToIndex(binaryPatch);
+
+            const staged = execSync('git diff --staged --name-only', { cwd: testRepoPath, encoding: 'utf-8' });
+            expect(staged.trim()).toBe('split-b.bin');
+
+            // Clean up
+            execSync('git reset', { cwd: testRepoPath, stdio: 'ignore' });
+            fs.unlinkSync(path.join(testRepoPath, 'split-a.txt'));
+            fs.unlinkSync(path.join(testRepoPath, 'split-b.bin'));
+        });
+    });
+
+    describe('writeTree and readTree', () => {
+        it('should restore staged changes on top of a newer commit', () => {
+            fs.writeFileSync(path.join(testRepoPath, 'snap-a.txt'), 'A\n');
+            fs.writeFileSync(path.join(testRepoPath, 'snap-b.txt'), 'B\n');
+            execSync('git add snap-a.txt snap-b.txt', { cwd: testRepoPath });
+
+            const snapshot = gitService.writeTree();
+            execSync('git reset -q', { cwd: testRepoPath });
+            execSync('git add snap-a.txt', { cwd: testRepoPath });
+            gitService.createCommit({ message: 'test: add snap-a' });
+
+            gitService.readTree(snapshot);
+
+            const staged = execSync('git diff --staged --name-only', { cwd: testRepoPath, encoding: 'utf-8' });
+            expect(staged.trim()).toBe('snap-b.txt');
+
+            // Clean up
+            execSync('git reset -q --hard HEAD~1', { cwd: testRepoPath, stdio: 'ignore' });
+            fs.rmSync(path.join(testRepoPath, 'snap-b.txt'), { force: true });
+        });
+    });
+
     describe('getRepositoryRoot', () => {
         it('should return repository root path', () => {
             const root = gitService.getRepositoryRoot();
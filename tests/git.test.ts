@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { GitService, GitError } from '../src/core/git';
 import { execSync } from 'child_process';
+import * as path from 'path';
 
 // Mock child_process
 jest.mock('child_process');
@@ -120,7 +121,7 @@ describe('GitService', () => {
 
     describe('getChangedFiles', () => {
         it('should parse modified files', () => {
-            const statusOutput = 'M\tsrc/file1.ts\nA\tsrc/file2.ts';
+            const statusOutput = ':100644 100644 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb M\tsrc/file1.ts\n:000000 100644 0000000000000000000000000000000000000000 bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb A\tsrc/file2.ts';
             const numstatOutput = '10\t5\tsrc/file1.ts\n20\t0\tsrc/file2.ts';
 
             mockExecSync
@@ -147,7 +148,7 @@ describe('GitService', () => {
         });
 
         it('should handle renamed files', () => {
-            const statusOutput = 'R100\told/path.ts\tnew/path.ts';
+            const statusOutput = ':100644 100644 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa R100\told/path.ts\tnew/path.ts';
             const numstatOutput = '0\t0\tnew/path.ts';
 
             mockExecSync
@@ -167,7 +168,7 @@ describe('GitService', () => {
         });
 
         it('should handle deleted files', () => {
-            const statusOutput = 'D\tdeleted.ts';
+            const statusOutput = ':100644 000000 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa 0000000000000000000000000000000000000000 D\tdeleted.ts';
             const numstatOutput = '0\t50\tdeleted.ts';
 
             mockExecSync
@@ -197,7 +198,7 @@ describe('GitService', () => {
         });
 
         it('should handle binary files', () => {
-            const statusOutput = 'M\timage.png';
+            const statusOutput = ':100644 100644 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb M\timage.png';
             const numstatOutput = '-\t-\timage.png';
 
             mockExecSync
@@ -212,8 +213,102 @@ describe('GitService', () => {
                 oldPath: undefined,
                 additions: 0,
                 deletions: 0,
+                binary: true,
             });
         });
+        it('should flag file mode changes', () => {
+            mockExecSync
+                .mockReturnValueOnce(Buffer.from(':100644 100755 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa M\tscripts/release.sh'))
+                .mockReturnValueOnce(Buffer.from('0\t0\tscripts/release.sh'));
+
+            const [file] = gitService.getChangedFiles({ staged: true });
+
+            expect(file.mode).toEqual({ old: '100644', new: '100755' });
+            expect(file.submodule).toBeUndefined();
+        });
+
+        it('should flag files stored with Git LFS', () => {
+            mockExecSync
+                .mockReturnValueOnce(Buffer.from(':100644 100644 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb M\tassets/video.mp4\n:100644 100644 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb M\tsrc/a.ts'))
+                .mockReturnValueOnce(Buffer.from('2\t2\tassets/video.mp4\n1\t1\tsrc/a.ts'))
+                .mockReturnValueOnce(Buffer.from('assets/video.mp4\0filter\0lfs\0src/a.ts\0filter\0unspecified\0'));
+
+            const files = gitService.getChangedFiles({ staged: true });
+
+            expect(mockExecSync).toHaveBeenCalledWith(
+                'git check-attr -z --stdin filter',
+                expect.objectContaining({ input: 'assets/video.mp4\0src/a.ts' })
+            );
+            expect(files[0].lfs).toBe(true);
+            expect(files[1].lfs).toBeUndefined();
+        });
+
+        it('should describe submodule bumps with the commits in between', () => {
+            mockExecSync
+                .mockReturnValueOnce(Buffer.from(':160000 160000 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb M\tlibs/libfoo'))
+                .mockReturnValueOnce(Buffer.from('1\t1\tlibs/libfoo'))
+                .mockReturnValueOnce(Buffer.from('libs/libfoo\0filter\0unspecified\0'))
+                .mockReturnValueOnce(Buffer.from('/repo\n'))
+                .mockReturnValueOnce(Buffer.from('c2\x1ffix: guard null\x1f\x1e\nc1\x1ffeat: add parser\x1f\x1e'));
+
+            const [file] = gitService.getChangedFiles({ staged: true });
+
+            expect(mockExecSync).toHaveBeenLastCalledWith(
+                expect.stringMatching(/^git -C \/repo\/libs\/libfoo log -n 50 .* aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa\.\.bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb$/),
+                expect.anything()
+            );
+            expect(file.submodule).toEqual({
+                oldSha: 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+                newSha: 'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+                commits: [
+                    { sha: 'c2', subject: 'fix: guard null', body: '' },
+                    { sha: 'c1', subject: 'feat: add parser', body: '' },
+                ],
+            });
+            expect(file.mode).toBeUndefined();
+        });
+
+        it('should leave out the submodule log when it cannot be read', () => {
+            mockExecSync
+                .mockReturnValueOnce(Buffer.from(':000000 160000 0000000000000000000000000000000000000000 bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb A\tlibs/libfoo\n:160000 160000 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb M\tlibs/libbar'))
+                .mockReturnValueOnce(Buffer.from('1\t0\tlibs/libfoo\n1\t1\tlibs/libbar'))
+                .mockReturnValueOnce(Buffer.from(''))
+                .mockReturnValueOnce(Buffer.from('/repo\n'))
+                .mockImplementationOnce(() => {
+                    throw Object.assign(new Error('fatal: cannot change to libs/libbar'), { status: 128 });
+                });
+
+            const files = gitService.getChangedFiles({ staged: true });
+
+            expect(files[0].submodule).toEqual({ oldSha: undefined, newSha: 'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb' });
+            expect(files[1].submodule).toEqual({ oldSha: 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', newSha: 'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb' });
+        });
+    });
+
+    describe('getConfig', () => {
+        it('should return the value of a config key', () => {
+            mockExecSync.mockReturnValueOnce(Buffer.from(';\n'));
+
+            expect(gitService.getConfig('core.commentChar')).toBe(';');
+            expect(mockExecSync).toHaveBeenCalledWith('git config --get core.commentChar', expect.anything());
+        });
+
+        it('should return undefined for unset keys', () => {
+            mockExecSync.mockImplementationOnce(() => {
+                throw Object.assign(new Error('Command failed'), { status: 1 });
+            });
+
+            expect(gitService.getConfig('core.commentChar')).toBeUndefined();
+        });
+    });
+
+    describe('getHooksDir', () => {
+        it('should resolve the hooks path git reports against the working directory', () => {
+            mockExecSync.mockReturnValueOnce(Buffer.from('.githooks\n'));
+
+            expect(gitService.getHooksDir()).toBe(path.resolve(mockCwd, '.githooks'));
+            expect(mockExecSync).toHaveBeenCalledWith('git rev-parse --git-path hooks', expect.anything());
+        });
     });
 
     describe('getFileHistory', () => {
@@ -256,6 +351,134 @@ describe('GitService', () => {
         });
     });
 
+    describe('getRecentCommits', () => {
+        it('should parse sha, subject and body of each commit', () => {
+            mockExecSync.mockReturnValueOnce(
+                Buffer.from(
+                    'abc123\x1ffix: handle empty diff\x1fGuard against\nempty output\n\x1e\n' +
+                    'def456\x1ffeat: add pr command\x1f\x1e'
+                )
+            );
+
+            expect(gitService.getRecentCommits(2)).toEqual([
+                { sha: 'abc123', subject: 'fix: handle empty diff', body: 'Guard against\nempty output' },
+                { sha: 'def456', subject: 'feat: add pr command', body: '' },
+            ]);
+            expect(mockExecSync).toHaveBeenCalledWith(
+                'git log -n 2 --no-merges --pretty=format:%H%x1f%s%x1f%b%x1e',
+                expect.any(Object)
+            );
+        });
+
+        it('should return empty array when there are no commits', () => {
+            mockExecSync.mockImplementationOnce(() => {
+                throw new Error('does not have any commits yet');
+            });
+
+            expect(gitService.getRecentCommits()).toEqual([]);
+        });
+    });
+
+    describe('getRecentCommitsWithFiles', () => {
+        it('should parse each commit with the files it touched', () => {
+            mockExecSync.mockReturnValueOnce(
+                Buffer.from(
+                    '\x1eabc123\x1ffix(git): handle empty diff\x1fGuard against it\n\x1f\nsrc/core/git.ts\ntests/git.test.ts\n\n' +
+                    '\x1edef456\x1fdocs: update readme\x1f\x1f\nREADME.md\n'
+                )
+            );
+
+            expect(gitService.getRecentCommitsWithFiles(2)).toEqual([
+                {
+                    sha: 'abc123',
+                    subject: 'fix(git): handle empty diff',
+                    body: 'Guard against it',
+                    files: ['src/core/git.ts', 'tests/git.test.ts'],
+                },
+                { sha: 'def456', subject: 'docs: update readme', body: '', files: ['README.md'] },
+            ]);
+            expect(mockExecSync).toHaveBeenCalledWith(
+                'git log -n 2 --no-merges --name-only --pretty=format:%x1e%H%x1f%s%x1f%b%x1f',
+                expect.any(Object)
+            );
+        });
+    });
+
+    describe('getHeadSha', () => {
+        it('should return null before the first commit', () => {
+            mockExecSync.mockImplementationOnce(() => {
+                const error: any = new Error('');
+                error.status = 1;
+                throw error;
+            });
+
+            expect(gitService.getHeadSha()).toBeNull();
+        });
+    });
+
+    describe('getCommitsInRange', () => {
+        it('should return raw messages oldest first', () => {
+            mockExecSync.mockReturnValueOnce(
+                Buffer.from('abc123\x1ffeat: add login\nwrapped subject\n\nBody text\n\x1e\ndef456\x1ffix: typo\n\x1e')
+            );
+
+            expect(gitService.getCommitsInRange('origin/main..HEAD')).toEqual([
+                {
+                    sha: 'abc123',
+                    subject: 'feat: add login',
+                    body: 'wrapped subject\n\nBody text',
+                    message: 'feat: add login\nwrapped subject\n\nBody text',
+                },
+                { sha: 'def456', subject: 'fix: typo', body: '', message: 'fix: typo' },
+            ]);
+            expect(mockExecSync).toHaveBeenCalledWith(
+                'git log --reverse --pretty=format:%H%x1f%B%x1e origin/main..HEAD --',
+                expect.any(Object)
+            );
+        });
+
+        it('should throw GitError for unknown ranges', () => {
+            mockExecSync.mockImplementationOnce(() => {
+                const error: any = new Error('bad revision');
+                error.status = 128;
+                throw error;
+            });
+
+            expect(() => gitService.getCommitsInRange('nope..HEAD')).toThrow('Unknown commit range: nope..HEAD');
+        });
+    });
+
+    describe('getCommit', () => {
+        it('should resolve a reference', () => {
+            mockExecSync.mockReturnValueOnce(Buffer.from('abc123\x1ffix: handle empty diff\x1f\x1e'));
+
+            expect(gitService.getCommit('HEAD~1')).toEqual({
+                sha: 'abc123',
+                subject: 'fix: handle empty diff',
+                body: '',
+            });
+        });
+
+        it('should throw GitError for unknown references', () => {
+            mockExecSync.mockImplementationOnce(() => {
+                const error: any = new Error('unknown revision');
+                error.status = 128;
+                throw error;
+            });
+
+            expect(() => gitService.getCommit('nope')).toThrow('Unknown commit: nope');
+        });
+    });
+
+    describe('getCommitDiff', () => {
+        it('should show the commit without its message', () => {
+            mockExecSync.mockReturnValueOnce(Buffer.from('diff --git a/a.ts b/a.ts\n'));
+
+            expect(gitService.getCommitDiff('abc123')).toBe('diff --git a/a.ts b/a.ts\n');
+            expect(mockExecSync).toHaveBeenCalledWith('git show --no-color --format= -U0 abc123', expect.any(Object));
+        });
+    });
+
     describe('getCurrentBranch', () => {
         it('should return current branch name', () => {
             mockExecSync.mockReturnValueOnce(Buffer.from('main\n'));
@@ -314,6 +537,35 @@ describe('GitService', () => {
         });
     });
 
+    describe('applyToIndex', () => {
+        it('should apply the patch to the index only', () => {
+            mockExecSync.mockReturnValueOnce(Buffer.from(''));
+
+            gitService.applyToIndex('diff --git a/a.ts b/a.ts\n');
+
+            expect(mockExecSync).toHaveBeenCalledWith(
+                'git apply --cached -',
+                expect.objectContaining({ input: 'diff --git a/a.ts b/a.ts\n' })
+            );
+        });
+    });
+
+    describe('writeTree and readTree', () => {
+        it('should snapshot and restore the index', () => {
+            mockExecSync.mockReturnValueOnce(Buffer.from('4b825dc642cb6eb9a060e54bf8d69288fbee4904\n'));
+            mockExecSync.mockReturnValueOnce(Buffer.from(''));
+
+            const tree = gitService.writeTree();
+            gitService.readTree(tree);
+
+            expect(tree).toBe('4b825dc642cb6eb9a060e54bf8d69288fbee4904');
+            expect(mockExecSync).toHaveBeenLastCalledWith(
+                'git read-tree 4b825dc642cb6eb9a060e54bf8d69288fbee4904',
+                expect.any(Object)
+            );
+        });
+    });
+
     describe('createCommit', () => {
         it('should create commit with message', () => {
             mockExecSync.mockReturnValueOnce(Buffer.from('[main abc123] feat: add feature\n'));
@@ -0,0 +1,28 @@
+import { FileAnalysis } from '../src/core/context.js';
+
+/** Lines added by a hunk */
+export const added = (count: number, text = 'const value = compute();'): string[] => Array(count).fill(`+${text}`);
+
+/** A hunk header followed by its lines */
+export const hunk = (lines: string[], start = 1): string[] => [`@@ -${start},1 +${start},${lines.length} @@`, ...lines];
+
+/** The diff of a single file */
+export const fileDiff = (path: string, lines: string[] = hunk(['-a', '+b'])): string =>
+    [`diff --git a/${path} b/${path}`, `--- a/${path}`, `+++ b/${path}`, ...lines].join('\n') + '\n';
+
+/** The analysis of a small change to a file */
+export const analyze = (path: string, overrides: Partial<FileAnalysis> = {}): FileAnalysis => ({
+    path,
+    status: 'modified',
+    additions: 1,
+    deletions: 1,
+    magnitude: 'tiny',
+    keywords: path.includes('test') ? ['test'] : [],
+    functions: [],
+    classes: [],
+    interfaces: [],
+    exports: [],
+    symbols: [],
+    summary: '',
+    ...overrides,
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitService } from '../src/core/git';
+import { HookInstaller } from '../src/core/hooks';
+import { ValidationError } from '../src/utils/errors';
+
+jest.mock('../src/utils/logger');
+
+// Hook settings passed down through the environment (such as core.hooksPath) would win over the test's own
+const env = Object.fromEntries(Object.entries(process.env).filter(([key]) => !key.startsWith('GIT_CONFIG_')));
+
+/**
+ * These tests use real git repositories, and run real commits through the hook
+ */
+describe('HookInstaller', () => {
+    let repoPath: string;
+    let hooksDir: string;
+    let installer: HookInstaller;
+
+    const git = (command: string) => execSync(`git ${command}`, { cwd: repoPath, encoding: 'utf-8', env });
+    const hookPath = () => path.join(hooksDir, 'prepare-commit-msg');
+
+    beforeEach(() => {
+        repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'aicmt-hooks-'));
+        hooksDir = path.join(repoPath, '.git', 'hooks');
+        git('init -q');
+        git('config user.name "Test User"');
+        git('config user.email "test@example.com"');
+
+        // Where git runs hooks from is GitService's concern; see its tests
+        installer = new HookInstaller({ getHooksDir: () => hooksDir } as unknown as GitService);
+    });
+
+    afterEach(() => {
+        fs.rmSync(repoPath, { recursive: true, force: true });
+    });
+
+    describe('install', () => {
+        it('should write an executable hook into .git/hooks', () => {
+            const status = installer.install('prepare-commit-msg');
+
+            expect(status).toEqual({
+                hook: 'prepare-commit-msg',
+                path: hookPath(),
+                installed: true,
+                chained: false,
+                foreign: false,
+            });
+            expect(fs.statSync(hookPath()).mode & 0o111).not.toBe(0);
+            expect(fs.readFileSync(hookPath(), 'utf-8')).toContain('commit --stage --dry-run --no-stream --message-file "$1"');
+        });
+
+        it('should create the hooks directory when core.hooksPath points at a new one', () => {
+            hooksDir = path.join(repoPath, '.githooks');
+
+            expect(installer.install('prepare-commit-msg').path).toBe(path.join(repoPath, '.githooks', 'prepare-commit-msg'));
+            expect(fs.existsSync(hookPath())).toBe(true);
+        });
+
+        it('should refuse when hooks are disabled', () => {
+            hooksDir = '/dev/null';
+
+            expect(() => installer.install('prepare-commit-msg')).toThrow(ValidationError);
+        });
+
+        it('should chain an existing hook and keep it when installed again', () => {
+            fs.writeFileSync(hookPath(), '#!/bin/sh\necho existing\n', { mode: 0o755 });
+
+            expect(installer.status('prepare-commit-msg').foreign).toBe(true);
+            expect(installer.install('prepare-commit-msg').chained).toBe(true);
+            expect(installer.install('prepare-commit-msg').chained).toBe(true);
+            expect(fs.readFileSync(hookPath() + '.aicmt-chained', 'utf-8')).toContain('echo existing');
+        });
+    });
+
+    describe('uninstall', () => {
+        it('should remove the hook and restore the chained one', () => {
+            fs.writeFileSync(hookPath(), '#!/bin/sh\necho existing\n', { mode: 0o755 });
+            installer.install('prepare-commit-msg');
+
+            expect(installer.uninstall('prepare-commit-msg')).toBe(true);
+            expect(fs.readFileSync(hookPath(), 'utf-8')).toContain('echo existing');
+            expect(fs.existsSync(hookPath() + '.aicmt-chained')).toBe(false);
+        });
+
+        it('should leave other hooks alone', () => {
+            fs.writeFileSync(hookPath(), '#!/bin/sh\necho existing\n', { mode: 0o755 });
+
+            expect(installer.uninstall('prepare-commit-msg')).toBe(false);
+            expect(fs.existsSync(hookPath())).toBe(true);
+        });
+    });
+
+    describe('running the hook', () => {
+        let binPath: string;
+
+        beforeEach(() => {
+            // A stand-in for aicmt that records its arguments and fills the message file
+            binPath = fs.mkdtempSync(path.join(os.tmpdir(), 'aicmt-bin-'));
+            fs.writeFileSync(
+                path.join(binPath, 'aicmt'),
+                '#!/bin/sh\necho "$@" >> "$AICMT_TEST_LOG"\nfor last; do :; done\nprintf "feat: generated message\\n%s" "$(cat "$last")" > "$last"\n',
+                { mode: 0o755 }
+            );
+
+            installer.install('prepare-commit-msg');
+            fs.writeFileSync(path.join(repoPath, 'a.txt'), 'a\n');
+            git('add a.txt');
+        });
+
+        afterEach(() => {
+            fs.rmSync(binPath, { recursive: true, force: true });
+        });
+
+        const commit = (args: string, extra: Record<string, string> = {}) =>
+            execSync(`git commit -q ${args}`, {
+                cwd: repoPath,
+                env: {
+                    ...env,
+                    PATH: `${binPath}:${process.env.PATH}`,
+                    GIT_EDITOR: 'true',
+                    AICMT_TEST_LOG: path.join(binPath, 'log'),
+                    ...extra,
+                },
+            });
+
+        it('should fill the message for a plain git commit', () => {
+            commit('');
+
+            expect(git('log -1 --pretty=%s').trim()).toBe('feat: generated message');
+            expect(fs.readFileSync(path.join(binPath, 'log'), 'utf-8')).toMatch(
+                /^commit --stage --dry-run --no-stream --message-file .*COMMIT_EDITMSG\n$/
+            );
+        });
+
+        it('should not touch messages given with -m or amends', () => {
+            commit('-m "chore: by hand"');
+            commit('--amend --no-edit');
+
+            expect(git('log -1 --pretty=%s').trim()).toBe('chore: by hand');
+            expect(fs.existsSync(path.join(binPath, 'log'))).toBe(false);
+        });
+
+        it('should be skipped with AICMT_SKIP', () => {
+            commit('--allow-empty-message', { AICMT_SKIP: '1' });
+
+            expect(git('log -1 --pretty=%s').trim()).toBe('');
+            expect(fs.existsSync(path.join(binPath, 'log'))).toBe(false);
+        });
+
+        it('should abort the commit when the commit-msg hook rejects the message', () => {
+            installer.install('commit-msg');
+            fs.appendFileSync(path.join(binPath, 'aicmt'), '[ "$1" = lint-commit ] && exit 1\nexit 0\n');
+
+            expect(() => commit('-m "bad message"')).toThrow();
+            expect(fs.readFileSync(path.join(binPath, 'log'), 'utf-8')).toMatch(/^lint-commit --hook .*COMMIT_EDITMSG\n$/);
+        });
+
+        it('should run the chained hook first', () => {
+            installer.uninstall('prepare-commit-msg');
+            fs.writeFileSync(hookPath(), '#!/bin/sh\necho chained >> "$AICMT_TEST_LOG"\n', { mode: 0o755 });
+            installer.install('prepare-commit-msg');
+
+            commit('');
+
+            expect(fs.readFileSync(path.join(binPath, 'log'), 'utf-8').split('\n')[0]).toBe('chained');
+        });
+    });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IGNORE_FILE, IgnoreRules } from '../src/core/ignore';
+import { fileDiff } from './helpers';
+
+jest.mock('../src/utils/logger');
+
+describe('IgnoreRules', () => {
+    describe('defaults', () => {
+        it('should ignore lockfiles, snapshots, minified and vendored files', () => {
+            const rules = new IgnoreRules();
+
+            expect(rules.ignores('package-lock.json')).toBe(true);
+            expect(rules.ignores('packages/web/yarn.lock')).toBe(true);
+            expect(rules.ignores('Cargo.lock')).toBe(true);
+            expect(rules.ignores('src/__snapshots__/app.test.ts.snap')).toBe(true);
+            expect(rules.ignores('public/app.min.js')).toBe(true);
+            expect(rules.ignores('vendor/github.com/x/y.go')).toBe(true);
+            expect(rules.ignores('dist/index.js')).toBe(true);
+        });
+
+        it('should keep source, tests and docs', () => {
+            const rules = new IgnoreRules();
+
+            expect(rules.ignores('src/core/git.ts')).toBe(false);
+            expect(rules.ignores('tests/git.test.ts')).toBe(false);
+            expect(rules.ignores('README.md')).toBe(false);
+            expect(rules.ignores('src/distance.ts')).toBe(false);
+            expect(rules.ignores('package.json')).toBe(false);
+        });
+    });
+
+    describe('patterns', () => {
+        it('should match a pattern without a slash at any depth', () => {
+            const rules = new IgnoreRules(['*.pb.go']);
+
+            expect(rules.ignores('api.pb.go')).toBe(true);
+            expect(rules.ignores('proto/v1/api.pb.go')).toBe(true);
+            expect(rules.ignores('proto/v1/api.go')).toBe(false);
+        });
+
+        it('should anchor patterns with a slash to the root', () => {
+            const rules = new IgnoreRules(['/generated', 'docs/api/*.html']);
+
+            expect(rules.ignores('generated/types.ts')).toBe(true);
+            expect(rules.ignores('src/generated/types.ts')).toBe(false);
+            expect(rules.ignores('docs/api/index.html')).toBe(true);
+            expect(rules.ignores('docs/api/v2/index.html')).toBe(false);
+            expect(rules.ignores('site/docs/api/index.html')).toBe(false);
+        });
+
+        it('should only match directories with a trailing slash', () => {
+            const rules = new IgnoreRules(['fixtures/']);
+
+            expect(rules.ignores('tests/fixtures/big.json')).toBe(true);
+            expect(rules.ignores('fixtures')).toBe(false);
+        });
+
+        it('should match any number of directories with **', () => {
+            const rules = new IgnoreRules(['**/testdata/**', 'src/**/*.gen.ts']);
+
+            expect(rules.ignores('testdata/a.txt')).toBe(true);
+            expect(rules.ignores('pkg/x/testdata/deep/a.txt')).toBe(true);
+            expect(rules.ignores('src/a.gen.ts')).toBe(true);
+            expect(rules.ignores('src/a/b/c.gen.ts')).toBe(true);
+            expect(rules.ignores('lib/a.gen.ts')).toBe(false);
+        });
+
+        it('should let a later negation bring a file back', () => {
+            const rules = new IgnoreRules(['*.lock', '!Gemfile.lock']);
+
+            expect(rules.ignores('Cargo.lock')).toBe(true);
+            expect(rules.ignores('Gemfile.lock')).toBe(false);
+        });
+
+        it('should skip comments and blank lines and honour escapes', () => {
+            const rules = new IgnoreRules(['# notes', '', '\\#literal', 'a?c', '[ab].txt']);
+
+            expect(rules.ignores('notes')).toBe(false);
+            expect(rules.ignores('#literal')).toBe(true);
+            expect(rules.ignores('abc')).toBe(true);
+            expect(rules.ignores('a/c')).toBe(false);
+            expect(rules.ignores('b.txt')).toBe(true);
+            expect(rules.ignores('c.txt')).toBe(false);
+        });
+    });
+
+    describe('filterDiff', () => {
+        it('should drop ignored files from the diff', () => {
+            const rules = new IgnoreRules();
+            const diff = fileDiff('src/a.ts') + fileDiff('package-lock.json') + fileDiff('src/b.ts');
+
+            expect(rules.filterDiff(diff)).toBe(fileDiff('src/a.ts') + fileDiff('src/b.ts'));
+        });
+
+        it('should return text that is not a diff unchanged', () => {
+            expect(new IgnoreRules().filterDiff('not a diff')).toBe('not a diff');
+        });
+    });
+
+    describe('kindOf', () => {
+        it('should name the kind of file', () => {
+            expect(IgnoreRules.kindOf('yarn.lock')).toBe('lockfile');
+            expect(IgnoreRules.kindOf('a/b.snap')).toBe('snapshot');
+            expect(IgnoreRules.kindOf('app.min.css')).toBe('minified file');
+            expect(IgnoreRules.kindOf('vendor/lib.js')).toBe('vendored file');
+            expect(IgnoreRules.kindOf('dist/index.js')).toBe('build artifact');
+            expect(IgnoreRules.kindOf('src/__generated__/schema.ts')).toBe('generated file');
+            expect(IgnoreRules.kindOf('src/index.ts')).toBeUndefined();
+        });
+    });
+
+    describe('load', () => {
+        let root: string;
+
+        afterEach(() => {
+            fs.rmSync(root, { recursive: true, force: true });
+        });
+
+        it('should add configured patterns and the .aicmtignore file to the defaults', () => {
+            root = fs.mkdtempSync(path.join(os.tmpdir(), 'aicmt-ignore-'));
+            fs.writeFileSync(path.join(root, IGNORE_FILE), '# local rules\nfixtures/\n!yarn.lock\n');
+
+            const rules = IgnoreRules.load(root, ['*.pb.go']);
+
+            expect(rules.ignores('package-lock.json')).toBe(true);
+            expect(rules.ignores('api.pb.go')).toBe(true);
+            expect(rules.ignores('tests/fixtures/a.json')).toBe(true);
+            expect(rules.ignores('yarn.lock')).toBe(false);
+        });
+
+        it('should use the defaults when there is no .aicmtignore', () => {
+            root = fs.mkdtempSync(path.join(os.tmpdir(), 'aicmt-ignore-'));
+
+            const rules = IgnoreRules.load(root);
+
+            expect(rules.ignores('go.sum')).toBe(true);
+            expect(rules.ignores('main.go')).toBe(false);
+        });
+    });
+});
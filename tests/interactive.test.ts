@@ -0,0 +1,68 @@
+import { editText, resolveEditor } from '../src/utils/interactive.js';
+
+describe('interactive utils', () => {
+    const saved = {
+        GIT_EDITOR: process.env.GIT_EDITOR,
+        VISUAL: process.env.VISUAL,
+        EDITOR: process.env.EDITOR,
+    };
+
+    beforeEach(() => {
+        delete process.env.GIT_EDITOR;
+        delete process.env.VISUAL;
+        delete process.env.EDITOR;
+    });
+
+    afterAll(() => {
+        for (const [key, value] of Object.entries(saved)) {
+            if (value === undefined) {
+                delete process.env[key];
+            } else {
+                process.env[key] = value;
+            }
+        }
+    });
+
+    describe('resolveEditor', () => {
+        it('should prefer GIT_EDITOR over VISUAL and EDITOR', () => {
+            process.env.GIT_EDITOR = 'nano';
+            process.env.VISUAL = 'code --wait';
+            process.env.EDITOR = 'vim';
+
+            expect(resolveEditor()).toBe('nano');
+        });
+
+        it('should fall back to EDITOR', () => {
+            process.env.EDITOR = 'vim';
+            expect(resolveEditor()).toBe('vim');
+        });
+
+        it('should default to vi', () => {
+            expect(resolveEditor()).toBe('vi');
+        });
+    });
+
+    describe('editText', () => {
+        it('should return the saved text without comment lines', () => {
+            process.env.GIT_EDITOR = 'true';
+
+            const result = editText('feat: add editor support\n\nBody text', {
+                comment: 'Lines starting with # are ignored.',
+            });
+
+            expect(result).toBe('feat: add editor support\n\nBody text');
+        });
+
+        it('should pick up changes made by the editor', () => {
+            process.env.GIT_EDITOR = "sed -i.bak 's/feat/fix/'";
+
+            expect(editText('feat: typo')).toBe('fix: typo');
+        });
+
+        it('should throw when the editor fails', () => {
+            process.env.GIT_EDITOR = 'false';
+
+            expect(() => editText('feat: anything')).toThrow("Editor 'false' exited with code 1");
+        });
+    });
+});
@@ -1,106 +1,13 @@
 import { describe, it, expect } from '@jest/globals';
+import { CommitTypeRegistry } from '../src/core/commit-types';
+import { CommitLinter, LintResult } from '../src/core/lint';
 
-// Since lint-commit uses internal linting logic, we'll test the validation behavior
-// through the lens of what a valid/invalid commit message looks like
-
-interface LintResult {
-    valid: boolean;
-    errors: string[];
-    warnings: string[];
-}
-
-// Extracted linting logic from lint-commit command
+// Exercise the shared linter the same way the lint-commit command does
 function lintMessage(message: string, flags: { 'max-length': number; 'allow-emoji': boolean }): LintResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-
-    const lines = message.trim().split('\n');
-    const subject = lines[0];
-    const body = lines.slice(2).join('\n');
-
-    // Subject validation
-    if (subject.length === 0) {
-        errors.push('Subject line is empty');
-        return { valid: false, errors, warnings };
-    }
-
-    if (subject.length > flags['max-length']) {
-        errors.push(`Subject line too long (${subject.length} > ${flags['max-length']} characters)`);
-    }
-
-    if (subject.endsWith('.')) {
-        errors.push('Subject line should not end with a period');
-    }
-
-    const conventionalRegex = /^(feat|fix|docs|style|refactor|perf|test|chore|build|ci|revert)(\([a-z0-9\-\/]+\))?(!)?:\s+.+/;
-    const emojiRegex = /^(🚀|🐛|📝|♻️|✅|⚡|🧹|🔧|🔨|⏪)\s+/;
-
-    let subjectToCheck = subject;
-
-    if (flags['allow-emoji'] && emojiRegex.test(subject)) {
-        subjectToCheck = subject.replace(emojiRegex, '');
-    }
-
-    if (!conventionalRegex.test(subjectToCheck)) {
-        errors.push(
-            'Subject does not follow Conventional Commit format: ' +
-            '<type>(<scope>): <description> or <type>: <description>'
-        );
-    } else {
-        const match = subjectToCheck.match(conventionalRegex);
-        if (match) {
-            const scope = match[2];
-            const breaking = match[3];
-            const description = subjectToCheck.split(': ')[1];
-
-            if (description && /^[A-Z]/.test(description)) {
-                warnings.push('Subject description should start with lowercase letter');
-            }
-
-            if (description) {
-                const badStarts = ['added', 'adding', 'adds', 'fixed', 'fixing', 'fixes', 'updated', 'updating', 'updates'];
-                const firstWord = description.split(' ')[0].toLowerCase();
-                if (badStarts.includes(firstWord)) {
-                    warnings.push(`Use imperative mood: "${firstWord}" should be "${firstWord.replace(/e?d$/, '').replace(/ing$/, '').replace(/es$/, '').replace(/s$/, '')}"`);
-                }
-            }
-
-            if (scope && !/^\([a-z0-9\-\/]+\)$/.test(scope)) {
-                warnings.push('Scope should be lowercase with hyphens');
-            }
-
-            if (breaking && !body.includes('BREAKING CHANGE:')) {
-                warnings.push('Breaking change marker (!) present but no BREAKING CHANGE: footer found');
-            }
-        }
-    }
-
-    // Body validation
-    if (body.length > 0) {
-        if (lines.length > 1 && lines[1].trim() !== '') {
-            errors.push('Body must be separated from subject by a blank line');
-        }
-
-        const bodyLines = lines.slice(2);
-        bodyLines.forEach((line, idx) => {
-            if (line.length > 100 && !line.startsWith('http')) {
-                warnings.push(`Body line ${idx + 3} is too long (${line.length} > 100 characters)`);
-            }
-        });
-
-        if (body.includes('BREAKING CHANGE:')) {
-            const breakingMatch = body.match(/BREAKING CHANGE:\s*(.+)/);
-            if (breakingMatch && breakingMatch[1].trim().length === 0) {
-                errors.push('BREAKING CHANGE: footer must have a description');
-            }
-        }
-    }
-
-    return {
-        valid: errors.length === 0,
-        errors,
-        warnings,
-    };
+    return new CommitLinter().lint(message, {
+        maxLength: flags['max-length'],
+        allowEmoji: flags['allow-emoji'],
+    });
 }
 
 describe('Lint Commit Message Validation', () => {
@@ -142,6 +49,16 @@ describe('Lint Commit Message Validation', () => {
         });
     });
 
+    describe('custom commit types', () => {
+        it('should accept types from the registry', () => {
+            const linter = new CommitLinter(new CommitTypeRegistry({ deps: { emoji: '📦' } }));
+
+            expect(linter.lint('deps: bump lodash').valid).toBe(true);
+            expect(linter.lint('📦 deps: bump lodash').valid).toBe(true);
+            expect(new CommitLinter().lint('deps: bump lodash').valid).toBe(false);
+        });
+    });
+
     describe('invalid commit messages', () => {
         it('should fail for empty message', () => {
             const result = lintMessage('', defaultFlags);
@@ -213,4 +130,78 @@ describe('Lint Commit Message Validation', () => {
             expect(result2.valid).toBe(true);
         });
     });
+
+    describe('score', () => {
+        it('should rank errors above warnings', () => {
+            const linter = new CommitLinter();
+
+            const clean = linter.score(linter.lint('feat: add feature'));
+            const warned = linter.score(linter.lint('feat: Added feature'));
+            const broken = linter.score(linter.lint('added a feature.'));
+
+            expect(clean).toBe(0);
+            expect(warned).toBeGreaterThan(clean);
+            expect(broken).toBeGreaterThan(warned);
+        });
+    });
+
+    describe('hook messages', () => {
+        const buffer = [
+            'feat: add login',
+            '',
+            'Body text.',
+            '',
+            '# Please enter the commit message for your changes. Lines starting',
+            "# with '#' will be ignored, and an empty message aborts the commit.",
+            '#',
+            '# ------------------------ >8 ------------------------',
+            '# Do not modify or remove the line above.',
+            'diff --git a/src/a.ts b/src/a.ts',
+            '+Added a line that is way too long to be a subject and ends with a period.',
+        ].join('\n');
+
+        it('should strip comments and everything below the scissors line', () => {
+            expect(CommitLinter.stripComments(buffer)).toBe('feat: add login\n\nBody text.');
+            expect(new CommitLinter().lint(CommitLinter.stripComments(buffer)).valid).toBe(true);
+        });
+
+        it('should honor a custom comment char', () => {
+            const custom = buffer.replace(/^#/gm, ';');
+
+            expect(CommitLinter.stripComments(custom, ';')).toBe('feat: add login\n\nBody text.');
+            expect(CommitLinter.stripComments('#123 is fixed\n; comment', ';')).toBe('#123 is fixed');
+        });
+
+        it('should recognise the comment char git picked with core.commentChar=auto', () => {
+            const auto = buffer.replace(/^#/gm, ';');
+
+            expect(CommitLinter.stripComments(auto, 'auto')).toBe('feat: add login\n\nBody text.');
+            expect(CommitLinter.stripComments('feat: x\n# note', 'auto')).toBe('feat: x');
+        });
+
+        it('should clean up whitespace like git does', () => {
+            expect(CommitLinter.stripComments('\n\nfix: a  \n\n\n\nbody\n\n')).toBe('fix: a\n\nbody');
+        });
+
+        it('should allow git-generated subjects only when asked', () => {
+            const linter = new CommitLinter();
+            const subjects = [
+                "Merge branch 'main' into feature/login",
+                "Merge remote-tracking branch 'origin/main'",
+                'Merge pull request #42 from acme/login',
+                'Revert "feat: add login"',
+                'fixup! feat: add login',
+                'squash! feat: add login',
+                'amend! feat: add login',
+            ];
+
+            for (const subject of subjects) {
+                expect(CommitLinter.isGenerated(subject)).toBe(true);
+                expect(linter.lint(subject).valid).toBe(false);
+                expect(linter.lint(subject, { allowGenerated: true }).valid).toBe(true);
+            }
+
+            expect(linter.lint('Merged some stuff', { allowGenerated: true }).valid).toBe(false);
+        });
+    });
 });
@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import { CommitTypeRegistry } from '../src/core/commit-types';
+import { CommitFixer } from '../src/core/lint-fix';
+import { LintRules, RuleConfig } from '../src/core/lint-rules';
+
+function fix(message: string, rules: Record<string, RuleConfig> = {}) {
+    return new CommitFixer(new CommitTypeRegistry(), new LintRules(rules)).fix(message);
+}
+
+describe('CommitFixer', () => {
+    it('should fix the subject line', () => {
+        const { message, fixed, result } = fix('feat(api): Added token refresh.');
+
+        expect(message).toBe('feat(api): add token refresh');
+        expect(fixed.map((problem) => problem.rule)).toEqual(['subject-full-stop', 'subject-case', 'subject-imperative']);
+        expect(result.problems).toEqual([]);
+    });
+
+    it('should keep names and emoji prefixes', () => {
+        expect(fix('🐛 fix: GraphQL errors are swallowed.').message).toBe('🐛 fix: GraphQL errors are swallowed');
+        expect(fix('docs: Updated README').message).toBe('docs: update README');
+    });
+
+    it('should add missing blank lines and reorder footers', () => {
+        const { message, result } = fix(
+            'fix: close the socket\nThe pool leaked connections.\nSigned-off-by: Dev <dev@example.com>\nRefs: #12',
+            { 'footer-leading-blank': 'error' }
+        );
+
+        expect(message).toBe(
+            'fix: close the socket\n\nThe pool leaked connections.\n\nRefs: #12\nSigned-off-by: Dev <dev@example.com>'
+        );
+        expect(result.valid).toBe(true);
+    });
+
+    it('should fix what comes to light once earlier problems are fixed', () => {
+        const long = 'word '.repeat(30).trim();
+        const { message, fixed } = fix(`fix: wrap\n${long}`);
+
+        expect(message.split('\n').slice(0, 3)).toEqual(['fix: wrap', '', 'word '.repeat(14).trim()]);
+        expect(fixed.map((problem) => problem.rule)).toEqual(['body-leading-blank', 'body-max-line-length']);
+    });
+
+    it('should wrap long body lines, keeping bullets, code and links', () => {
+        const long = 'word '.repeat(30).trim();
+        const link = `https://example.com/${'a'.repeat(100)}`;
+        const { message, result } = fix(`fix: wrap\n\n${long}\n- ${long}\n\n    ${long}\n${link}`);
+
+        const lines = message.split('\n');
+        expect(lines.slice(2, 5)).toEqual([
+            'word '.repeat(14).trim(),
+            'word '.repeat(14).trim(),
+            'word word',
+        ]);
+        expect(lines[5]).toBe(`- ${'word '.repeat(14).trim()}`);
+        expect(lines[6]).toBe(`  ${'word '.repeat(14).trim()}`);
+        expect(lines).toContain(`    ${long}`);
+        expect(lines).toContain(link);
+        expect(result.warnings).toEqual(['Body line 10 is too long (153 > 100 characters)']);
+    });
+
+    it('should leave problems it cannot fix, and rules that are off', () => {
+        const { message, fixed, result } = fix('Added things.', { 'subject-full-stop': 'off' });
+
+        expect(message).toBe('Added things.');
+        expect(fixed).toEqual([]);
+        expect(result.errors[0]).toContain('Conventional Commit format');
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from '@jest/globals';
+import { CommitLinter } from '../src/core/lint';
+import { LintReport, LintedMessage } from '../src/core/lint-report';
+
+const linter = new CommitLinter();
+
+function linted(sha: string, message: string): LintedMessage {
+    return { name: sha.slice(0, 7), sha, subject: message.split('\n')[0], result: linter.lint(message) };
+}
+
+describe('LintReport', () => {
+    const messages = [
+        linted('a'.repeat(40), 'feat(api): add login'),
+        linted('b'.repeat(40), 'fix: Fixed <b>logout</b>'),
+        linted('c'.repeat(40), 'Update readme.'),
+    ];
+
+    it('should count failed messages and problems', () => {
+        const report = new LintReport(messages);
+
+        expect(report.failed().map((message) => message.name)).toEqual(['ccccccc']);
+        expect(report.count('error')).toBe(2);
+        expect(report.count('warn')).toBe(2);
+    });
+
+    it('should treat warnings as errors in strict mode', () => {
+        const report = new LintReport(messages, true);
+
+        expect(report.failed()).toHaveLength(2);
+        expect(report.count('warn')).toBe(0);
+    });
+
+    it('should list only messages with problems in text', () => {
+        const text = new LintReport(messages).render('text');
+
+        expect(text).not.toContain('aaaaaaa');
+        expect(text).toContain('ccccccc Update readme.\n  ❌ Subject line should not end with a period (subject-full-stop)');
+        expect(text).toContain('⚠️  Use imperative mood: "fixed" should be "fix" (subject-imperative)');
+        expect(text.split('\n').pop()).toBe('❌ 1 of 3 commit messages failed: 2 errors, 2 warnings');
+        expect(new LintReport(messages.slice(0, 1)).render('text')).toBe('✅ 1 commit message checked: 0 errors, 0 warnings');
+    });
+
+    it('should render JSON', () => {
+        const json = JSON.parse(new LintReport(messages).render('json'));
+
+        expect(json).toMatchObject({ valid: false, errors: 2, warnings: 2 });
+        expect(json.messages[0]).toEqual({ sha: 'a'.repeat(40), subject: 'feat(api): add login', valid: true, problems: [] });
+    });
+
+    it('should render escaped JUnit XML with one test case per message', () => {
+        const junit = new LintReport(messages).render('junit');
+
+        expect(junit).toContain('<testsuites name="aicmt lint-commit" tests="3" failures="1">');
+        expect(junit).toContain('<testcase classname="commit messages" name="bbbbbbb fix: Fixed &lt;b&gt;logout&lt;/b&gt;">');
+        expect(junit).toContain(
+            '<failure message="Subject line should not end with a period" type="subject-full-stop">' +
+            'subject-full-stop: Subject line should not end with a period\nheader-format: '
+        );
+        expect(junit).toContain('<system-out>warning subject-case: Subject description should start with lowercase letter');
+    });
+
+    it('should render GitHub Actions annotations', () => {
+        const lines = new LintReport(messages).render('github').split('\n');
+
+        expect(lines).toHaveLength(4);
+        expect(lines[0]).toBe(
+            '::warning title=bbbbbbb subject-case::Subject description should start with lowercase letter in "fix: Fixed <b>logout</b>"'
+        );
+        expect(lines[2]).toMatch(/^::error title=ccccccc subject-full-stop::/);
+    });
+
+    it('should point annotations for a message file at the file', () => {
+        const message = { name: 'msg.txt', file: 'msg, v2.txt', subject: 'oops', result: linter.lint('oops') };
+
+        expect(new LintReport([message]).render('github')).toBe(
+            '::error file=msg%2C v2.txt,title=msg.txt header-format::' +
+            'Subject does not follow Conventional Commit format: <type>(<scope>): <description> or <type>: <description> in "oops"'
+        );
+    });
+});
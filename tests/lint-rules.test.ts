@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommitTypeRegistry } from '../src/core/commit-types';
+import { CommitLinter } from '../src/core/lint';
+import { LintRules, RuleConfig } from '../src/core/lint-rules';
+import { ConfigError } from '../src/utils/errors';
+
+jest.mock('../src/utils/logger');
+
+function lint(message: string, rules: Record<string, RuleConfig> = {}) {
+    return new CommitLinter(new CommitTypeRegistry(), new LintRules(rules)).lint(message);
+}
+
+describe('LintRules', () => {
+    describe('defaults', () => {
+        it('should report each problem with the rule that raised it', () => {
+            const result = lint('feat(API): Added login.');
+
+            expect(result.problems).toEqual([
+                { rule: 'subject-full-stop', level: 'error', message: 'Subject line should not end with a period' },
+                { rule: 'scope-case', level: 'error', message: 'Scope "API" should be kebab-case' },
+                { rule: 'subject-case', level: 'warn', message: 'Subject description should start with lowercase letter' },
+                { rule: 'subject-imperative', level: 'warn', message: 'Use imperative mood: "added" should be "add"' },
+            ]);
+        });
+
+        it('should accept several scopes', () => {
+            expect(lint('feat(api,web): add login').valid).toBe(true);
+            expect(lint('feat(api/users): add login').valid).toBe(true);
+        });
+
+        it('should suggest the imperative form', () => {
+            expect(lint('docs: updated readme').warnings).toEqual(['Use imperative mood: "updated" should be "update"']);
+        });
+
+        it('should warn about footers out of order', () => {
+            expect(lint('fix: close socket\n\nSigned-off-by: Dev <dev@example.com>\nRefs: #12').problems).toEqual([
+                {
+                    rule: 'footer-order',
+                    level: 'warn',
+                    message: 'Footers should be ordered: BREAKING CHANGE, issue references, other trailers, Co-authored-by, Signed-off-by',
+                },
+            ]);
+            expect(LintRules.sortFooters(['Signed-off-by: A', 'Co-authored-by: B', 'Reviewed-by: C', 'Closes #3', 'BREAKING CHANGE: x'])).toEqual([
+                'BREAKING CHANGE: x',
+                'Closes #3',
+                'Reviewed-by: C',
+                'Co-authored-by: B',
+                'Signed-off-by: A',
+            ]);
+        });
+
+        it('should name the allowed types for an unknown one', () => {
+            expect(lint('feature: add login').errors[0]).toContain('unknown type "feature" (use one of feat, fix');
+        });
+    });
+
+    describe('configured rules', () => {
+        it('should turn rules off or change their level', () => {
+            expect(lint('feat: Add login', { 'subject-case': 'off' }).warnings).toEqual([]);
+            expect(lint('feat: add login.', { 'subject-full-stop': 1 }).warnings).toEqual([
+                'Subject line should not end with a period',
+            ]);
+        });
+
+        it('should check scope-enum and type-enum', () => {
+            const rules: Record<string, RuleConfig> = {
+                'scope-enum': ['error', 'always', ['api', 'web']],
+                'type-enum': ['error', 'never', ['chore']],
+            };
+
+            expect(lint('feat(api): add login', rules).valid).toBe(true);
+            expect(lint('feat(cli): add login', rules).errors).toEqual(['Scope "cli" is not one of: api, web']);
+            expect(lint('chore: tidy up', rules).errors).toEqual(['Type "chore" is not allowed']);
+        });
+
+        it('should require a scope with scope-empty', () => {
+            expect(lint('feat: add login', { 'scope-empty': ['error', 'never'] }).errors).toEqual([
+                'Scope is required: <type>(<scope>): <description>',
+            ]);
+        });
+
+        it('should check footers', () => {
+            const rules: Record<string, RuleConfig> = { 'footer-leading-blank': 'error', 'signed-off-by': 'error' };
+
+            expect(lint('fix: close socket\n\nIt leaked.\n\nSigned-off-by: Dev <dev@example.com>', rules).valid).toBe(true);
+            expect(lint('fix: close socket\n\nIt leaked.\nSigned-off-by: Dev <dev@example.com>', rules).errors).toEqual([
+                'Footer must be separated from the body by a blank line',
+            ]);
+            expect(lint('fix: close socket\n\nIt leaked.', rules).errors).toEqual([
+                'Add a "Signed-off-by:" trailer (git commit -s)',
+            ]);
+        });
+
+        it('should require an issue reference with references-required', () => {
+            const rules: Record<string, RuleConfig> = { 'references-required': 'error' };
+
+            expect(lint('fix: close socket', rules).valid).toBe(false);
+            expect(lint('fix: close socket\n\nRefs: #12', rules).valid).toBe(true);
+            expect(lint('fix: close socket (#12)', rules).valid).toBe(true);
+            expect(lint('fix: close socket\n\nCloses PROJ-381', rules).valid).toBe(true);
+        });
+
+        it('should let --max-length win over header-max-length', () => {
+            const linter = new CommitLinter(new CommitTypeRegistry(), new LintRules({ 'header-max-length': ['error', 20] }));
+
+            expect(linter.lint('feat: add a login page').valid).toBe(false);
+            expect(linter.lint('feat: add a login page', { maxLength: 72 }).valid).toBe(true);
+        });
+
+        it('should reject unknown rules and bad values', () => {
+            expect(() => new LintRules({ 'no-such-rule': 'error' } as any)).toThrow(ConfigError);
+            expect(LintRules.problem('scope-enum', ['error', 'always', 'api'])).toBe('scope-enum value must be a list of scopes');
+            expect(LintRules.problem('subject-case', ['warn', 'never', 'shouting'])).toContain('a case name or list of case names');
+            expect(LintRules.problem('body-leading-blank', ['error', 'never'])).toBe('body-leading-blank does not support "never"');
+            expect(LintRules.problem('header-format', 'loud')).toContain('must be a level');
+            expect(LintRules.problem('signed-off-by', [2, 'always', 'Signed-off-by:'])).toBeUndefined();
+        });
+    });
+
+    describe('commitlint configs', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aicmt-commitlint-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('should load JSON rules, map commitlint names and skip unknown rules', () => {
+            fs.writeFileSync(
+                path.join(dir, '.commitlintrc.json'),
+                JSON.stringify({
+                    extends: ['@commitlint/config-conventional'],
+                    rules: {
+                        'scope-enum': [2, 'always', ['api']],
+                        'references-empty': [2, 'never'],
+                        'header-trim': [2, 'always'],
+                    },
+                })
+            );
+
+            expect(LintRules.loadCommitlint(path.join(dir, '.commitlintrc.json'))).toEqual({
+                'scope-enum': [2, 'always', ['api']],
+                'references-required': [2, 'always'],
+            });
+        });
+
+        it('should translate a config-conventional style config', () => {
+            fs.writeFileSync(
+                path.join(dir, '.commitlintrc.json'),
+                JSON.stringify({
+                    extends: ['@commitlint/config-conventional'],
+                    rules: {
+                        'body-leading-blank': [1, 'always'],
+                        'header-max-length': [2, 'always', 100],
+                        'subject-case': [2, 'never', ['sentence-case', 'start-case', 'pascal-case', 'upper-case']],
+                        'subject-empty': [2, 'never'],
+                        'subject-full-stop': [2, 'never', '.'],
+                        'type-case': [2, 'always', 'lower-case'],
+                        'type-empty': [2, 'never'],
+                        'type-enum': [2, 'always', ['feat', 'fix', 'docs']],
+                    },
+                })
+            );
+
+            const rules = new LintRules(LintRules.loadCommitlint(path.join(dir, '.commitlintrc.json')));
+
+            expect(rules.get('header-format')).toEqual({ level: 'error', when: 'always' });
+            expect(rules.get('header-max-length')?.value).toBe(100);
+            expect(rules.get('type-enum')?.value).toEqual(['feat', 'fix', 'docs']);
+        });
+
+        it('should skip empty-rule conditions aicmt cannot check', () => {
+            fs.writeFileSync(
+                path.join(dir, '.commitlintrc.json'),
+                JSON.stringify({ rules: { 'type-empty': [2, 'always'], 'references-empty': [1, 'always'], 'subject-empty': [0] } })
+            );
+
+            const loaded = LintRules.loadCommitlint(path.join(dir, '.commitlintrc.json'));
+
+            expect(loaded).toEqual({ 'header-format': [0, 'always'] });
+            expect(() => new LintRules(loaded)).not.toThrow();
+        });
+
+        it('should load YAML and package.json configs', () => {
+            fs.writeFileSync(path.join(dir, '.commitlintrc.yaml'), 'rules:\n  header-max-length: [1, always, 100]\n');
+            fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ commitlint: { rules: { 'signed-off-by': [2, 'always'] } } }));
+
+            expect(LintRules.loadCommitlint(path.join(dir, '.commitlintrc.yaml'))).toEqual({ 'header-max-length': [1, 'always', 100] });
+            expect(LintRules.loadCommitlint(path.join(dir, 'package.json'))).toEqual({ 'signed-off-by': [2, 'always'] });
+        });
+
+        it('should refuse JavaScript configs and missing files', () => {
+            expect(() => LintRules.loadCommitlint(path.join(dir, 'commitlint.config.js'))).toThrow(/not supported/);
+            expect(() => LintRules.loadCommitlint(path.join(dir, '.commitlintrc'))).toThrow(ConfigError);
+        });
+
+        it('should apply .aicmt.yaml rules over the extended file', () => {
+            fs.writeFileSync(path.join(dir, '.commitlintrc'), 'rules:\n  scope-enum: [2, always, [api]]\n  signed-off-by: [2, always]\n');
+
+            const rules = LintRules.fromConfig({ extends: '.commitlintrc', rules: { 'signed-off-by': 'off' } }, dir);
+
+            expect(rules.get('scope-enum')).toEqual({ level: 'error', when: 'always', value: ['api'] });
+            expect(rules.get('signed-off-by')?.level).toBe('off');
+        });
+    });
+});
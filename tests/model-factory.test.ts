@@ -1,9 +1,13 @@
 import { ModelFactory } from '../src/core/model-factory.js';
 import { OpenAIProvider } from '../src/providers/openai.js';
+import { OllamaProvider } from '../src/providers/ollama.js';
+import { AnthropicProvider } from '../src/providers/anthropic.js';
 import { ConfigService } from '../src/core/config.js';
 
 // Mock dependencies
 jest.mock('../src/providers/openai.js');
+jest.mock('../src/providers/ollama.js');
+jest.mock('../src/providers/anthropic.js');
 jest.mock('../src/core/config.js');
 
 describe('ModelFactory', () => {
@@ -32,6 +36,11 @@ describe('ModelFactory', () => {
             expect(result).toEqual({ provider: 'anthropic', model: 'claude-3' });
         });
 
+        it('should parse ollama models with tags', () => {
+            const result = ModelFactory.parseModelString('ollama/llama3:8b');
+            expect(result).toEqual({ provider: 'ollama', model: 'llama3:8b' });
+        });
+
         it('should throw error for invalid format', () => {
             expect(() => {
                 ModelFactory.parseModelString('openai/gpt/4/extra');
@@ -77,6 +86,68 @@ describe('ModelFactory', () => {
             expect(OpenAIProvider).toHaveBeenCalled();
         });
 
+        it('should pass base URL to OpenAI provider', () => {
+            ModelFactory.create('openai', {
+                model: 'llama-3-70b',
+                baseURL: 'https://llm-gateway.internal/v1',
+            });
+
+            expect(OpenAIProvider).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    model: 'llama-3-70b',
+                    baseURL: 'https://llm-gateway.internal/v1',
+                })
+            );
+        });
+
+        it('should create Azure OpenAI provider', () => {
+            ModelFactory.create('azure', {
+                model: 'gpt-4o-mini',
+                baseURL: 'https://my-resource.openai.azure.com',
+                apiVersion: '2024-06-01',
+                deployment: 'commit-writer',
+            });
+
+            expect(OpenAIProvider).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    azure: true,
+                    baseURL: 'https://my-resource.openai.azure.com',
+                    apiVersion: '2024-06-01',
+                    deployment: 'commit-writer',
+                })
+            );
+        });
+
+        it('should create Anthropic provider', () => {
+            ModelFactory.create('anthropic', {
+                model: 'claude-3-5-haiku-latest',
+                apiKey: 'anthropic-key',
+            });
+
+            expect(AnthropicProvider).toHaveBeenCalledWith({
+                model: 'claude-3-5-haiku-latest',
+                temperature: undefined,
+                maxTokens: undefined,
+                apiKey: 'anthropic-key',
+            });
+        });
+
+        it('should create Ollama provider', () => {
+            const provider = ModelFactory.create('ollama', {
+                model: 'llama3',
+                temperature: 0.1,
+                maxTokens: 300,
+            });
+
+            expect(OllamaProvider).toHaveBeenCalledWith({
+                model: 'llama3',
+                temperature: 0.1,
+                maxTokens: 300,
+            });
+            expect(OpenAIProvider).not.toHaveBeenCalled();
+            expect(provider).toBeDefined();
+        });
+
         it('should throw error for unsupported provider', () => {
             expect(() => {
                 ModelFactory.create('unsupported', {
@@ -113,6 +184,16 @@ describe('ModelFactory', () => {
             });
         });
 
+        it('should create Anthropic provider from anthropic/ prefix', () => {
+            ModelFactory.createFromString('anthropic/claude-3-5-sonnet-latest');
+
+            expect(AnthropicProvider).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    model: 'claude-3-5-sonnet-latest',
+                })
+            );
+        });
+
         it('should handle model-only string', () => {
             ModelFactory.createFromString('gpt-4o-mini');
 
@@ -122,6 +203,53 @@ describe('ModelFactory', () => {
                 })
             );
         });
+
+        it('should keep the configured endpoint when the provider matches', () => {
+            const mockConfig = {
+                getValue: jest.fn().mockReturnValue({
+                    provider: 'azure',
+                    name: 'gpt-4o',
+                    base_url: 'https://my-resource.openai.azure.com',
+                    api_version: '2024-06-01',
+                    deployment: 'prod-gpt4o',
+                }),
+            } as any;
+
+            ModelFactory.createFromString('azure/gpt-4o-mini', undefined, mockConfig);
+            ModelFactory.createFromString('ollama/llama3', undefined, mockConfig);
+
+            expect(OpenAIProvider).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    model: 'gpt-4o-mini',
+                    azure: true,
+                    baseURL: 'https://my-resource.openai.azure.com',
+                    apiVersion: '2024-06-01',
+                    deployment: 'prod-gpt4o',
+                })
+            );
+            expect(OllamaProvider).toHaveBeenCalledWith(expect.objectContaining({ host: undefined }));
+        });
+
+        it('should keep the configured context window when the provider matches', () => {
+            const mockConfig = {
+                getValue: jest.fn().mockReturnValue({
+                    provider: 'ollama',
+                    name: 'llama3',
+                    context_window: 32768,
+                }),
+            } as any;
+
+            ModelFactory.createFromString('ollama/llama3:70b', undefined, mockConfig);
+            ModelFactory.createFromString('openai/gpt-4o-mini', undefined, mockConfig);
+
+            expect(OllamaProvider).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    model: 'llama3:70b',
+                    contextWindow: 32768,
+                })
+            );
+            expect(OpenAIProvider).toHaveBeenCalledWith(expect.objectContaining({ contextWindow: undefined }));
+        });
     });
 
     describe('createFromConfig', () => {
@@ -148,6 +276,66 @@ describe('ModelFactory', () => {
             expect(provider).toBeDefined();
         });
 
+        it('should pass endpoint settings from config', () => {
+            const mockConfig = {
+                getValue: jest.fn().mockReturnValue({
+                    provider: 'azure',
+                    name: 'gpt-4o',
+                    base_url: 'https://my-resource.openai.azure.com',
+                    api_version: '2024-06-01',
+                    deployment: 'commit-writer',
+                }),
+            } as any;
+
+            ModelFactory.createFromConfig(mockConfig);
+
+            expect(OpenAIProvider).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    model: 'gpt-4o',
+                    azure: true,
+                    baseURL: 'https://my-resource.openai.azure.com',
+                    apiVersion: '2024-06-01',
+                    deployment: 'commit-writer',
+                })
+            );
+        });
+
+        it('should create Ollama provider from config', () => {
+            const mockConfig = {
+                getValue: jest.fn().mockReturnValue({
+                    provider: 'ollama',
+                    name: 'llama3',
+                }),
+            } as any;
+
+            ModelFactory.createFromConfig(mockConfig);
+
+            expect(OllamaProvider).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    model: 'llama3',
+                })
+            );
+        });
+
+        it('should pass the configured context window to the provider', () => {
+            const mockConfig = {
+                getValue: jest.fn().mockReturnValue({
+                    provider: 'ollama',
+                    name: 'llama3',
+                    context_window: 32768,
+                }),
+            } as any;
+
+            ModelFactory.createFromConfig(mockConfig);
+
+            expect(OllamaProvider).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    model: 'llama3',
+                    contextWindow: 32768,
+                })
+            );
+        });
+
         it('should use default values when not in config', () => {
             const mockConfig = {
                 getValue: jest.fn().mockReturnValue({
@@ -0,0 +1,134 @@
+import { completeStreaming, completeWithProgress, generateCandidates, ModelProvider } from '../src/core/model.js';
+import { logger } from '../src/utils/logger.js';
+
+jest.mock('../src/utils/logger.js');
+
+describe('completeStreaming', () => {
+    const messages = [{ role: 'user' as const, content: 'test' }];
+
+    it('should stream tokens to the callback and return the trimmed result', async () => {
+        const provider: ModelProvider = {
+            complete: jest.fn(),
+            async *stream() {
+                yield 'feat: ';
+                yield 'add streaming\n';
+            },
+        };
+        const tokens: string[] = [];
+
+        const result = await completeStreaming(provider, messages, (token) => tokens.push(token));
+
+        expect(result).toBe('feat: add streaming');
+        expect(tokens).toEqual(['feat: ', 'add streaming\n']);
+        expect(provider.complete).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to complete when the provider cannot stream', async () => {
+        const provider: ModelProvider = {
+            complete: jest.fn().mockResolvedValue('fix: fallback'),
+        };
+        const onToken = jest.fn();
+
+        await expect(completeStreaming(provider, messages, onToken)).resolves.toBe('fix: fallback');
+        expect(onToken).not.toHaveBeenCalled();
+    });
+
+    it('should use complete when no callback is given', async () => {
+        const stream = jest.fn();
+        const provider = {
+            complete: jest.fn().mockResolvedValue('docs: update readme'),
+            stream,
+        } as unknown as ModelProvider;
+
+        await expect(completeStreaming(provider, messages)).resolves.toBe('docs: update readme');
+        expect(stream).not.toHaveBeenCalled();
+    });
+});
+
+describe('completeWithProgress', () => {
+    const messages = [{ role: 'user' as const, content: 'test' }];
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should count streamed tokens in a spinner instead of echoing them', async () => {
+        const stop = jest.fn();
+        let text: (() => string) | undefined;
+        (logger.spinner as jest.Mock).mockImplementation((message: () => string) => {
+            text = message;
+            return stop;
+        });
+        const provider: ModelProvider = {
+            complete: jest.fn(),
+            async *stream() {
+                yield '{"type": ';
+                yield '"feat"}';
+            },
+        };
+
+        await expect(completeWithProgress(provider, messages, 'Generating commit message')).resolves.toBe('{"type": "feat"}');
+        expect(text?.()).toBe('Generating commit message (2 tokens)');
+        expect(stop).toHaveBeenCalled();
+        expect(logger.raw).not.toHaveBeenCalled();
+    });
+
+    it('should use complete without a label', async () => {
+        const provider = { complete: jest.fn().mockResolvedValue('fix: quiet'), stream: jest.fn() } as unknown as ModelProvider;
+
+        await expect(completeWithProgress(provider, messages)).resolves.toBe('fix: quiet');
+        expect(logger.spinner).not.toHaveBeenCalled();
+    });
+});
+
+describe('generateCandidates', () => {
+    const messages = [{ role: 'user' as const, content: 'test' }];
+
+    it('should use native multi-choice support when available', async () => {
+        const provider: ModelProvider = {
+            complete: jest.fn(),
+            candidates: jest.fn().mockResolvedValue(['feat: one', 'feat: two']),
+        };
+
+        await expect(generateCandidates(provider, messages, 2)).resolves.toEqual(['feat: one', 'feat: two']);
+        expect(provider.candidates).toHaveBeenCalledWith(messages, 2);
+        expect(provider.complete).not.toHaveBeenCalled();
+    });
+
+    it('should repeat requests at increasing temperatures otherwise', async () => {
+        const complete = jest
+            .fn()
+            .mockResolvedValueOnce('feat: one')
+            .mockResolvedValueOnce('feat: two')
+            .mockResolvedValueOnce('feat: three');
+        const provider: ModelProvider = { complete };
+
+        await expect(generateCandidates(provider, messages, 3)).resolves.toEqual([
+            'feat: one',
+            'feat: two',
+            'feat: three',
+        ]);
+        expect(complete).toHaveBeenNthCalledWith(1, messages);
+        expect(complete.mock.calls[1][1].temperature).toBeCloseTo(0.5);
+        expect(complete.mock.calls[2][1].temperature).toBeCloseTo(0.8);
+    });
+
+    it('should drop duplicate and empty candidates', async () => {
+        const provider: ModelProvider = {
+            complete: jest.fn(),
+            candidates: jest.fn().mockResolvedValue(['feat: same', 'feat: same \n', '']),
+        };
+
+        await expect(generateCandidates(provider, messages, 3)).resolves.toEqual(['feat: same']);
+    });
+
+    it('should make a single call for one candidate', async () => {
+        const provider: ModelProvider = {
+            complete: jest.fn().mockResolvedValue('fix: only'),
+            candidates: jest.fn(),
+        };
+
+        await expect(generateCandidates(provider, messages, 1)).resolves.toEqual(['fix: only']);
+        expect(provider.candidates).not.toHaveBeenCalled();
+    });
+});
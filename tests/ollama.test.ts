@@ -0,0 +1,161 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OllamaProvider } from '../src/providers/ollama.js';
+import { Message } from '../src/core/model.js';
+
+interface StubReply {
+    status: number;
+    body: unknown;
+}
+
+describe('OllamaProvider', () => {
+    let server: http.Server;
+    let host: string;
+    let reply: StubReply;
+    let lastRequest: { url?: string; method?: string; body: any };
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', (chunk) => (raw += chunk));
+            req.on('end', () => {
+                lastRequest = { url: req.url, method: req.method, body: raw ? JSON.parse(raw) : undefined };
+                res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify(reply.body));
+            });
+        });
+
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        const { port } = server.address() as AddressInfo;
+        host = `http://127.0.0.1:${port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+        reply = {
+            status: 200,
+            body: {
+                model: 'llama3',
+                message: { role: 'assistant', content: 'feat: add local provider' },
+                done: true,
+                prompt_eval_count: 20,
+                eval_count: 8,
+            },
+        };
+    });
+
+    afterEach(() => {
+        delete process.env.OLLAMA_HOST;
+    });
+
+    describe('constructor', () => {
+        it('should not require an API key', () => {
+            delete process.env.OPENAI_API_KEY;
+            expect(() => new OllamaProvider({ model: 'llama3' })).not.toThrow();
+        });
+    });
+
+    describe('complete', () => {
+        it('should post messages to the chat endpoint', async () => {
+            const provider = new OllamaProvider({ model: 'llama3', host, temperature: 0.4, maxTokens: 256 });
+            const messages: Message[] = [
+                { role: 'system', content: 'You write commits' },
+                { role: 'user', content: 'Describe the diff' },
+            ];
+
+            const result = await provider.complete(messages);
+
+            expect(result).toBe('feat: add local provider');
+            expect(lastRequest.method).toBe('POST');
+            expect(lastRequest.url).toBe('/api/chat');
+            expect(lastRequest.body).toEqual({
+                model: 'llama3',
+                stream: false,
+                messages,
+                options: { temperature: 0.4, num_predict: 256 },
+            });
+        });
+
+        it('should send a configured context window as num_ctx', async () => {
+            const provider = new OllamaProvider({ model: 'llama3', host, maxTokens: 256, contextWindow: 16384 });
+
+            await provider.complete([{ role: 'user', content: 'test' }]);
+
+            expect(lastRequest.body.options).toEqual({ temperature: 0.2, num_predict: 256, num_ctx: 16384 });
+            expect(provider.tokenEstimator().contextWindow).toBe(16384);
+        });
+
+        it('should read the host from OLLAMA_HOST', async () => {
+            process.env.OLLAMA_HOST = host.replace('http://', '');
+            const provider = new OllamaProvider({ model: 'llama3' });
+
+            await expect(provider.complete([{ role: 'user', content: 'test' }])).resolves.toBe(
+                'feat: add local provider'
+            );
+        });
+
+        it('should trim whitespace from response', async () => {
+            reply.body = { message: { role: 'assistant', content: '\n  fix: trim  \n' } };
+            const provider = new OllamaProvider({ model: 'llama3', host });
+
+            await expect(provider.complete([{ role: 'user', content: 'test' }])).resolves.toBe('fix: trim');
+        });
+
+        it('should throw error for empty messages array', async () => {
+            const provider = new OllamaProvider({ model: 'llama3', host });
+            await expect(provider.complete([])).rejects.toThrow('Messages array cannot be empty');
+        });
+
+        it('should validate message role', async () => {
+            const provider = new OllamaProvider({ model: 'llama3', host });
+            await expect(
+                provider.complete([{ role: 'invalid' as any, content: 'test' }])
+            ).rejects.toThrow('Invalid message role');
+        });
+
+        it('should handle missing content in response', async () => {
+            reply.body = { done: true };
+            const provider = new OllamaProvider({ model: 'llama3', host });
+
+            await expect(provider.complete([{ role: 'user', content: 'test' }])).rejects.toThrow(
+                'No content received from Ollama'
+            );
+        });
+    });
+
+    describe('error handling', () => {
+        it('should suggest pulling the model on 404', async () => {
+            reply = { status: 404, body: { error: "model 'mistral' not found" } };
+            const provider = new OllamaProvider({ model: 'mistral', host });
+
+            await expect(provider.complete([{ role: 'user', content: 'test' }])).rejects.toThrow(
+                'Run `ollama pull mistral` first'
+            );
+        });
+
+        it('should surface server error messages', async () => {
+            reply = { status: 500, body: { error: 'out of memory' } };
+            const provider = new OllamaProvider({ model: 'llama3', host });
+
+            await expect(provider.complete([{ role: 'user', content: 'test' }])).rejects.toThrow(
+                'Ollama API error (500): out of memory'
+            );
+        });
+
+        it('should explain when the server is not running', async () => {
+            const closed = http.createServer();
+            await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+            const { port } = closed.address() as AddressInfo;
+            await new Promise<void>((resolve) => closed.close(() => resolve()));
+
+            const provider = new OllamaProvider({ model: 'llama3', host: `http://127.0.0.1:${port}` });
+
+            await expect(provider.complete([{ role: 'user', content: 'test' }])).rejects.toThrow(
+                'Is `ollama serve` running?'
+            );
+        });
+    });
+});
@@ -1,6 +1,6 @@
 import { OpenAIProvider } from '../src/providers/openai.js';
 import { Message } from '../src/core/model.js';
-import OpenAI from 'openai';
+import OpenAI, { AzureOpenAI } from 'openai';
 
 // Mock the OpenAI module
 jest.mock('openai');
@@ -81,6 +81,92 @@ describe('OpenAIProvider', () => {
         });
     });
 
+    describe('custom endpoints', () => {
+        afterEach(() => {
+            delete process.env.OPENAI_BASE_URL;
+            delete process.env.AZURE_OPENAI_API_KEY;
+            delete process.env.AZURE_OPENAI_ENDPOINT;
+        });
+
+        it('should pass baseURL to the OpenAI client', () => {
+            new OpenAIProvider({ model: 'llama-3-70b', baseURL: 'https://llm-gateway.internal/v1' });
+
+            expect(OpenAI).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    apiKey: 'test-api-key',
+                    baseURL: 'https://llm-gateway.internal/v1',
+                })
+            );
+        });
+
+        it('should read baseURL from OPENAI_BASE_URL', () => {
+            process.env.OPENAI_BASE_URL = 'http://localhost:8000/v1';
+            new OpenAIProvider({ model: 'llama-3-70b' });
+
+            expect(OpenAI).toHaveBeenCalledWith(
+                expect.objectContaining({ baseURL: 'http://localhost:8000/v1' })
+            );
+        });
+
+        it('should create an Azure client with deployment and api version', () => {
+            process.env.AZURE_OPENAI_API_KEY = 'azure-key';
+            (AzureOpenAI as unknown as jest.Mock).mockImplementation(() => ({
+                chat: { completions: { create: mockCreate } },
+            }));
+
+            new OpenAIProvider({
+                model: 'gpt-4o-mini',
+                azure: true,
+                baseURL: 'https://my-resource.openai.azure.com',
+                apiVersion: '2024-06-01',
+                deployment: 'commit-writer',
+            });
+
+            expect(AzureOpenAI).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    apiKey: 'azure-key',
+                    endpoint: 'https://my-resource.openai.azure.com',
+                    apiVersion: '2024-06-01',
+                    deployment: 'commit-writer',
+                })
+            );
+            expect(OpenAI).not.toHaveBeenCalled();
+        });
+
+        it('should default Azure deployment to the model name', () => {
+            process.env.AZURE_OPENAI_API_KEY = 'azure-key';
+            process.env.AZURE_OPENAI_ENDPOINT = 'https://my-resource.openai.azure.com';
+
+            new OpenAIProvider({ model: 'gpt-4o', azure: true });
+
+            expect(AzureOpenAI).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    endpoint: 'https://my-resource.openai.azure.com',
+                    apiVersion: '2024-10-21',
+                    deployment: 'gpt-4o',
+                })
+            );
+        });
+
+        it('should require an Azure API key', () => {
+            expect(() => {
+                new OpenAIProvider({
+                    model: 'gpt-4o',
+                    azure: true,
+                    baseURL: 'https://my-resource.openai.azure.com',
+                });
+            }).toThrow('Azure OpenAI API key is required');
+        });
+
+        it('should require an Azure endpoint', () => {
+            process.env.AZURE_OPENAI_API_KEY = 'azure-key';
+
+            expect(() => {
+                new OpenAIProvider({ model: 'gpt-4o', azure: true });
+            }).toThrow('Azure OpenAI endpoint is required');
+        });
+    });
+
     describe('complete', () => {
         let provider: OpenAIProvider;
 
@@ -183,6 +269,95 @@ describe('OpenAIProvider', () => {
         });
     });
 
+    describe('candidates', () => {
+        let provider: OpenAIProvider;
+
+        beforeEach(() => {
+            provider = new OpenAIProvider({ model: 'gpt-4o-mini' });
+        });
+
+        it('should request n choices in one call', async () => {
+            mockCreate.mockResolvedValue({
+                choices: [
+                    { message: { content: 'feat: one ' } },
+                    { message: { content: null } },
+                    { message: { content: 'feat: two' } },
+                ],
+                usage: { total_tokens: 60 },
+                model: 'gpt-4o-mini',
+            });
+
+            const result = await provider.candidates([{ role: 'user', content: 'test' }], 3);
+
+            expect(result).toEqual(['feat: one', 'feat: two']);
+            expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ n: 3, temperature: 0.7 }));
+        });
+
+        it('should override temperature per call in complete', async () => {
+            mockCreate.mockResolvedValue({ choices: [{ message: { content: 'feat: x' } }] });
+
+            await provider.complete([{ role: 'user', content: 'test' }], { temperature: 0.9 });
+
+            expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ temperature: 0.9 }));
+        });
+    });
+
+    describe('stream', () => {
+        let provider: OpenAIProvider;
+
+        async function* chunks(...deltas: Array<string | undefined>) {
+            for (const content of deltas) {
+                yield { choices: [{ delta: { content } }] };
+            }
+        }
+
+        async function collect(iterable: AsyncIterable<string>): Promise<string[]> {
+            const tokens: string[] = [];
+            for await (const token of iterable) {
+                tokens.push(token);
+            }
+            return tokens;
+        }
+
+        beforeEach(() => {
+            provider = new OpenAIProvider({ model: 'gpt-4o-mini' });
+        });
+
+        it('should yield content deltas as they arrive', async () => {
+            mockCreate.mockResolvedValue(chunks('feat', undefined, ': add', ' streaming'));
+
+            const tokens = await collect(provider.stream([{ role: 'user', content: 'test' }]));
+
+            expect(tokens).toEqual(['feat', ': add', ' streaming']);
+            expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ stream: true }));
+        });
+
+        it('should throw when the stream has no content', async () => {
+            mockCreate.mockResolvedValue(chunks(undefined));
+
+            await expect(collect(provider.stream([{ role: 'user', content: 'test' }]))).rejects.toThrow(
+                'No content received from OpenAI API'
+            );
+        });
+
+        it('should validate messages before streaming', async () => {
+            await expect(collect(provider.stream([]))).rejects.toThrow('Messages array cannot be empty');
+            expect(mockCreate).not.toHaveBeenCalled();
+        });
+
+        it('should translate API errors', async () => {
+            const error = Object.assign(
+                new OpenAI.APIError(429, { error: { message: 'Rate limit' } }, 'Too Many Requests', {}),
+                { status: 429 }
+            );
+            mockCreate.mockRejectedValue(error);
+
+            await expect(collect(provider.stream([{ role: 'user', content: 'test' }]))).rejects.toThrow(
+                'OpenAI API rate limit exceeded'
+            );
+        });
+    });
+
     describe('error handling', () => {
         let provider: OpenAIProvider;
 
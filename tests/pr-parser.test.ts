@@ -0,0 +1,118 @@
+import { PRParser } from '../src/core/pr-parser.js';
+
+describe('PRParser', () => {
+    let parser: PRParser;
+
+    beforeEach(() => {
+        parser = new PRParser();
+    });
+
+    it('should split markdown into known sections', () => {
+        const { sections } = parser.parse(
+            [
+                '# Add OAuth2 login',
+                '',
+                '## Summary',
+                'Adds OAuth2 login.',
+                '',
+                '## Changes',
+                '- Implement OAuth2 flow',
+                '- Add JWT token handling that also',
+                '  refreshes expired tokens',
+                '',
+                '## Breaking Changes',
+                'The /auth endpoint moved.',
+                '',
+                '## Migration Steps',
+                '1. Update client configuration',
+                '2. Regenerate API tokens',
+                '',
+                '## Testing',
+                'Run `npm test`.',
+            ].join('\n')
+        );
+
+        expect(sections).toEqual({
+            summary: 'Adds OAuth2 login.',
+            changes: ['Implement OAuth2 flow', 'Add JWT token handling that also refreshes expired tokens'],
+            breaking: 'The /auth endpoint moved.',
+            migration: ['Update client configuration', 'Regenerate API tokens'],
+            testing: 'Run `npm test`.',
+            screenshots: undefined,
+            notes: undefined,
+        });
+    });
+
+    it('should treat text before the first heading as the summary', () => {
+        const { sections } = parser.parse('Fixes the login redirect.\n\n### Changes\n* Check the return URL');
+
+        expect(sections.summary).toBe('Fixes the login redirect.');
+        expect(sections.changes).toEqual(['Check the return URL']);
+    });
+
+    it('should keep unknown sections as notes', () => {
+        const { sections } = parser.parse('## Summary\nTidy up\n\n## Rollout\nShip behind a flag');
+
+        expect(sections.summary).toBe('Tidy up');
+        expect(sections.notes).toBe('### Rollout\nShip behind a flag');
+    });
+
+    it('should strip a surrounding markdown fence', () => {
+        const { sections } = parser.parse('```markdown\n## Summary\nTidy up\n```');
+
+        expect(sections.summary).toBe('Tidy up');
+    });
+
+    it('should return empty lists when sections are missing', () => {
+        const { sections } = parser.parse('Just a sentence.');
+
+        expect(sections.changes).toEqual([]);
+        expect(sections.migration).toEqual([]);
+    });
+
+    describe('JSON output', () => {
+        it('should read structured sections', () => {
+            const result = parser.parse(
+                JSON.stringify({
+                    summary: 'Cache profiles',
+                    changes: ['Add LRU cache', ' ', 'Invalidate on update'],
+                    breaking: null,
+                    migration: '1. Set CACHE_SIZE\n2. Restart workers',
+                    testing: 'Run npm test',
+                })
+            );
+
+            expect(result.source).toBe('json');
+            expect(result.sections).toEqual({
+                summary: 'Cache profiles',
+                changes: ['Add LRU cache', 'Invalidate on update'],
+                breaking: undefined,
+                migration: ['Set CACHE_SIZE', 'Restart workers'],
+                testing: 'Run npm test',
+                screenshots: undefined,
+                notes: undefined,
+            });
+        });
+
+        it('should unwrap a fenced JSON block after a preamble', () => {
+            const result = parser.parse('Here you go:\n```json\n{"summary": "Tidy up", "changes": ["a"]}\n```');
+
+            expect(result.source).toBe('json');
+            expect(result.sections.summary).toBe('Tidy up');
+        });
+
+        it('should fall back to markdown for malformed JSON', () => {
+            const result = parser.parse('{"summary": "Tidy up",');
+
+            expect(result.source).toBe('markdown');
+            expect(result.warnings[0]).toContain('malformed JSON');
+        });
+    });
+
+    describe('validate', () => {
+        it('should report missing required sections', () => {
+            expect(parser.validate({ changes: [], migration: [] })).toEqual(['summary', 'changes']);
+            expect(parser.validate({ summary: 'Tidy up', changes: ['a'], migration: [] })).toEqual([]);
+        });
+    });
+});
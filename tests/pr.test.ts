@@ -41,4 +41,53 @@ describe('PRRenderer', () => {
             expect(formatted).not.toContain('## Migration Steps');
         });
     });
+
+    describe('render', () => {
+        it('should fill the PR template', () => {
+            const rendered = renderer.render(
+                {
+                    summary: 'Add OAuth2 login',
+                    changes: ['Implement OAuth2 flow', 'Add JWT token handling'],
+                    breaking: 'The /auth endpoint moved to /api/auth',
+                    migration: ['Update client configuration', 'Regenerate API tokens'],
+                    testing: 'Run `npm test`',
+                },
+                { issue: '42' }
+            );
+
+            expect(rendered).toContain('## Summary\n\nAdd OAuth2 login\n');
+            expect(rendered).toContain('- Implement OAuth2 flow\n- Add JWT token handling\n');
+            expect(rendered).toContain('## Breaking Changes\n\nThe /auth endpoint moved to /api/auth');
+            expect(rendered).toContain('1. Update client configuration\n2. Regenerate API tokens');
+            expect(rendered).toContain('## Testing\n\nRun `npm test`');
+            expect(rendered).not.toContain('- [ ] Unit tests added/updated');
+            expect(rendered).toContain('_No screenshots_');
+            expect(rendered).toMatch(/Closes #42\n$/);
+        });
+
+        it('should use defaults for missing sections', () => {
+            const rendered = renderer.render({ summary: 'Fix typo', changes: [], migration: [] });
+
+            expect(rendered).not.toContain('## Breaking Changes');
+            expect(rendered).not.toContain('## Migration Steps');
+            expect(rendered).toContain('- [ ] Unit tests added/updated');
+            expect(rendered).not.toContain('Closes #');
+            expect(rendered).not.toMatch(/\n{3,}/);
+        });
+
+        it('should only list breaking changes the model described', () => {
+            const sections = { summary: 'Drop v1', changes: ['Remove v1 routes'], migration: [] };
+
+            expect(renderer.render(sections)).not.toContain('## Breaking Changes');
+            expect(renderer.render({ ...sections, breaking: 'v1 is gone' })).toContain('## Breaking Changes\n\nv1 is gone');
+        });
+
+        it('should use a custom template', () => {
+            const custom = new PRRenderer('{{summary}}{{#changes}}\n* {{.}}{{/changes}}');
+
+            expect(custom.render({ summary: 'Tidy up', changes: ['a', 'b'], migration: [] })).toBe(
+                'Tidy up\n* a\n* b\n'
+            );
+        });
+    });
 });
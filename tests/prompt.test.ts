@@ -1,5 +1,8 @@
+import { CommitTypeRegistry } from '../src/core/commit-types.js';
 import { PromptBuilder } from '../src/core/prompt.js';
 import { ContextAnalysis } from '../src/core/context.js';
+import { StyleLearner } from '../src/core/style.js';
+import { TokenEstimator } from '../src/core/tokens.js';
 
 describe('PromptBuilder', () => {
     let builder: PromptBuilder;
@@ -20,6 +23,9 @@ describe('PromptBuilder', () => {
                     keywords: ['login', 'authenticate', 'jwt'],
                     functions: ['handleLogin', 'verifyToken'],
                     classes: [],
+                    interfaces: [],
+                    exports: [],
+                    symbols: [],
                     summary: 'Added JWT token validation',
                 },
                 {
@@ -31,6 +37,9 @@ describe('PromptBuilder', () => {
                     keywords: ['test', 'auth'],
                     functions: [],
                     classes: [],
+                    interfaces: [],
+                    exports: [],
+                    symbols: [],
                     summary: 'Added authentication tests',
                 },
             ],
@@ -45,6 +54,7 @@ describe('PromptBuilder', () => {
                 reasons: ['Files are in auth directory'],
             },
             breaking: false,
+            breakingChanges: [],
             summary: 'Add JWT authentication to login endpoint',
             totalAdditions: 23,
             totalDeletions: 3,
@@ -81,6 +91,12 @@ describe('PromptBuilder', () => {
             expect(messages[1].content).toContain('85%');
         });
 
+        it('should include the evidence behind the detected type', () => {
+            const messages = builder.buildCommitPrompt(mockContext, {});
+
+            expect(messages[1].content).toContain('Type evidence: New authentication logic added');
+        });
+
         it('should override type when explicitly provided', () => {
             const messages = builder.buildCommitPrompt(mockContext, { type: 'fix' });
 
@@ -108,11 +124,108 @@ describe('PromptBuilder', () => {
             expect(messages[1].content).toContain('login, authenticate, jwt');
         });
 
+        it('should describe changed symbols and exports', () => {
+            const [file] = mockContext.files;
+            const symbolContext = {
+                ...mockContext,
+                files: [
+                    {
+                        ...file,
+                        exports: ['Session'],
+                        symbols: [
+                            { name: 'GitService.getDiff', kind: 'function', change: 'modified', exported: false },
+                            { name: 'Session', kind: 'class', change: 'added', exported: true },
+                        ],
+                    },
+                ],
+            } as ContextAnalysis;
+            const messages = builder.buildCommitPrompt(symbolContext, {});
+
+            expect(messages[1].content).toContain('symbols: modified `GitService.getDiff`, added class `Session`');
+            expect(messages[1].content).toContain('exports: `Session`');
+        });
+
+        it('should omit symbols when none were detected', () => {
+            const messages = builder.buildCommitPrompt(mockContext, {});
+
+            expect(messages[1].content).not.toContain('symbols:');
+        });
+
+        it('should describe submodule bumps with their commits', () => {
+            const [file] = mockContext.files;
+            const messages = builder.buildCommitPrompt(
+                {
+                    ...mockContext,
+                    files: [
+                        {
+                            ...file,
+                            path: 'libs/libfoo',
+                            summary: 'Bump submodule libfoo from abc1234 to def5678: 2 commits',
+                            submodule: {
+                                oldSha: 'abc1234',
+                                newSha: 'def5678',
+                                commits: [
+                                    { sha: '2', subject: 'fix: guard null', body: '' },
+                                    { sha: '1', subject: 'feat: add parser', body: '' },
+                                ],
+                            },
+                        },
+                    ],
+                },
+                {}
+            );
+
+            expect(messages[1].content).toContain('- libs/libfoo (submodule)');
+            expect(messages[1].content).toContain(
+                '  Bump submodule libfoo from abc1234 to def5678: 2 commits\n    - fix: guard null\n    - feat: add parser\n'
+            );
+        });
+
+        it('should not show line counts for binary files', () => {
+            const [file] = mockContext.files;
+            const messages = builder.buildCommitPrompt(
+                {
+                    ...mockContext,
+                    files: [{ ...file, path: 'logo.png', binary: true, summary: 'Replaced binary file logo.png' }],
+                },
+                {}
+            );
+
+            expect(messages[1].content).toContain('- logo.png (binary)');
+            expect(messages[1].content).toContain('  Replaced binary file logo.png');
+        });
+
+        it('should list ignored files without their diff', () => {
+            const messages = builder.buildCommitPrompt(
+                {
+                    ...mockContext,
+                    ignored: [{ path: 'package-lock.json', kind: 'lockfile', additions: 120, deletions: 80 }],
+                },
+                {}
+            );
+
+            expect(messages[1].content).toContain('Also updated (not shown):\n- package-lock.json (lockfile)');
+        });
+
         it('should indicate breaking changes', () => {
             const breakingContext = { ...mockContext, breaking: true };
             const messages = builder.buildCommitPrompt(breakingContext, {});
 
-            expect(messages[1].content).toContain('Breaking changes detected');
+            expect(messages[1].content).toContain('Possible breaking changes detected');
+        });
+
+        it('should list detected breaking changes', () => {
+            const breakingContext = {
+                ...mockContext,
+                breaking: true,
+                breakingChanges: ['Removed CLI flag `--legacy` from `src/cli.ts`'],
+            };
+            const messages = builder.buildCommitPrompt(breakingContext, {});
+
+            expect(messages[1].content).toContain(
+                'If these break existing users, describe them in "breaking_description"; otherwise leave it null:\n' +
+                '- Removed CLI flag `--legacy` from `src/cli.ts`'
+            );
         });
 
         it('should include issue reference', () => {
@@ -134,12 +247,34 @@ describe('PromptBuilder', () => {
             expect(messages[0].content).toContain('Wrap body at 50');
         });
 
-        it('should include emoji instructions when enabled', () => {
+        it('should request a JSON object with the commit fields', () => {
+            const messages = builder.buildCommitPrompt(mockContext, {});
+
+            expect(messages[0].content).toContain('JSON object');
+            ['"type"', '"scope"', '"subject"', '"body"', '"breaking_description"', '"footers"'].forEach((field) => {
+                expect(messages[0].content).toContain(field);
+            });
+        });
+
+        it('should list every commit type with its description', () => {
+            const messages = builder.buildCommitPrompt(mockContext, {});
+
+            expect(messages[0].content).toContain('feat, fix, docs, style, refactor, perf, test, build, ci, chore, revert');
+            expect(messages[0].content).toContain('- ci: Changes to CI configuration files and scripts');
+        });
+
+        it('should include custom commit types', () => {
+            const custom = new PromptBuilder(new CommitTypeRegistry({ deps: { description: 'Dependency updates' } }));
+            const messages = custom.buildCommitPrompt(mockContext, {});
+
+            expect(messages[0].content).toContain('revert, deps');
+            expect(messages[0].content).toContain('- deps: Dependency updates');
+        });
+
+        it('should leave emoji to the renderer', () => {
             const messages = builder.buildCommitPrompt(mockContext, { emoji: true });
 
-            expect(messages[0].content).toContain('Prepend emoji');
-            expect(messages[0].content).toContain('feat 🚀');
-            expect(messages[0].content).toContain('fix 🐛');
+            expect(messages[0].content).not.toContain('🚀');
         });
 
         it('should include breaking change footer instruction when flagged', () => {
@@ -148,6 +283,27 @@ describe('PromptBuilder', () => {
             expect(messages[0].content).toContain('BREAKING CHANGE:');
         });
 
+        it('should describe the learned style with recent commits as examples', () => {
+            const style = StyleLearner.analyze([
+                { sha: 'a1', subject: 'feat(auth): add token refresh', body: 'Tokens expire hourly.\n\nRefs: #12' },
+                { sha: 'b2', subject: 'fix(auth): reject expired tokens', body: '' },
+            ]);
+            const messages = builder.buildCommitPrompt(mockContext, { style });
+
+            expect(messages[0].content).toContain('conventions (from its last 2 commits)');
+            expect(messages[0].content).toContain('Scopes in use: auth');
+            expect(messages[0].content).toContain('Subjects start with a lowercase letter');
+            expect(messages[0].content).toContain('50% of commits have a body');
+            expect(messages[0].content).toContain('"Refs: #123" footer');
+            expect(messages[0].content).toContain('---\nfeat(auth): add token refresh\n\nTokens expire hourly.\n---');
+        });
+
+        it('should not describe a style when none was learned', () => {
+            const messages = builder.buildCommitPrompt(mockContext, {});
+
+            expect(messages[0].content).not.toContain('conventions');
+        });
+
         it('should include diff when provided and requested', () => {
             const diff = `diff --git a/src/auth/login.ts b/src/auth/login.ts
 index abc123..def456 100644
@@ -177,13 +333,34 @@ index abc123..def456 100644
                 .join('\n');
             const messages = builder.buildCommitPrompt(
                 mockContext,
-                { includeDiff: true, maxDiffLines: 50 },
+                { includeDiff: true, maxDiffTokens: 100 },
                 largeDiff
             );
 
             expect(messages[1].content).toContain('more lines omitted');
         });
 
+        it('should size the diff to the provider context window', () => {
+            const diff = [
+                'diff --git a/package-lock.json b/package-lock.json',
+                '--- a/package-lock.json',
+                '+++ b/package-lock.json',
+                '@@ -1,1 +1,400 @@',
+                ...Array(400).fill('+    "resolved": "https://registry.npmjs.org/pkg"'),
+                'diff --git a/src/auth/login.ts b/src/auth/login.ts',
+                '--- a/src/auth/login.ts',
+                '+++ b/src/auth/login.ts',
+                '@@ -10,1 +10,1 @@',
+                '+  const token = jwt.sign(payload);',
+            ].join('\n');
+            const tokens = new TokenEstimator(2048, 4, 512);
+            const messages = builder.buildCommitPrompt(mockContext, { includeDiff: true, tokens }, diff);
+
+            expect(tokens.estimateMessages(messages)).toBeLessThan(2048 - 512);
+            expect(messages[1].content).toContain('jwt.sign');
+            expect(messages[1].content).toContain('Omitted from the diff preview:\n- package-lock.json (lockfile)');
+        });
+
         it('should redact sensitive data from diff', () => {
             const diffWithSecret = `diff --git a/config.ts b/config.ts
 index abc123..def456 100644
@@ -213,6 +390,9 @@ index abc123..def456 100644
                     keywords: ['api', 'users', 'endpoint'],
                     functions: ['getUsers', 'createUser'],
                     classes: [],
+                    interfaces: [],
+                    exports: [],
+                    symbols: [],
                     summary: 'Refactored user API endpoints',
                 },
             ],
@@ -227,6 +407,7 @@ index abc123..def456 100644
                 reasons: ['Changes in api directory'],
             },
             breaking: false,
+            breakingChanges: [],
             summary: 'Refactor user API for better performance',
             totalAdditions: 45,
             totalDeletions: 12,
@@ -249,6 +430,7 @@ index abc123..def456 100644
             expect(messages[0].content).toContain('Breaking Changes');
             expect(messages[0].content).toContain('Migration Steps');
             expect(messages[0].content).toContain('Testing');
+            expect(messages[0].content).toContain('JSON object');
         });
 
         it('should include branch names in user message', () => {
@@ -267,7 +449,16 @@ index abc123..def456 100644
             const breakingContext = { ...mockContext, breaking: true };
             const messages = builder.buildPRPrompt(breakingContext, 'main', 'feature/breaking');
 
-            expect(messages[1].content).toContain('Contains breaking changes');
+            expect(messages[1].content).toContain('May contain breaking changes');
+        });
+
+        it('should list detected breaking changes in PR', () => {
+            const breakingContext = { ...mockContext, breaking: true, breakingChanges: ['Removed HTTP route `GET /v1` in `src/api/v1.ts`'] };
+            const messages = builder.buildPRPrompt(breakingContext, 'main', 'feature/breaking');
+
+            expect(messages[1].content).toContain(
+                'describe them in "breaking"; otherwise leave it null:\n- Removed HTTP route `GET /v1` in `src/api/v1.ts`'
+            );
         });
 
         it('should include file summaries', () => {
@@ -284,15 +475,25 @@ index abc123..def456 100644
             expect(messages[1].content).toContain('Diff preview:');
         });
 
-        it('should truncate PR diff to 150 lines by default', () => {
-            const largeDiff = Array(300)
-                .fill('+ line')
+        it('should truncate PR diff to a default token budget', () => {
+            const largeDiff = Array(3000)
+                .fill('+ line of code')
                 .join('\n');
             const messages = builder.buildPRPrompt(mockContext, 'main', 'feature/refactor-api', largeDiff);
 
             expect(messages[1].content).toContain('more lines omitted');
         });
 
+        it('should use chunk summaries in place of the diff', () => {
+            const messages = builder.buildPRPrompt(mockContext, 'main', 'feature/api', '+ line', {
+                summaries: [{ name: 'src/api', files: ['src/api/users.ts'], summary: '- Add pagination' }],
+            });
+
+            expect(messages[1].content).toContain('Summaries of the changes, by area:');
+            expect(messages[1].content).toContain('### src/api (1 files)\n- Add pagination');
+            expect(messages[1].content).not.toContain('Diff preview');
+        });
+
         it('should redact secrets from PR diff', () => {
             const diffWithSecret = `diff --git a/.env b/.env
 --- a/.env
@@ -308,6 +509,31 @@ index abc123..def456 100644
         });
     });
 
+    describe('buildChunkSummaryPrompt', () => {
+        it('should ask for bullet points about one part of the diff', () => {
+            const messages = builder.buildChunkSummaryPrompt({
+                name: 'src/api',
+                files: ['src/api/users.ts'],
+                diff: 'diff --git a/src/api/users.ts b/src/api/users.ts\n+const password = "hunter2secret";',
+            });
+
+            expect(messages[0].content).toContain('bullet points');
+            expect(messages[1].content).toContain('Summarize the changes to src/api.');
+            expect(messages[1].content).toContain('- src/api/users.ts');
+            expect(messages[1].content).toContain('[REDACTED]');
+        });
+    });
+
+    describe('buildFixPrompt', () => {
+        it('should list the problems and the message to rewrite', () => {
+            const messages = builder.buildFixPrompt('Added login', ['Subject does not follow Conventional Commit format'], 80);
+
+            expect(messages[0].content).toContain('type is one of: feat, fix');
+            expect(messages[0].content).toContain('wrapped at 80 characters');
+            expect(messages[1].content).toBe('Problems:\n- Subject does not follow Conventional Commit format\n\nMessage:\nAdded login');
+        });
+    });
+
     describe('edge cases', () => {
         it('should handle empty file list', () => {
             const emptyContext: ContextAnalysis = {
@@ -315,6 +541,7 @@ index abc123..def456 100644
                 type: { type: 'chore', confidence: 0.5, reasons: [] },
                 scope: { scopes: [], confidence: 0, reasons: [] },
                 breaking: false,
+                breakingChanges: [],
                 summary: 'No changes',
                 totalAdditions: 0,
                 totalDeletions: 0,
@@ -336,12 +563,16 @@ index abc123..def456 100644
                         keywords: [],
                         functions: [],
                         classes: [],
+                        interfaces: [],
+                        exports: [],
+                        symbols: [],
                         summary: '',
                     },
                 ],
                 type: { type: 'chore', confidence: 0.5, reasons: [] },
                 scope: { scopes: [], confidence: 0, reasons: [] },
                 breaking: false,
+                breakingChanges: [],
                 summary: 'Add file',
                 totalAdditions: 1,
                 totalDeletions: 0,
@@ -357,6 +588,7 @@ index abc123..def456 100644
                 type: { type: 'chore', confidence: 0.5, reasons: [] },
                 scope: { scopes: [], confidence: 0, reasons: [] },
                 breaking: false,
+                breakingChanges: [],
                 summary: 'Test',
                 totalAdditions: 0,
                 totalDeletions: 0,
@@ -0,0 +1,83 @@
+import { RevertDetector } from '../src/core/revert.js';
+import { CommitInfo, GitService } from '../src/core/git.js';
+import { fileDiff, hunk } from './helpers.js';
+
+const original = fileDiff('src/core/git.ts', hunk(["-    const args = ['diff'];", "+    const args = ['diff', '--no-color'];"], 10));
+const inverse = fileDiff('src/core/git.ts', hunk(["-    const args = ['diff', '--no-color'];", "+    const args = ['diff'];"], 10));
+
+describe('RevertDetector', () => {
+    const commits: CommitInfo[] = [
+        { sha: 'a'.repeat(40), subject: 'docs: update readme', body: '' },
+        { sha: 'b'.repeat(40), subject: 'fix(git): disable colours in diffs', body: '' },
+    ];
+    let git: { getRecentCommits: jest.Mock; getCommitDiff: jest.Mock };
+    let detector: RevertDetector;
+
+    beforeEach(() => {
+        git = {
+            getRecentCommits: jest.fn().mockReturnValue(commits),
+            getCommitDiff: jest.fn((sha: string) =>
+                sha === commits[1].sha ? original : fileDiff('README.md')
+            ),
+        };
+        detector = new RevertDetector(git as unknown as GitService);
+    });
+
+    describe('isInverse', () => {
+        it('should match a diff that swaps added and removed lines', () => {
+            expect(detector.isInverse(inverse, original)).toBe(true);
+        });
+
+        it('should ignore hunk positions and context', () => {
+            const withContext = inverse.replace('@@ -10,1 +10,2 @@', '@@ -8,5 +8,5 @@\n     getDiff() {');
+
+            expect(detector.isInverse(withContext, original)).toBe(true);
+        });
+
+        it('should not match a partial or repeated change', () => {
+            expect(detector.isInverse(original, original)).toBe(false);
+            expect(detector.isInverse(fileDiff('src/core/git.ts', hunk(["+    const args = ['diff'];"])), original)).toBe(false);
+            expect(detector.isInverse(inverse.replace(/git\.ts/g, 'other.ts'), original)).toBe(false);
+        });
+
+        it('should not match empty diffs', () => {
+            expect(detector.isInverse('', '')).toBe(false);
+        });
+    });
+
+    describe('detect', () => {
+        it('should find the commit the diff undoes', () => {
+            expect(detector.detect(inverse)).toBe(commits[1]);
+            expect(git.getRecentCommits).toHaveBeenCalledWith(20);
+        });
+
+        it('should return undefined when no recent commit matches', () => {
+            expect(detector.detect(fileDiff('src/index.ts', hunk(['+export {};'])))).toBeUndefined();
+        });
+
+        it('should skip commits whose diff cannot be read', () => {
+            git.getCommitDiff.mockImplementationOnce(() => {
+                throw new Error('bad object');
+            });
+
+            expect(detector.detect(inverse)).toBe(commits[1]);
+        });
+    });
+
+    describe('message', () => {
+        it('should describe the revert the way git does', () => {
+            expect(RevertDetector.message(commits[1])).toEqual({
+                type: 'revert',
+                subject: 'fix(git): disable colours in diffs',
+                body: `This reverts commit ${'b'.repeat(40)}.`,
+                footers: [],
+            });
+        });
+
+        it('should add the reason after the reverted commit', () => {
+            expect(RevertDetector.message(commits[1], ' Breaks coloured output on Windows. ').body).toBe(
+                `This reverts commit ${'b'.repeat(40)}.\n\nBreaks coloured output on Windows.`
+            );
+        });
+    });
+});
@@ -0,0 +1,78 @@
+import { CommitSplitter } from '../src/core/split.js';
+import { ContextBuilder } from '../src/core/context.js';
+import { GitService } from '../src/core/git.js';
+import { analyze, fileDiff } from './helpers.js';
+
+describe('CommitSplitter', () => {
+    let splitter: CommitSplitter;
+
+    beforeEach(() => {
+        splitter = new CommitSplitter(new ContextBuilder({} as GitService));
+    });
+
+    describe('plan', () => {
+        it('should group files by scope', () => {
+            const groups = splitter.plan([
+                analyze('src/core/git.ts'),
+                analyze('src/commands/commit.ts'),
+                analyze('src/core/context.ts'),
+            ]);
+
+            expect(groups).toEqual([
+                { name: 'core', reason: "Files in scope 'core'", files: ['src/core/git.ts', 'src/core/context.ts'] },
+                { name: 'commands', reason: "Files in scope 'commands'", files: ['src/commands/commit.ts'] },
+            ]);
+        });
+
+        it('should keep dependencies first and docs last', () => {
+            const groups = splitter.plan([
+                analyze('README.md', { keywords: ['docs'] }),
+                analyze('src/core/git.ts'),
+                analyze('package.json', { keywords: ['dependencies'] }),
+                analyze('.github/workflows/ci.yml', { keywords: ['ci'] }),
+            ]);
+
+            expect(groups.map((group) => group.name)).toEqual(['dependencies', 'ci', 'core', 'docs']);
+        });
+
+        it('should place tests with the code they cover', () => {
+            const groups = splitter.plan([
+                analyze('tests/context.test.ts'),
+                analyze('tests/logger.test.ts'),
+                analyze('src/core/context.ts'),
+                analyze('src/commands/pr.ts'),
+            ]);
+
+            expect(groups).toEqual([
+                expect.objectContaining({ name: 'core', files: ['src/core/context.ts', 'tests/context.test.ts'] }),
+                expect.objectContaining({ name: 'commands', files: ['src/commands/pr.ts'] }),
+                expect.objectContaining({ name: 'tests', files: ['tests/logger.test.ts'] }),
+            ]);
+        });
+
+        it('should fall back to the top-level directory', () => {
+            const groups = splitter.plan([analyze('scripts/release.sh'), analyze('Makefile')]);
+
+            expect(groups).toEqual([
+                { name: 'scripts', reason: 'Files under scripts/', files: ['scripts/release.sh'] },
+                { name: 'root', reason: 'Top-level files', files: ['Makefile'] },
+            ]);
+        });
+
+        it('should return a single group for a focused change', () => {
+            expect(splitter.plan([analyze('src/core/git.ts'), analyze('src/core/lint.ts')])).toHaveLength(1);
+        });
+    });
+
+    describe('patches', () => {
+        it('should cut the diff into one patch per group', () => {
+            const diff = [fileDiff('src/core/git.ts'), fileDiff('docs/README.md'), fileDiff('src/core/lint.ts')].join('');
+            const patches = splitter.patches(diff, [
+                { name: 'core', reason: '', files: ['src/core/git.ts', 'src/core/lint.ts'] },
+                { name: 'docs', reason: '', files: ['docs/README.md'] },
+            ]);
+
+            expect(patches).toEqual([fileDiff('src/core/git.ts') + fileDiff('src/core/lint.ts'), fileDiff('docs/README.md')]);
+        });
+    });
+});
@@ -0,0 +1,133 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { StyleLearner } from '../src/core/style.js';
+import { CommitInfo, GitService } from '../src/core/git.js';
+
+const commit = (subject: string, body = '', files: string[] = []): CommitInfo => ({
+    sha: subject.length.toString(16).padStart(40, '0'),
+    subject,
+    body,
+    files,
+});
+
+describe('StyleLearner', () => {
+    describe('analyze', () => {
+        const commits = [
+            commit('feat(git): add commit history', 'Needed for style learning.\n\nRefs: #42', ['src/core/git.ts']),
+            commit('fix(git): handle empty log', '', ['src/core/git.ts', 'tests/git.test.ts']),
+            commit('docs: describe history config', 'Refs: #40', ['docs/CONFIGURATION.md']),
+            commit('Update readme', '', ['README.md']),
+        ];
+        const profile = StyleLearner.analyze(commits);
+
+        it('should count scopes and the paths they were used for', () => {
+            expect(profile.scopes).toEqual({ git: 2 });
+            expect(profile.pathScopes['src/core/git.ts']).toEqual({ git: 2 });
+            expect(profile.pathScopes['src/core']).toEqual({ git: 2 });
+            expect(profile.pathScopes['tests/git.test.ts']).toEqual({ git: 1 });
+        });
+
+        it('should measure subjects, casing, bodies and emoji', () => {
+            expect(profile.commits).toBe(4);
+            expect(profile.conventional).toBe(0.75);
+            expect(profile.subjectLength.max).toBe('docs: describe history config'.length);
+            expect(profile.casing).toBe('lower');
+            expect(profile.bodies).toBe(0.25); // A lone ticket footer is not a body
+            expect(profile.emoji).toBe(0);
+        });
+
+        it('should detect the ticket footer format', () => {
+            expect(profile.ticketFooter).toBe('Refs: #123');
+            expect(StyleLearner.analyze([commit('fix: x', 'Closes PROJ-7')]).ticketFooter).toBe('Closes PROJ-123');
+        });
+
+        it('should keep recent Conventional Commits as examples', () => {
+            expect(profile.examples).toEqual([
+                'feat(git): add commit history\n\nNeeded for style learning.',
+                'fix(git): handle empty log',
+                'docs: describe history config\n\nRefs: #40',
+            ]);
+        });
+
+        it('should notice emoji and uppercase subjects', () => {
+            const styled = StyleLearner.analyze([commit('🐛 fix: Handle errors'), commit('✨ feat: Add export')]);
+
+            expect(styled.emoji).toBe(1);
+            expect(styled.casing).toBe('upper');
+        });
+    });
+
+    describe('scopesForPath', () => {
+        const profile = StyleLearner.analyze([
+            commit('fix(git): a', '', ['src/core/git.ts']),
+            commit('feat(prompt): b', '', ['src/core/prompt.ts']),
+            commit('feat(prompt): c', '', ['src/core/prompt.ts']),
+            commit('docs(readme): d', '', ['README.md', 'docs/QUICKSTART.md']),
+        ]);
+
+        it('should prefer the scope used for the file itself', () => {
+            expect(StyleLearner.scopesForPath(profile, 'src/core/git.ts')).toEqual(['git']);
+        });
+
+        it('should fall back to the closest directory, most used scope first', () => {
+            expect(StyleLearner.scopesForPath(profile, 'src/core/context.ts')).toEqual(['prompt', 'git']);
+            expect(StyleLearner.scopesForPath(profile, 'docs/COMMANDS.md')).toEqual(['readme']);
+        });
+
+        it('should not guess from a top-level directory shared by every scope', () => {
+            expect(StyleLearner.scopesForPath(profile, 'src/api/routes.ts')).toEqual([]);
+        });
+    });
+
+    describe('learn', () => {
+        let gitDir: string;
+        let git: { getHeadSha: jest.Mock; getGitDir: jest.Mock; getRecentCommitsWithFiles: jest.Mock };
+
+        beforeEach(() => {
+            gitDir = mkdtempSync(path.join(tmpdir(), 'aicmt-style-'));
+            git = {
+                getHeadSha: jest.fn().mockReturnValue('a'.repeat(40)),
+                getGitDir: jest.fn().mockReturnValue(gitDir),
+                getRecentCommitsWithFiles: jest.fn().mockReturnValue([commit('fix(git): a', '', ['src/core/git.ts'])]),
+            };
+        });
+
+        afterEach(() => {
+            rmSync(gitDir, { recursive: true, force: true });
+        });
+
+        it('should cache the profile under .git/aicmt until HEAD moves', () => {
+            const learner = new StyleLearner(git as unknown as GitService, 10);
+
+            const profile = learner.learn();
+            expect(profile?.scopes).toEqual({ git: 1 });
+            expect(git.getRecentCommitsWithFiles).toHaveBeenCalledWith(10);
+
+            const cached = JSON.parse(readFileSync(path.join(gitDir, 'aicmt', 'style.json'), 'utf-8'));
+            expect(cached).toEqual({ head: 'a'.repeat(40), limit: 10, profile });
+
+            expect(learner.learn()).toEqual(profile);
+            expect(git.getRecentCommitsWithFiles).toHaveBeenCalledTimes(1);
+
+            git.getHeadSha.mockReturnValue('b'.repeat(40));
+            learner.learn();
+            expect(git.getRecentCommitsWithFiles).toHaveBeenCalledTimes(2);
+        });
+
+        it('should return undefined without history or when disabled', () => {
+            expect(new StyleLearner(git as unknown as GitService, 0).learn()).toBeUndefined();
+
+            git.getHeadSha.mockReturnValue(null);
+            expect(new StyleLearner(git as unknown as GitService).learn()).toBeUndefined();
+        });
+
+        it('should not fail when git cannot be read', () => {
+            git.getGitDir.mockImplementation(() => {
+                throw new Error('not a git repository');
+            });
+
+            expect(new StyleLearner(git as unknown as GitService).learn()).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,142 @@
+import { PRSummarizer } from '../src/core/summarize.js';
+import { PromptBuilder } from '../src/core/prompt.js';
+import { ModelProvider } from '../src/core/model.js';
+import { TokenEstimator } from '../src/core/tokens.js';
+import { logger } from '../src/utils/logger.js';
+import { added, fileDiff, hunk } from './helpers.js';
+
+describe('PRSummarizer', () => {
+    // One token per character keeps the chunk sizes easy to follow
+    const tokens = new TokenEstimator(100000, 1, 0);
+    let provider: { complete: jest.Mock };
+    let summarizer: PRSummarizer;
+
+    beforeEach(() => {
+        provider = { complete: jest.fn(async (messages) => `- summary of ${messages[1].content.split('\n')[0]}`) };
+        summarizer = new PRSummarizer(provider as unknown as ModelProvider, new PromptBuilder(), {
+            tokens,
+            chunkTokens: 1000,
+            concurrency: 2,
+        });
+    });
+
+    describe('needsChunking', () => {
+        it('should chunk diffs larger than the PR diff budget', () => {
+            expect(summarizer.needsChunking(fileDiff('src/a.ts', hunk(added(10))))).toBe(false);
+            expect(summarizer.needsChunking(fileDiff('src/a.ts', hunk(added(400))))).toBe(true);
+            expect(summarizer.needsChunking(fileDiff('src/a.ts', hunk(added(10))), 100)).toBe(true);
+        });
+    });
+
+    describe('plan', () => {
+        it('should group small files by directory and pack neighbouring directories', () => {
+            const diff =
+                fileDiff('src/core/a.ts', hunk(added(5))) +
+                fileDiff('src/core/b.ts', hunk(added(5))) +
+                fileDiff('docs/guide.md', hunk(added(5)));
+
+            expect(summarizer.plan(diff).map(({ name, files }) => ({ name, files }))).toEqual([
+                { name: 'src/core, docs', files: ['src/core/a.ts', 'src/core/b.ts', 'docs/guide.md'] },
+            ]);
+        });
+
+        it('should split a directory that does not fit into its files', () => {
+            const diff =
+                fileDiff('src/core/a.ts', hunk(added(25))) +
+                fileDiff('src/core/b.ts', hunk(added(25))) +
+                fileDiff('README.md', hunk(added(2)));
+
+            const chunks = summarizer.plan(diff);
+
+            expect(chunks.map((chunk) => chunk.files)).toEqual([['src/core/a.ts'], ['src/core/b.ts', 'README.md']]);
+            expect(chunks[1].name).toBe('src/core, repository root');
+            expect(chunks[0].diff).toBe(fileDiff('src/core/a.ts', hunk(added(25))));
+        });
+
+        it('should leave out lock and generated files', () => {
+            const diff = fileDiff('package-lock.json', hunk(added(30))) + fileDiff('src/index.ts', hunk(added(2)));
+
+            expect(summarizer.plan(diff).map((chunk) => chunk.files)).toEqual([['src/index.ts']]);
+        });
+    });
+
+    describe('summarize', () => {
+        it('should summarize every chunk and keep their order', async () => {
+            const chunks = summarizer.plan(
+                fileDiff('src/a/x.ts', hunk(added(30))) +
+                    fileDiff('src/b/y.ts', hunk(added(30))) +
+                    fileDiff('src/c/z.ts', hunk(added(30)))
+            );
+
+            const summaries = await summarizer.summarize(chunks);
+
+            expect(provider.complete).toHaveBeenCalledTimes(3);
+            expect(summaries).toEqual([
+                { name: 'src/a', files: ['src/a/x.ts'], summary: '- summary of Summarize the changes to src/a.' },
+                { name: 'src/b', files: ['src/b/y.ts'], summary: '- summary of Summarize the changes to src/b.' },
+                { name: 'src/c', files: ['src/c/z.ts'], summary: '- summary of Summarize the changes to src/c.' },
+            ]);
+        });
+
+        it('should not run more requests at once than the concurrency limit', async () => {
+            let running = 0;
+            let peak = 0;
+            provider.complete.mockImplementation(async () => {
+                running++;
+                peak = Math.max(peak, running);
+                await new Promise((resolve) => setTimeout(resolve, 5));
+                running--;
+                return '- done';
+            });
+
+            const chunks = Array.from({ length: 5 }, (_, i) => ({ name: `dir${i}`, files: [`dir${i}/a.ts`], diff: '' }));
+            await summarizer.summarize(chunks);
+
+            expect(provider.complete).toHaveBeenCalledTimes(5);
+            expect(peak).toBe(2);
+        });
+
+        it('should fail when a chunk cannot be summarized', async () => {
+            provider.complete.mockRejectedValueOnce(new Error('rate limited'));
+
+            await expect(summarizer.summarize(summarizer.plan(fileDiff('src/a.ts', hunk(added(2)))))).rejects.toThrow('rate limited');
+        });
+
+        it('should not start new chunks after one fails', async () => {
+            provider.complete.mockRejectedValueOnce(new Error('rate limited'));
+
+            const chunks = Array.from({ length: 5 }, (_, i) => ({ name: `dir${i}`, files: [`dir${i}/a.ts`], diff: '' }));
+            await expect(summarizer.summarize(chunks)).rejects.toThrow('rate limited');
+            // Let the worker still running finish its chunk
+            await new Promise((resolve) => setTimeout(resolve, 0));
+
+            expect(provider.complete).toHaveBeenCalledTimes(2);
+        });
+
+        it('should keep one spinner and stop it when a chunk fails', async () => {
+            const stop = jest.fn();
+            const spinner = jest.spyOn(logger, 'spinner').mockReturnValue(stop);
+            provider.complete.mockRejectedValueOnce(new Error('rate limited'));
+
+            try {
+                const chunks = Array.from({ length: 3 }, (_, i) => ({ name: `dir${i}`, files: [`dir${i}/a.ts`], diff: '' }));
+                await expect(summarizer.summarize(chunks)).rejects.toThrow('rate limited');
+                // Let the worker still running finish its chunk
+                await new Promise((resolve) => setTimeout(resolve, 0));
+
+                expect(spinner).toHaveBeenCalledTimes(1);
+                expect(stop).toHaveBeenCalledTimes(1);
+            } finally {
+                spinner.mockRestore();
+            }
+        });
+
+        it('should not start a spinner without chunks', async () => {
+            const spinner = jest.spyOn(logger, 'spinner');
+
+            await expect(summarizer.summarize([])).resolves.toEqual([]);
+            expect(spinner).not.toHaveBeenCalled();
+            spinner.mockRestore();
+        });
+    });
+});
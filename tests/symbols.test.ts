@@ -0,0 +1,223 @@
+import { SymbolExtractor } from '../src/core/symbols.js';
+import { fileDiff } from './helpers.js';
+
+describe('SymbolExtractor', () => {
+    let extractor: SymbolExtractor;
+
+    beforeEach(() => {
+        extractor = new SymbolExtractor();
+    });
+
+    describe('languageFor', () => {
+        it('should map extensions to languages', () => {
+            expect(SymbolExtractor.languageFor('src/index.tsx')).toBe('typescript');
+            expect(SymbolExtractor.languageFor('lib/util.mjs')).toBe('typescript');
+            expect(SymbolExtractor.languageFor('app/main.py')).toBe('python');
+            expect(SymbolExtractor.languageFor('cmd/server.go')).toBe('go');
+            expect(SymbolExtractor.languageFor('src/Main.java')).toBe('java');
+            expect(SymbolExtractor.languageFor('README.md')).toBeUndefined();
+        });
+    });
+
+    describe('splitDiff', () => {
+        it('should split a diff per file', () => {
+            const diff = [
+                fileDiff('src/a.ts', ['@@ -1 +1 @@', '-a', '+b']),
+                [
+                    'diff --git a/src/old.ts b/src/old.ts',
+                    'deleted file mode 100644',
+                    '--- a/src/old.ts',
+                    '+++ /dev/null',
+                    '@@ -1 +0,0 @@',
+                    '-gone',
+                ].join('\n'),
+            ].join('\n');
+
+            const files = SymbolExtractor.splitDiff(diff);
+
+            expect([...files.keys()]).toEqual(['src/a.ts', 'src/old.ts']);
+            expect(files.get('src/a.ts')).toContain('+b');
+        });
+    });
+
+    describe('TypeScript', () => {
+        it('should attribute body changes to the enclosing method', () => {
+            const symbols = extractor.extract(
+                'src/core/git.ts',
+                fileDiff('src/core/git.ts', [
+                    '@@ -85,6 +85,6 @@ export class GitService {',
+                    '    getDiff(options: DiffOptions = {}): string {',
+                    "-        const args = ['diff'];",
+                    "+        const args = ['diff', '--no-color'];",
+                    '        if (options.staged) {',
+                ])
+            );
+
+            expect(symbols).toEqual([
+                { name: 'GitService.getDiff', kind: 'function', change: 'modified', exported: false },
+            ]);
+        });
+
+        it('should report added and removed declarations', () => {
+            const symbols = extractor.extract(
+                'src/core/cache.ts',
+                fileDiff('src/core/cache.ts', [
+                    '@@ -1,5 +1,9 @@',
+                    '-export function legacyLookup(key: string) {',
+                    '-    return null;',
+                    '-}',
+                    '+export interface CacheOptions {',
+                    '+    ttl: number;',
+                    '+}',
+                    '+',
+                    '+export class Cache {',
+                    '+    async get(key: string): Promise<string | undefined> {',
+                    '+        return this.items.get(key);',
+                    '+    }',
+                    '+}',
+                    '+export const createCache = (options: CacheOptions) => new Cache();',
+                ])
+            );
+
+            expect(symbols).toEqual([
+                { name: 'legacyLookup', kind: 'function', change: 'removed', exported: true },
+                { name: 'CacheOptions', kind: 'interface', change: 'added', exported: true },
+                { name: 'Cache', kind: 'class', change: 'added', exported: true },
+                { name: 'Cache.get', kind: 'function', change: 'added', exported: false },
+                { name: 'createCache', kind: 'function', change: 'added', exported: true },
+            ]);
+        });
+
+        it('should treat a changed signature as modified', () => {
+            const symbols = extractor.extract(
+                'src/utils/text.ts',
+                fileDiff('src/utils/text.ts', [
+                    '@@ -1,3 +1,3 @@',
+                    '-export function wrapText(text: string): string {',
+                    '+export function wrapText(text: string, width = 72): string {',
+                    '     return text;',
+                ])
+            );
+
+            expect(symbols).toEqual([
+                {
+                    name: 'wrapText',
+                    kind: 'function',
+                    change: 'modified',
+                    exported: true,
+                    before: 'export function wrapText(text: string): string {',
+                    after: 'export function wrapText(text: string, width = 72): string {',
+                },
+            ]);
+        });
+
+        it('should not mistake calls and callbacks for methods', () => {
+            const symbols = extractor.extract(
+                'src/core/git.ts',
+                fileDiff('src/core/git.ts', [
+                    '@@ -20,4 +20,6 @@ export class GitService {',
+                    '    private exec(args: string[]): string {',
+                    '+        execSync(args.join(" "), {',
+                    '+        files.forEach((file) => {',
+                    '+        if (args.length === 0) {',
+                ])
+            );
+
+            expect(symbols.map((symbol) => symbol.name)).toEqual(['GitService.exec']);
+        });
+
+        it('should list names from export lists', () => {
+            const symbols = extractor.extract(
+                'src/index.ts',
+                fileDiff('src/index.ts', ['@@ -1 +1 @@', '+export { CommitParser, PRParser as Parser };'])
+            );
+
+            expect(symbols.map((symbol) => symbol.name)).toEqual(['CommitParser', 'Parser']);
+            expect(symbols.every((symbol) => symbol.exported && symbol.kind === 'variable')).toBe(true);
+        });
+    });
+
+    describe('Python', () => {
+        it('should qualify methods with their class', () => {
+            const symbols = extractor.extract(
+                'app/service.py',
+                fileDiff('app/service.py', [
+                    '@@ -10,5 +10,8 @@ class UserService:',
+                    '    def find(self, user_id):',
+                    '-        return None',
+                    '+        return self.repo.get(user_id)',
+                    '+',
+                    '+    def _cache_key(self, user_id):',
+                    '+        return f"user:{user_id}"',
+                    '+def helper():',
+                    '+    pass',
+                ])
+            );
+
+            expect(symbols).toEqual([
+                { name: 'UserService.find', kind: 'function', change: 'modified', exported: false },
+                { name: 'UserService._cache_key', kind: 'function', change: 'added', exported: false },
+                { name: 'helper', kind: 'function', change: 'added', exported: true },
+            ]);
+        });
+    });
+
+    describe('Go', () => {
+        it('should qualify methods with their receiver and export capitalised names', () => {
+            const symbols = extractor.extract(
+                'server/server.go',
+                fileDiff('server/server.go', [
+                    '@@ -30,4 +30,4 @@ func (s *Server) Handle(w http.ResponseWriter, r *http.Request) {',
+                    '-\tlog.Println("handling")',
+                    '+\ts.logger.Info("handling")',
+                    '@@ -50,0 +50,6 @@',
+                    '+type Handler interface {',
+                    '+\tServe() error',
+                    '+}',
+                    '+func newServer() *Server {',
+                    '+\treturn &Server{}',
+                    '+}',
+                ])
+            );
+
+            expect(symbols).toEqual([
+                { name: 'Server.Handle', kind: 'function', change: 'modified', exported: true },
+                { name: 'Handler', kind: 'interface', change: 'added', exported: true },
+                { name: 'newServer', kind: 'function', change: 'added', exported: false },
+            ]);
+        });
+    });
+
+    describe('Java', () => {
+        it('should list methods and constructors inside classes', () => {
+            const symbols = extractor.extract(
+                'src/main/java/app/UserService.java',
+                fileDiff('src/main/java/app/UserService.java', [
+                    '@@ -5,6 +5,12 @@ public class UserService {',
+                    '+    public UserService(UserRepository repo) {',
+                    '+        this.repo = repo;',
+                    '+    }',
+                    '+',
+                    '     private User load(long id) {',
+                    '-        return null;',
+                    '+        return repo.findById(id);',
+                    '+    }',
+                    '+',
+                    '+    public List<User> findAll() {',
+                    '+        return repo.findAll(',
+                    '+            Sort.by("name"));',
+                ])
+            );
+
+            expect(symbols).toEqual([
+                { name: 'UserService.UserService', kind: 'function', change: 'added', exported: true },
+                { name: 'UserService.load', kind: 'function', change: 'modified', exported: false },
+                { name: 'UserService.findAll', kind: 'function', change: 'added', exported: true },
+            ]);
+        });
+    });
+
+    it('should ignore files in unsupported languages', () => {
+        expect(extractor.extract('README.md', fileDiff('README.md', ['@@ -1 +1 @@', '-a', '+b']))).toEqual([]);
+    });
+});
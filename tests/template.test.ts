@@ -0,0 +1,124 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { loadTemplate, renderTemplate } from '../src/core/template.js';
+
+describe('renderTemplate', () => {
+    it('should substitute variables', () => {
+        expect(renderTemplate('{{type}}: {{ subject }}', { type: 'feat', subject: 'add x' })).toBe('feat: add x');
+    });
+
+    it('should render missing values as empty strings', () => {
+        expect(renderTemplate('[{{missing}}]', {})).toBe('[]');
+    });
+
+    it('should render sections only for truthy values', () => {
+        const template = '{{type}}{{#scope}}({{scope}}){{/scope}}{{#breaking}}!{{/breaking}}';
+
+        expect(renderTemplate(template, { type: 'feat', scope: 'api', breaking: true })).toBe('feat(api)!');
+        expect(renderTemplate(template, { type: 'feat', scope: '', breaking: false })).toBe('feat');
+    });
+
+    it('should drop comments and standalone section lines', () => {
+        const template = '{{! header\n  comment }}\nsubject\n\n{{#body}}\n{{body}}\n{{/body}}\n\n{{#footer}}\n{{footer}}\n{{/footer}}\n';
+
+        expect(renderTemplate(template, { body: 'text', footer: 'Refs: #1' })).toBe(
+            'subject\n\ntext\n\nRefs: #1\n'
+        );
+        expect(renderTemplate(template, { footer: 'Refs: #1' })).toBe('subject\n\nRefs: #1\n');
+    });
+
+    it('should look up dotted names', () => {
+        expect(renderTemplate('{{author.name}}', { author: { name: 'Ada' } })).toBe('Ada');
+    });
+
+    it('should render inverted sections for falsy values and empty lists', () => {
+        const template = '{{^testing}}none{{/testing}}';
+
+        expect(renderTemplate(template, {})).toBe('none');
+        expect(renderTemplate(template, { testing: [] })).toBe('none');
+        expect(renderTemplate(template, { testing: 'npm test' })).toBe('');
+    });
+
+    it('should iterate lists with the current item and its index', () => {
+        const template = '{{#steps}}\n{{index}}. {{.}}\n{{/steps}}\n';
+
+        expect(renderTemplate(template, { steps: ['update config', 'rotate tokens'] })).toBe(
+            '1. update config\n2. rotate tokens\n'
+        );
+    });
+
+    it('should put object fields in scope and fall back to outer values', () => {
+        const template = '{{#files}}{{path}} ({{scope}}){{#last}}.{{/last}}{{^last}}, {{/last}}{{/files}}';
+        const view = {
+            scope: 'api',
+            files: [{ path: 'a.ts' }, { path: 'b.ts', last: true }],
+        };
+
+        expect(renderTemplate(template, view)).toBe('a.ts (api), b.ts (api).');
+    });
+
+    it('should nest sections', () => {
+        const template = '{{#migration}}Steps:{{#steps}} {{index}}){{.}}{{/steps}}{{/migration}}';
+
+        expect(renderTemplate(template, { migration: true, steps: ['a', 'b'] })).toBe('Steps: 1)a 2)b');
+        expect(renderTemplate(template, { migration: false, steps: ['a'] })).toBe('');
+    });
+
+    it('should not expand tags inside values', () => {
+        expect(renderTemplate('{{body}}', { body: 'use {{name}} here' })).toBe('use {{name}} here');
+    });
+
+    it('should reject unbalanced sections', () => {
+        expect(() => renderTemplate('{{#a}}text', {})).toThrow('Unclosed section {{#a}}');
+        expect(() => renderTemplate('{{#a}}text{{/b}}', {})).toThrow('Unexpected {{/b}}');
+    });
+});
+
+describe('loadTemplate', () => {
+    it('should read templates from the package root', () => {
+        const root = path.resolve(__dirname, '..');
+
+        expect(loadTemplate('commit', { root })).toBe(
+            readFileSync(path.join(root, 'templates', 'commit.md'), 'utf-8')
+        );
+    });
+
+    it('should find the package templates without a root', () => {
+        const root = path.resolve(__dirname, '..');
+
+        expect(loadTemplate('commit')).toBe(loadTemplate('commit', { root }));
+        expect(loadTemplate('pr')).toBe(loadTemplate('pr', { root }));
+    });
+
+    it('should fall back to the package templates for unknown roots', () => {
+        expect(loadTemplate('commit', { root: '/nonexistent' })).toBe(loadTemplate('commit'));
+    });
+
+    describe('project overrides', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(path.join(tmpdir(), 'aicmt-template-'));
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('should prefer an explicit template path', () => {
+            const file = path.join(dir, 'commit.md');
+            writeFileSync(file, '{{type}}: {{subject}}', 'utf-8');
+
+            expect(loadTemplate('commit', { root: path.resolve(__dirname, '..'), path: file })).toBe(
+                '{{type}}: {{subject}}'
+            );
+        });
+
+        it('should fail clearly when the override is missing', () => {
+            expect(() => loadTemplate('pr', { path: path.join(dir, 'missing.md') })).toThrow(
+                'Template not found'
+            );
+        });
+    });
+});
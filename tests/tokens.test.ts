@@ -0,0 +1,45 @@
+import { TokenEstimator } from '../src/core/tokens.js';
+
+describe('TokenEstimator', () => {
+    describe('forModel', () => {
+        it('should look up context windows by model name', () => {
+            expect(TokenEstimator.forModel('openai', 'gpt-4o-mini').contextWindow).toBe(128000);
+            expect(TokenEstimator.forModel('openai', 'gpt-4').contextWindow).toBe(8192);
+            expect(TokenEstimator.forModel('anthropic', 'claude-3-5-haiku-latest').contextWindow).toBe(200000);
+        });
+
+        it('should fall back to a per-provider default', () => {
+            expect(TokenEstimator.forModel('ollama', 'llama3').contextWindow).toBe(4096);
+            expect(TokenEstimator.forModel('openai', 'my-gateway-model').contextWindow).toBe(8192);
+        });
+
+        it('should prefer a configured context window and reserve the response', () => {
+            const tokens = TokenEstimator.forModel('ollama', 'llama3', { contextWindow: 32768, maxTokens: 1024 });
+
+            expect(tokens.contextWindow).toBe(32768);
+            expect(tokens.reserved).toBe(1024);
+        });
+
+        it('should count more tokens for tokenizers with shorter tokens', () => {
+            const text = 'x'.repeat(700);
+
+            expect(TokenEstimator.forModel('openai', 'gpt-4o').estimate(text)).toBe(175);
+            expect(TokenEstimator.forModel('anthropic', 'claude-3').estimate(text)).toBe(200);
+        });
+    });
+
+    describe('available', () => {
+        it('should leave headroom and the response reservation', () => {
+            const tokens = new TokenEstimator(10000, 4, 500);
+
+            expect(tokens.available(1000)).toBe(7500);
+            expect(tokens.available(20000)).toBe(0);
+        });
+    });
+
+    it('should count message overhead', () => {
+        const tokens = new TokenEstimator();
+
+        expect(tokens.estimateMessages([{ role: 'user', content: 'abcd' }])).toBe(5);
+    });
+});